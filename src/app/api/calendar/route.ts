@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CALENDAR_EXTENSION, CALENDAR_MIME_TYPE, isCalendarLocationList, isValidSlot, itinerarySlots, toIcs } from '@/app/lib/calendar';
+import { exportFileName } from '@/app/lib/export';
+import { MAX_ITINERARY_STOPS } from '@/app/lib/itinerary';
+import { AppError, errorResponse, toAppError } from '@/app/lib/errors';
+import { CalendarExportRequest } from '@/app/types/api';
+import { ErrorCode } from '@/app/types/errors';
+
+const DEFAULT_CALENDAR_NAME = 'Day out';
+
+export async function POST(request: NextRequest) {
+    try {
+        const body: CalendarExportRequest = await request.json();
+        const { locations, itinerary } = body;
+
+        // Validate input
+        if (!isCalendarLocationList(locations) || locations.length === 0) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, 'Invalid request. Please provide the locations to add to your calendar.'));
+        }
+
+        const slots: unknown = body.slots ?? (Array.isArray(itinerary?.stops) ? itinerarySlots(itinerary) : undefined);
+
+        if (!Array.isArray(slots) || slots.length === 0) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, 'Invalid request. Please plan your day or choose a time for each place.'));
+        }
+
+        if (slots.length > MAX_ITINERARY_STOPS) {
+            return errorResponse(new AppError(
+                ErrorCode.VALIDATION,
+                `Too many events. Please add at most ${MAX_ITINERARY_STOPS} places to your calendar.`
+            ));
+        }
+
+        if (!slots.every(isValidSlot)) {
+            return errorResponse(new AppError(
+                ErrorCode.VALIDATION,
+                'Invalid time slot. Please use YYYY-MM-DDTHH:mm times that end after they start.'
+            ));
+        }
+
+        const locationIds = new Set(locations.map(location => location.id));
+        if (slots.some(slot => !locationIds.has(slot.locationId))) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, 'Invalid time slot. Every slot must refer to one of the locations.'));
+        }
+
+        const name = typeof body.name === 'string' && body.name.trim() ? body.name.trim() : DEFAULT_CALENDAR_NAME;
+        const content = toIcs({ name, locations, slots });
+
+        return new NextResponse(content, {
+            headers: {
+                'Content-Type': `${CALENDAR_MIME_TYPE}; charset=utf-8`,
+                'Content-Disposition': `attachment; filename="${exportFileName(name, CALENDAR_EXTENSION)}"`,
+            },
+        });
+    } catch (error) {
+        console.error('Error exporting calendar:', error);
+
+        // Malformed JSON bodies end up here
+        if (error instanceof SyntaxError) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, 'Invalid request body. Please send JSON.'));
+        }
+
+        return errorResponse(toAppError(error, 'Failed to create your calendar file. Please try again later.'));
+    }
+}
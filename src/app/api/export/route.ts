@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EXPORT_FORMATS, exportFileName, isExportFormat, orderLocations, serializeExport } from '@/app/lib/export';
+import { MAX_ITINERARY_STOPS } from '@/app/lib/itinerary';
+import { isRoutableLocationList, optimizeRoute } from '@/app/lib/routing';
+import { AppError, errorResponse, toAppError } from '@/app/lib/errors';
+import { ExportRequest } from '@/app/types/api';
+import { ErrorCode } from '@/app/types/errors';
+
+const DEFAULT_EXPORT_NAME = 'Recommendations';
+
+export async function POST(request: NextRequest) {
+    try {
+        const body: ExportRequest = await request.json();
+        const { format, locations, order } = body;
+
+        // Validate input
+        if (!isExportFormat(format)) {
+            return errorResponse(new AppError(
+                ErrorCode.VALIDATION,
+                `Invalid format. Please choose one of: ${Object.keys(EXPORT_FORMATS).join(', ')}.`
+            ));
+        }
+
+        if (!isRoutableLocationList(locations) || locations.length === 0) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, 'Invalid request. Please provide the locations to export.'));
+        }
+
+        if (locations.length > MAX_ITINERARY_STOPS) {
+            return errorResponse(new AppError(
+                ErrorCode.VALIDATION,
+                `Too many locations. Please export at most ${MAX_ITINERARY_STOPS} places.`
+            ));
+        }
+
+        if (order !== undefined && (!Array.isArray(order) || order.some(id => typeof id !== 'string'))) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, 'Invalid order. Please provide a list of location ids.'));
+        }
+
+        const name = typeof body.name === 'string' && body.name.trim() ? body.name.trim() : DEFAULT_EXPORT_NAME;
+
+        // Keep the route the user is looking at; otherwise compute one
+        const ordered = order
+            ? orderLocations(locations, order)
+            : orderLocations(locations, optimizeRoute(locations).order);
+
+        const content = serializeExport(format, {
+            name,
+            locations: ordered,
+            path: ordered.map(location => location.coordinates),
+        });
+
+        return new NextResponse(content, {
+            headers: {
+                'Content-Type': `${EXPORT_FORMATS[format].mimeType}; charset=utf-8`,
+                'Content-Disposition': `attachment; filename="${exportFileName(name, EXPORT_FORMATS[format].extension)}"`,
+            },
+        });
+    } catch (error) {
+        console.error('Error exporting recommendations:', error);
+
+        // Malformed JSON bodies end up here
+        if (error instanceof SyntaxError) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, 'Invalid request body. Please send JSON.'));
+        }
+
+        return errorResponse(toAppError(error, 'Failed to export your recommendations. Please try again later.'));
+    }
+}
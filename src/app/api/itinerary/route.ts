@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MAX_ITINERARY_STOPS, planItinerary, resolveItineraryWindow } from '@/app/lib/itinerary';
+import { isRoutableLocationList } from '@/app/lib/routing';
+import { AppError, errorResponse, toAppError } from '@/app/lib/errors';
+import { GenerateItineraryRequest, GenerateItineraryResponse } from '@/app/types/api';
+import { ErrorCode } from '@/app/types/errors';
+
+export async function POST(request: NextRequest) {
+    try {
+        const body: GenerateItineraryRequest = await request.json();
+        const { locations, start, end, timePreferences } = body;
+
+        // Validate input
+        if (!isRoutableLocationList(locations) || locations.length === 0) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, 'Invalid request. Please provide the locations to schedule.'));
+        }
+
+        if (locations.length > MAX_ITINERARY_STOPS) {
+            return errorResponse(new AppError(
+                ErrorCode.VALIDATION,
+                `Too many locations. Please schedule at most ${MAX_ITINERARY_STOPS} places.`
+            ));
+        }
+
+        if (timePreferences !== undefined && (!Array.isArray(timePreferences) || timePreferences.some(item => typeof item !== 'string'))) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, 'Invalid time preferences. Please provide a list of strings.'));
+        }
+
+        const window = resolveItineraryWindow(start, end);
+        if ('error' in window) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, window.error));
+        }
+
+        const itinerary = planItinerary(locations, window, timePreferences);
+
+        if (itinerary.stops.length === 0) {
+            return errorResponse(new AppError(
+                ErrorCode.NO_RESULTS,
+                'None of the places fit between your start and end times. Please try a longer or different window.'
+            ));
+        }
+
+        const response: GenerateItineraryResponse = {
+            success: true,
+            itinerary,
+        };
+
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error('Error planning itinerary:', error);
+
+        // Malformed JSON bodies end up here
+        if (error instanceof SyntaxError) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, 'Invalid request body. Please send JSON.'));
+        }
+
+        return errorResponse(toAppError(error, 'Failed to plan your itinerary. Please try again later.'));
+    }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { generateVerifiedLocations } from '@/app/lib/pipeline';
+import { DEFAULT_LOCATION_COUNT, MAX_LOCATION_COUNT, MIN_LOCATION_COUNT } from '@/app/lib/openai';
+import { googleMapsClient } from '@/app/lib/google-maps';
+import { BUDGETS, isBudget } from '@/app/lib/budget';
+import { resolveVisitWindow } from '@/app/lib/opening-hours';
+import { isPersona, isPersonaList, MAX_GROUP_SIZE, mergePersonas, MIN_GROUP_SIZE } from '@/app/lib/group';
+import { isPlaceFeedbackList, MAX_FEEDBACK_PLACES } from '@/app/lib/feedback';
+import { AppError, errorResponse, toAppError } from '@/app/lib/errors';
+import { GenerateLocationsResponse, PipelineCacheReport, RefineLocationsRequest } from '@/app/types/api';
+import { ErrorCode } from '@/app/types/errors';
+
+export async function POST(request: NextRequest) {
+    try {
+        const body: RefineLocationsRequest = await request.json();
+        const { group, location, feedback, count = DEFAULT_LOCATION_COUNT, exclude = [], budget, visit, hideClosed, refresh } = body;
+
+        // Validate input
+        if (group !== undefined && (!isPersonaList(group) || group.length < MIN_GROUP_SIZE || group.length > MAX_GROUP_SIZE)) {
+            return errorResponse(new AppError(
+                ErrorCode.VALIDATION,
+                `Invalid group. Please provide between ${MIN_GROUP_SIZE} and ${MAX_GROUP_SIZE} personas.`
+            ));
+        }
+
+        const persona = group ? mergePersonas(group) : body.persona;
+        if (!isPersona(persona)) {
+            return errorResponse(new AppError(
+                ErrorCode.VALIDATION,
+                'Invalid request. Please provide a persona with a name, traits and interests.'
+            ));
+        }
+
+        if (!isPlaceFeedbackList(feedback) || feedback.length === 0) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, 'Invalid feedback. Please like or dislike at least one place.'));
+        }
+
+        if (feedback.length > MAX_FEEDBACK_PLACES) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, `Too much feedback. Please rate at most ${MAX_FEEDBACK_PLACES} places.`));
+        }
+
+        if (!Number.isInteger(count) || count < MIN_LOCATION_COUNT || count > MAX_LOCATION_COUNT) {
+            return errorResponse(new AppError(
+                ErrorCode.VALIDATION,
+                `Invalid count. Please request between ${MIN_LOCATION_COUNT} and ${MAX_LOCATION_COUNT} locations.`
+            ));
+        }
+
+        if (!Array.isArray(exclude) || exclude.some(name => typeof name !== 'string')) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, 'Invalid exclude list. Please provide an array of place names.'));
+        }
+
+        if (budget !== undefined && !isBudget(budget)) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, `Invalid budget. Please choose one of: ${BUDGETS.join(', ')}.`));
+        }
+
+        const visitWindow = visit ? resolveVisitWindow(visit) : undefined;
+        if (visitWindow && 'error' in visitWindow) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, visitWindow.error));
+        }
+
+        let city;
+        try {
+            city = await googleMapsClient().resolveCity(location || '');
+        } catch (geocodeError) {
+            console.error('City resolution error:', geocodeError);
+            return errorResponse(toAppError(
+                geocodeError,
+                `Could not find "${location}". Please enter a city name such as "Toronto, ON, Canada".`
+            ));
+        }
+
+        // Rated places never come back: liked ones are already kept, disliked ones are unwanted
+        const cache = { refresh: refresh === true, report: {} as PipelineCacheReport };
+        const refinedLocations = await generateVerifiedLocations(
+            persona,
+            city,
+            {
+                count,
+                exclude: [...exclude, ...feedback.map(item => item.name)],
+                budget,
+                group,
+                feedback,
+                visit: visitWindow,
+                hideClosed: hideClosed === true,
+            },
+            undefined,
+            cache
+        );
+
+        if (refinedLocations.length === 0) {
+            return errorResponse(new AppError(
+                ErrorCode.NO_RESULTS,
+                'No new places found for your feedback. Please try rating different places.'
+            ));
+        }
+
+        const response: GenerateLocationsResponse = {
+            success: true,
+            locations: refinedLocations,
+            city,
+            cache: cache.report,
+        };
+
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error('Error refining locations:', error);
+
+        // Malformed JSON bodies end up here
+        if (error instanceof SyntaxError) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, 'Invalid request body. Please send JSON.'));
+        }
+
+        return errorResponse(toAppError(error, 'Failed to refine your recommendations. Please try again later.'));
+    }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { generateVerifiedLocations } from '@/app/lib/pipeline';
+import { googleMapsClient } from '@/app/lib/google-maps';
+import { BUDGETS, isBudget } from '@/app/lib/budget';
+import { resolveVisitWindow } from '@/app/lib/opening-hours';
+import { isPersona, isPersonaList, MAX_GROUP_SIZE, mergePersonas, MIN_GROUP_SIZE } from '@/app/lib/group';
+import { AppError, errorResponse, toAppError } from '@/app/lib/errors';
+import { PipelineCacheReport, ReplaceLocationRequest, ReplaceLocationResponse } from '@/app/types/api';
+import { ErrorCode } from '@/app/types/errors';
+
+// Most places a request can list as currently shown
+const MAX_CURRENT_PLACES = 100;
+
+// Whether a request body holds a list of places with names and addresses
+const isPlaceList = (value: unknown): value is ReplaceLocationRequest['current'] =>
+    Array.isArray(value) && value.every(place => typeof place?.name === 'string' && typeof place.address === 'string');
+
+const normalize = (text: string) => text.toLowerCase().trim();
+
+export async function POST(request: NextRequest) {
+    try {
+        const body: ReplaceLocationRequest = await request.json();
+        const { group, location, replace, current, sameCategory, budget, visit, hideClosed, refresh } = body;
+
+        // Validate input
+        if (group !== undefined && (!isPersonaList(group) || group.length < MIN_GROUP_SIZE || group.length > MAX_GROUP_SIZE)) {
+            return errorResponse(new AppError(
+                ErrorCode.VALIDATION,
+                `Invalid group. Please provide between ${MIN_GROUP_SIZE} and ${MAX_GROUP_SIZE} personas.`
+            ));
+        }
+
+        const persona = group ? mergePersonas(group) : body.persona;
+        if (!isPersona(persona)) {
+            return errorResponse(new AppError(
+                ErrorCode.VALIDATION,
+                'Invalid request. Please provide a persona with a name, traits and interests.'
+            ));
+        }
+
+        if (!isPlaceList([replace]) || typeof replace.category !== 'string') {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, 'Invalid request. Please provide the place to replace.'));
+        }
+
+        if (!isPlaceList(current) || current.length > MAX_CURRENT_PLACES) {
+            return errorResponse(new AppError(
+                ErrorCode.VALIDATION,
+                `Invalid current places. Please list at most ${MAX_CURRENT_PLACES} places with their names and addresses.`
+            ));
+        }
+
+        if (budget !== undefined && !isBudget(budget)) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, `Invalid budget. Please choose one of: ${BUDGETS.join(', ')}.`));
+        }
+
+        const visitWindow = visit ? resolveVisitWindow(visit) : undefined;
+        if (visitWindow && 'error' in visitWindow) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, visitWindow.error));
+        }
+
+        let city;
+        try {
+            city = await googleMapsClient().resolveCity(location || '');
+        } catch (geocodeError) {
+            console.error('City resolution error:', geocodeError);
+            return errorResponse(toAppError(
+                geocodeError,
+                `Could not find "${location}". Please enter a city name such as "Toronto, ON, Canada".`
+            ));
+        }
+
+        // The replaced place is excluded too, even if the client left it out of the current list
+        const shown = [...current, replace];
+        const cache = { refresh: refresh === true, report: {} as PipelineCacheReport };
+        const candidates = await generateVerifiedLocations(
+            persona,
+            city,
+            {
+                count: 1,
+                exclude: shown.map(place => place.name),
+                excludeAddresses: shown.map(place => place.address).filter(Boolean),
+                category: sameCategory ? replace.category : undefined,
+                budget,
+                group,
+                visit: visitWindow,
+                hideClosed: hideClosed === true,
+            },
+            undefined,
+            cache
+        );
+
+        // Verification can resolve a candidate to a place that is already shown
+        const shownNames = new Set(shown.map(place => normalize(place.name)));
+        const shownAddresses = new Set(shown.map(place => normalize(place.address)).filter(Boolean));
+        const alternative = candidates.find(candidate =>
+            !shownNames.has(normalize(candidate.name)) && !shownAddresses.has(normalize(candidate.address))
+        );
+
+        if (!alternative) {
+            return errorResponse(new AppError(
+                ErrorCode.NO_RESULTS,
+                sameCategory
+                    ? `No other ${replace.category} found. Please try again without keeping the category.`
+                    : 'No alternative found. Please try again later.'
+            ));
+        }
+
+        const response: ReplaceLocationResponse = {
+            success: true,
+            location: alternative,
+        };
+
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error('Error replacing location:', error);
+
+        // Malformed JSON bodies end up here
+        if (error instanceof SyntaxError) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, 'Invalid request body. Please send JSON.'));
+        }
+
+        return errorResponse(toAppError(error, 'Failed to find an alternative place. Please try again later.'));
+    }
+}
@@ -1,54 +1,103 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { openaiClient } from '@/app/lib/openai';
-import { GenerateLocationsRequest, GenerateLocationsResponse } from '@/app/types/api';
+import { generateVerifiedLocations, noResultsMessage } from '@/app/lib/pipeline';
+import { DEFAULT_LOCATION_COUNT, MAX_LOCATION_COUNT, MIN_LOCATION_COUNT } from '@/app/lib/openai';
+import { googleMapsClient } from '@/app/lib/google-maps';
+import { resolveVisitWindow } from '@/app/lib/opening-hours';
+import { BUDGETS, isBudget } from '@/app/lib/budget';
+import { isPersona, isPersonaList, MAX_GROUP_SIZE, mergePersonas, MIN_GROUP_SIZE } from '@/app/lib/group';
+import { AppError, errorResponse, toAppError } from '@/app/lib/errors';
+import { GenerateLocationsRequest, GenerateLocationsResponse, PipelineCacheReport } from '@/app/types/api';
+import { ErrorCode } from '@/app/types/errors';
 
 export async function POST(request: NextRequest) {
     try {
         // Parse the request body
         const body: GenerateLocationsRequest = await request.json();
-        const { persona } = body;
+        const { group, location, count = DEFAULT_LOCATION_COUNT, exclude = [], budget, visit, hideClosed, refresh } = body;
 
         // Validate input
-        if (!persona) {
-            return NextResponse.json(
-                {
-                    success: false,
-                    error: 'Invalid request. Please provide a persona.',
-                },
-                { status: 400 }
-            );
+        if (group !== undefined && (!isPersonaList(group) || group.length < MIN_GROUP_SIZE || group.length > MAX_GROUP_SIZE)) {
+            return errorResponse(new AppError(
+                ErrorCode.VALIDATION,
+                `Invalid group. Please provide between ${MIN_GROUP_SIZE} and ${MAX_GROUP_SIZE} personas.`
+            ));
         }
 
-        // Generate location recommendations using OpenAI instead of Google Maps
-        const recommendedLocations = await openaiClient().generateLocationRecommendations(persona);
+        // A group is recommended for as one merged persona, then scored member by member
+        const persona = group ? mergePersonas(group) : body.persona;
+        if (!isPersona(persona)) {
+            return errorResponse(new AppError(
+                ErrorCode.VALIDATION,
+                'Invalid request. Please provide a persona with a name, traits and interests.'
+            ));
+        }
+
+        if (!Number.isInteger(count) || count < MIN_LOCATION_COUNT || count > MAX_LOCATION_COUNT) {
+            return errorResponse(new AppError(
+                ErrorCode.VALIDATION,
+                `Invalid count. Please request between ${MIN_LOCATION_COUNT} and ${MAX_LOCATION_COUNT} locations.`
+            ));
+        }
+
+        if (!Array.isArray(exclude) || exclude.some(name => typeof name !== 'string')) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, 'Invalid exclude list. Please provide an array of place names.'));
+        }
+
+        if (budget !== undefined && !isBudget(budget)) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, `Invalid budget. Please choose one of: ${BUDGETS.join(', ')}.`));
+        }
+
+        const visitWindow = visit ? resolveVisitWindow(visit) : undefined;
+        if (visitWindow && 'error' in visitWindow) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, visitWindow.error));
+        }
+
+        // Resolve the requested city so prompts, fallbacks and the map share one center
+        let city;
+        try {
+            city = await googleMapsClient().resolveCity(location || '');
+        } catch (geocodeError) {
+            console.error('City resolution error:', geocodeError);
+            return errorResponse(toAppError(
+                geocodeError,
+                `Could not find "${location}". Please enter a city name such as "Toronto, ON, Canada".`
+            ));
+        }
+
+        // Generate location recommendations using OpenAI, then verify them against Google Places,
+        // flagging (or dropping) places that are closed during the planned visit
+        const cache = { refresh: refresh === true, report: {} as PipelineCacheReport };
+        const filters = { budget, visit: visitWindow, hideClosed: hideClosed === true };
+        const recommendedLocations = await generateVerifiedLocations(
+            persona,
+            city,
+            { count, exclude, group, ...filters },
+            undefined,
+            cache
+        );
 
         // Handle case where no locations were found
         if (recommendedLocations.length === 0) {
-            return NextResponse.json(
-                {
-                    success: false,
-                    error: 'No suitable locations found. Please try a different X profile.',
-                },
-                { status: 404 }
-            );
+            return errorResponse(new AppError(ErrorCode.NO_RESULTS, noResultsMessage(filters)));
         }
 
         // Construct the response
         const response: GenerateLocationsResponse = {
             success: true,
             locations: recommendedLocations,
+            city,
+            cache: cache.report,
         };
 
         return NextResponse.json(response);
     } catch (error) {
         console.error('Error generating locations:', error);
 
-        return NextResponse.json(
-            {
-                success: false,
-                error: 'Failed to find recommended locations. Please try again later.',
-            },
-            { status: 500 }
-        );
+        // Malformed JSON bodies end up here
+        if (error instanceof SyntaxError) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, 'Invalid request body. Please send JSON.'));
+        }
+
+        return errorResponse(toAppError(error, 'Failed to find recommended locations. Please try again later.'));
     }
 }
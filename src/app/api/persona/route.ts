@@ -1,100 +1,162 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { exaClient } from '@/app/lib/exa';
-import { openaiClient } from '@/app/lib/openai';
-import { GeneratePersonaRequest, GeneratePersonaResponse } from '@/app/types/api';
+import {
+    fetchProfile,
+    GeneratedPersona,
+    generateManualPersona,
+    generateMemberPersona,
+    generatePersonaFromProfile,
+    resolveProfileSource,
+} from '@/app/lib/pipeline';
+import { MAX_GROUP_SIZE, MIN_GROUP_SIZE } from '@/app/lib/group';
+import { validateManualPersonaInput } from '@/app/lib/manual-persona';
+import { AppError, errorResponse, toAppError } from '@/app/lib/errors';
+import { GeneratePersonaRequest, GeneratePersonaResponse, GroupMemberFailure, GroupMemberRequest, PipelineCacheReport } from '@/app/types/api';
+import { ManualPersonaInput } from '@/app/types/persona';
+import { ErrorCode } from '@/app/types/errors';
 
 export async function POST(request: NextRequest) {
     try {
         // Parse the request body
         const body: GeneratePersonaRequest = await request.json();
-        const { xHandle } = body;
-
-        // Validate input
-        if (!xHandle) {
-            return NextResponse.json(
-                {
-                    success: false,
-                    error: 'Invalid X handle. Please provide a valid X username.',
-                },
-                { status: 400 }
-            );
+        const { source: sourceType, identifier, xHandle, members, manual, refresh } = body;
+
+        if (members !== undefined) {
+            return generateGroupPersonas(members, refresh === true);
         }
 
-        // Clean handle (remove @ if present)
-        const cleanHandle = xHandle.replace(/^@/, '');
+        if (manual !== undefined) {
+            return generatePersonaFromInput(manual, refresh === true);
+        }
 
-        try {
-            // Step 1: Search for X profile data using Exa
-            const searchResult = await exaClient().searchXProfile(cleanHandle);
+        // Validate input (xHandle is accepted for older clients)
+        const resolved = resolveProfileSource(sourceType, identifier ?? xHandle);
+        if ('error' in resolved) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, resolved.error));
+        }
 
-            // Step 2: Extract relevant information - pass the requested handle for better accuracy
-            const profileInfo = exaClient().extractProfileInfo(searchResult, cleanHandle);
+        const { source } = resolved;
+        const cache = { refresh: refresh === true, report: {} as PipelineCacheReport };
+
+        try {
+            // Steps 1-2: Fetch posts and bio from the profile source
+            const profileInfo = await fetchProfile(source, resolved.identifier, undefined, cache);
 
             // Handle case where no profile data was found
-            if (!profileInfo || !profileInfo.tweets || profileInfo.tweets.length === 0) {
-                return NextResponse.json(
-                    {
-                        success: false,
-                        error: 'Could not find X profile data. Please check the handle and try again.',
-                    },
-                    { status: 404 }
-                );
+            if (!profileInfo) {
+                return errorResponse(new AppError(
+                    ErrorCode.PROFILE_NOT_FOUND,
+                    `Could not find ${source.label} profile data. Please check the handle and try again.`
+                ));
             }
 
             try {
                 // Step 3: Generate persona using OpenAI
-                const personaData = await openaiClient().generatePersona({
-                    recentTweets: profileInfo.tweets,
-                    bio: profileInfo.bio,
-                    handle: cleanHandle, // Pass the handle to OpenAI
-                });
-
-                // Use the requested handle and extracted name
-                const finalPersona = {
-                    ...personaData,
-                    // Override the handle with the requested handle
-                    handle: cleanHandle,
-                    // If OpenAI returned "Unknown User", use the name from profileInfo
-                    name: personaData.name === 'Unknown User' ? profileInfo.name : personaData.name,
-                    profileImageUrl: profileInfo.profileImageUrl,
-                };
+                const finalPersona = await generatePersonaFromProfile(profileInfo, undefined, cache);
 
                 // Construct the response
                 const response: GeneratePersonaResponse = {
                     success: true,
                     persona: finalPersona,
+                    cache: cache.report,
                 };
 
                 return NextResponse.json(response);
             } catch (openaiError) {
                 console.error('OpenAI error:', openaiError);
-                return NextResponse.json(
-                    {
-                        success: false,
-                        error: 'Failed to generate persona from the X data. Please try again later.',
-                    },
-                    { status: 500 }
-                );
+                return errorResponse(toAppError(
+                    openaiError,
+                    `Failed to generate persona from the ${source.label} data. Please try again later.`
+                ));
             }
-        } catch (exaError) {
-            console.error('Exa error:', exaError);
-            return NextResponse.json(
-                {
-                    success: false,
-                    error: 'Failed to fetch X profile data. Please check the handle and try again.',
-                },
-                { status: 500 }
-            );
+        } catch (sourceError) {
+            console.error(`${source.label} profile error:`, sourceError);
+            return errorResponse(toAppError(
+                sourceError,
+                `Failed to fetch ${source.label} profile data. Please check the handle and try again.`
+            ));
         }
     } catch (error) {
         console.error('General error generating persona:', error);
 
-        return NextResponse.json(
-            {
-                success: false,
-                error: 'Failed to process your request. Please try again later.',
-            },
-            { status: 500 }
-        );
+        // Malformed JSON bodies end up here
+        if (error instanceof SyntaxError) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, 'Invalid request body. Please send JSON.'));
+        }
+
+        return errorResponse(toAppError(error, 'Failed to process your request. Please try again later.'));
+    }
+}
+
+/**
+ * Generate a persona from pasted text or questionnaire answers, skipping profile sources entirely
+ */
+async function generatePersonaFromInput(manual: ManualPersonaInput, refresh: boolean) {
+    const invalid = validateManualPersonaInput(manual);
+    if (invalid) {
+        return errorResponse(new AppError(ErrorCode.VALIDATION, invalid));
     }
+
+    const cache = { refresh, report: {} as PipelineCacheReport };
+
+    try {
+        const response: GeneratePersonaResponse = {
+            success: true,
+            persona: await generateManualPersona(manual, cache),
+            cache: cache.report,
+        };
+
+        return NextResponse.json(response);
+    } catch (openaiError) {
+        console.error('OpenAI error:', openaiError);
+        return errorResponse(toAppError(openaiError, 'Failed to generate a persona from your answers. Please try again later.'));
+    }
+}
+
+/**
+ * Generate every member's persona in parallel. Members whose profile cannot be read are
+ * reported and left out, as long as at least one persona could be generated.
+ */
+async function generateGroupPersonas(members: GroupMemberRequest[], refresh: boolean) {
+    if (!Array.isArray(members) || members.length < MIN_GROUP_SIZE || members.length > MAX_GROUP_SIZE) {
+        return errorResponse(new AppError(
+            ErrorCode.VALIDATION,
+            `Invalid group. Please enter between ${MIN_GROUP_SIZE} and ${MAX_GROUP_SIZE} handles.`
+        ));
+    }
+
+    if (members.some(member => typeof member?.identifier !== 'string')) {
+        return errorResponse(new AppError(ErrorCode.VALIDATION, 'Invalid group. Every member needs a handle.'));
+    }
+
+    const results = await Promise.allSettled(
+        members.map(member => generateMemberPersona(member.source, member.identifier, { refresh }))
+    );
+
+    const personas: GeneratedPersona[] = [];
+    const failed: GroupMemberFailure[] = [];
+    results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+            personas.push(result.value);
+        } else {
+            console.error(`Group member ${members[index].identifier} error:`, result.reason);
+            failed.push({
+                identifier: members[index].identifier,
+                error: toAppError(result.reason, 'Failed to generate a persona for this handle.').message,
+            });
+        }
+    });
+
+    // Nobody to recommend for: report the first member's error
+    if (personas.length === 0) {
+        const firstFailure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+        return errorResponse(toAppError(firstFailure?.reason, 'Failed to generate personas for your group. Please try again later.'));
+    }
+
+    const response: GeneratePersonaResponse = {
+        success: true,
+        personas,
+        failed,
+    };
+
+    return NextResponse.json(response);
 }
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MAX_ITINERARY_STOPS } from '@/app/lib/itinerary';
+import { isRoutableLocationList, optimizeRoute } from '@/app/lib/routing';
+import { isCoordinates } from '@/app/lib/geo';
+import { AppError, errorResponse, toAppError } from '@/app/lib/errors';
+import { OptimizeRouteRequest, OptimizeRouteResponse } from '@/app/types/api';
+import { ErrorCode } from '@/app/types/errors';
+
+const METRICS = ['distance', 'time'];
+
+export async function POST(request: NextRequest) {
+    try {
+        const body: OptimizeRouteRequest = await request.json();
+        const { locations, start, end, roundTrip = false, metric = 'distance' } = body;
+
+        // Validate input
+        if (!isRoutableLocationList(locations) || locations.length === 0) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, 'Invalid request. Please provide the locations to route.'));
+        }
+
+        if (locations.length > MAX_ITINERARY_STOPS) {
+            return errorResponse(new AppError(
+                ErrorCode.VALIDATION,
+                `Too many locations. Please route at most ${MAX_ITINERARY_STOPS} places.`
+            ));
+        }
+
+        if ((start !== undefined && !isCoordinates(start)) || (end !== undefined && !isCoordinates(end))) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, 'Invalid start or end point. Please provide { lat, lng } coordinates.'));
+        }
+
+        if (roundTrip && end !== undefined) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, 'Invalid route. A round trip ends where it starts, so it cannot have an end point.'));
+        }
+
+        if (!METRICS.includes(metric)) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, `Invalid metric. Please choose one of: ${METRICS.join(', ')}.`));
+        }
+
+        const response: OptimizeRouteResponse = {
+            success: true,
+            route: optimizeRoute(locations, { start, end, roundTrip: roundTrip === true, metric }),
+        };
+
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error('Error optimizing route:', error);
+
+        // Malformed JSON bodies end up here
+        if (error instanceof SyntaxError) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, 'Invalid request body. Please send JSON.'));
+        }
+
+        return errorResponse(toAppError(error, 'Failed to plan a route. Please try again later.'));
+    }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { saveSharedResult, validateSharedResult } from '@/app/lib/share';
+import { AppError, errorResponse, toAppError } from '@/app/lib/errors';
+import { ShareRequest, ShareResponse } from '@/app/types/api';
+import { ErrorCode } from '@/app/types/errors';
+
+export async function POST(request: NextRequest) {
+    try {
+        const body: ShareRequest = await request.json();
+
+        // Validate input
+        const invalid = validateSharedResult(body ?? {});
+        if (invalid) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, invalid));
+        }
+
+        const { persona, group, locations, city, centerCoordinates, radiusKm } = body;
+        const result = await saveSharedResult({ persona, group, locations, city, centerCoordinates, radiusKm });
+
+        const response: ShareResponse = {
+            success: true,
+            id: result.id,
+            path: `/r/${result.id}`,
+        };
+
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error('Error sharing results:', error);
+
+        // Malformed JSON bodies end up here
+        if (error instanceof SyntaxError) {
+            return errorResponse(new AppError(ErrorCode.VALIDATION, 'Invalid request body. Please send JSON.'));
+        }
+
+        return errorResponse(toAppError(error, 'Failed to create a share link. Please try again later.'));
+    }
+}
@@ -0,0 +1,172 @@
+import { NextRequest } from 'next/server';
+import {
+    fetchProfile,
+    generatePersonaFromProfile,
+    generateVerifiedLocations,
+    noResultsMessage,
+    resolveProfileSource,
+} from '@/app/lib/pipeline';
+import { googleMapsClient } from '@/app/lib/google-maps';
+import { BUDGETS, isBudget } from '@/app/lib/budget';
+import { resolveVisitWindow } from '@/app/lib/opening-hours';
+import { AppError, toAppError } from '@/app/lib/errors';
+import { PipelineCacheReport, PipelineEvent, PipelineStage } from '@/app/types/api';
+import { ErrorCode } from '@/app/types/errors';
+
+// Streams must never be cached or statically rendered
+export const dynamic = 'force-dynamic';
+
+/**
+ * Run the full persona + locations pipeline, streaming stage events as Server-Sent Events.
+ * Query params: source (x, bluesky, mastodon, github; defaults to x), identifier (or legacy xHandle),
+ * location (city to recommend in), budget (cheap, moderate or splurge; optional),
+ * visitStart and visitEnd (local "YYYY-MM-DDTHH:mm"; optional, flags places closed during the visit),
+ * hideClosed (true to drop those places instead), refresh (true to bypass cached results)
+ */
+export async function GET(request: NextRequest) {
+    const params = request.nextUrl.searchParams;
+    const identifier = params.get('identifier') ?? params.get('xHandle') ?? '';
+    const location = params.get('location') || '';
+    const budget = params.get('budget') || undefined;
+    const visitStart = params.get('visitStart');
+    const visitWindow = visitStart ? resolveVisitWindow({ start: visitStart, end: params.get('visitEnd') || undefined }) : undefined;
+    const hideClosed = params.get('hideClosed') === 'true';
+    const resolved = resolveProfileSource(params.get('source') || undefined, identifier);
+    const cache = { refresh: params.get('refresh') === 'true', report: {} as PipelineCacheReport };
+
+    const encoder = new TextEncoder();
+    let closed = false;
+
+    const stream = new ReadableStream({
+        async start(controller) {
+            // Enqueueing or closing after the client has gone throws, so both are no-ops once closed
+            const write = (chunk: string) => {
+                if (closed) return;
+                try {
+                    controller.enqueue(encoder.encode(chunk));
+                } catch {
+                    closed = true;
+                }
+            };
+
+            const close = () => {
+                if (closed) return;
+                closed = true;
+                try {
+                    controller.close();
+                } catch {
+                    // Already closed by the runtime
+                }
+            };
+
+            const send = (event: PipelineEvent) => {
+                write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+            };
+
+            const fail = (stage: PipelineStage, error: AppError) => {
+                send({ type: 'error', stage, error: error.message, ...error.toDetails() });
+                close();
+            };
+
+            // Stop doing work once the browser disconnects
+            request.signal.addEventListener('abort', () => {
+                closed = true;
+            });
+
+            if ('error' in resolved) {
+                fail('search', new AppError(ErrorCode.VALIDATION, resolved.error));
+                return;
+            }
+
+            if (budget !== undefined && !isBudget(budget)) {
+                fail('locations', new AppError(ErrorCode.VALIDATION, `Invalid budget. Please choose one of: ${BUDGETS.join(', ')}.`));
+                return;
+            }
+
+            if (visitWindow && 'error' in visitWindow) {
+                fail('locations', new AppError(ErrorCode.VALIDATION, visitWindow.error));
+                return;
+            }
+
+            const { source } = resolved;
+            const filters = { budget, visit: visitWindow, hideClosed };
+
+            // Resolve the city first so a bad location fails before any paid API calls
+            let city;
+            try {
+                city = await googleMapsClient().resolveCity(location);
+                send({ type: 'city', city });
+            } catch (geocodeError) {
+                console.error('City resolution error:', geocodeError);
+                fail('locations', toAppError(
+                    geocodeError,
+                    `Could not find "${location}". Please enter a city name such as "Toronto, ON, Canada".`
+                ));
+                return;
+            }
+
+            let profileInfo;
+            try {
+                profileInfo = await fetchProfile(source, resolved.identifier, send, cache);
+            } catch (sourceError) {
+                console.error(`${source.label} profile error:`, sourceError);
+                fail('search', toAppError(
+                    sourceError,
+                    `Failed to fetch ${source.label} profile data. Please check the handle and try again.`
+                ));
+                return;
+            }
+
+            if (!profileInfo) {
+                fail('profile', new AppError(
+                    ErrorCode.PROFILE_NOT_FOUND,
+                    `Could not find ${source.label} profile data. Please check the handle and try again.`
+                ));
+                return;
+            }
+
+            let persona;
+            try {
+                persona = await generatePersonaFromProfile(profileInfo, send, cache);
+            } catch (openaiError) {
+                console.error('OpenAI error:', openaiError);
+                fail('persona', toAppError(
+                    openaiError,
+                    `Failed to generate persona from the ${source.label} data. Please try again later.`
+                ));
+                return;
+            }
+
+            if (closed) return;
+
+            try {
+                const locations = await generateVerifiedLocations(persona, city, filters, send, cache);
+
+                if (locations.length === 0) {
+                    fail('locations', new AppError(ErrorCode.NO_RESULTS, noResultsMessage(filters)));
+                    return;
+                }
+
+                send({ type: 'done', city, total: locations.length, cache: cache.report });
+            } catch (error) {
+                console.error('Error generating locations:', error);
+                fail('locations', toAppError(error, 'Failed to find recommended locations. Please try again later.'));
+                return;
+            }
+
+            close();
+        },
+        cancel() {
+            // The client went away; stop writing and skip remaining work
+            closed = true;
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+        },
+    });
+}
@@ -0,0 +1,114 @@
+import { Budget, Location, LocationCategory } from '../types/location';
+
+/**
+ * Budgets and prices. Prices use Google's price_level scale: 0 (free) to 4 (very expensive).
+ * Places without a known price get a typical level for their category, so every
+ * recommendation can be filtered, ranked and totalled by price.
+ */
+
+export const BUDGETS: Budget[] = ['cheap', 'moderate', 'splurge'];
+
+export const BUDGET_LABELS: Record<Budget, string> = {
+    cheap: 'Cheap',
+    moderate: 'Moderate',
+    splurge: 'Splurge',
+};
+
+export const MIN_PRICE_LEVEL = 0;
+export const MAX_PRICE_LEVEL = 4;
+
+// Price levels that suit each budget
+export const BUDGET_PRICE_LEVELS: Record<Budget, { min: number; max: number }> = {
+    cheap: { min: 0, max: 1 },
+    moderate: { min: 1, max: 2 },
+    splurge: { min: 3, max: 4 },
+};
+
+// Typical price level of each category, for places Google has no price for
+const CATEGORY_PRICE_LEVELS: Record<LocationCategory, number> = {
+    [LocationCategory.PARK]: 0,
+    [LocationCategory.OUTDOOR]: 0,
+    [LocationCategory.EDUCATION]: 0,
+    [LocationCategory.ATTRACTION]: 1,
+    [LocationCategory.MUSEUM]: 1,
+    [LocationCategory.ART]: 1,
+    [LocationCategory.CAFE]: 1,
+    [LocationCategory.TECH]: 1,
+    [LocationCategory.WORK]: 1,
+    [LocationCategory.RESTAURANT]: 2,
+    [LocationCategory.BAR]: 2,
+    [LocationCategory.SHOPPING]: 2,
+    [LocationCategory.SHOP]: 2,
+    [LocationCategory.ENTERTAINMENT]: 2,
+    [LocationCategory.MUSIC]: 2,
+    [LocationCategory.SPORTS]: 2,
+    [LocationCategory.FITNESS]: 2,
+};
+const DEFAULT_PRICE_LEVEL = 2;
+
+// Rough spend per person at each price level, in US dollars
+const SPEND_PER_PERSON: Array<[number, number]> = [[0, 0], [5, 20], [20, 45], [45, 90], [90, 180]];
+
+// Relevance points lost per price level outside the budget, and the most that can be lost
+const BUDGET_PENALTY_PER_LEVEL = 15;
+const MAX_BUDGET_PENALTY = 30;
+
+export const isBudget = (value: unknown): value is Budget => BUDGETS.includes(value as Budget);
+
+/**
+ * Typical price level of a place category
+ * @param category The place's category
+ * @returns A price level from 0 to 4
+ */
+export function estimatePriceLevel(category: string): number {
+    return CATEGORY_PRICE_LEVELS[category.toLowerCase() as LocationCategory] ?? DEFAULT_PRICE_LEVEL;
+}
+
+/**
+ * Fill in a missing price level from the place's category
+ */
+export function withPriceLevel(location: Location): Location {
+    return location.priceLevel === undefined
+        ? { ...location, priceLevel: estimatePriceLevel(location.category) }
+        : location;
+}
+
+/**
+ * Relevance points lost for a price outside the budget (cheaper places only lose points
+ * on a splurge, pricier ones are dropped by fitsBudget)
+ * @param priceLevel The place's price level
+ * @param budget The requested budget
+ * @returns Zero or a negative number of points
+ */
+export function budgetPenalty(priceLevel: number, budget: Budget): number {
+    const { min, max } = BUDGET_PRICE_LEVELS[budget];
+    const levelsOff = priceLevel < min ? min - priceLevel : Math.max(0, priceLevel - max);
+    return levelsOff === 0 ? 0 : -Math.min(MAX_BUDGET_PENALTY, levelsOff * BUDGET_PENALTY_PER_LEVEL);
+}
+
+/**
+ * Whether a place is affordable on a budget. Places without a price level are kept.
+ */
+export function fitsBudget(location: Pick<Location, 'priceLevel'>, budget: Budget): boolean {
+    return location.priceLevel === undefined || location.priceLevel <= BUDGET_PRICE_LEVELS[budget].max;
+}
+
+/**
+ * Display a price level, e.g. "Free" or "$$"
+ */
+export function formatPriceLevel(priceLevel: number): string {
+    return priceLevel === 0 ? 'Free' : '$'.repeat(priceLevel);
+}
+
+/**
+ * Estimate what visiting every place would cost one person
+ * @param locations The itinerary
+ * @returns Low and high estimates in US dollars
+ */
+export function estimateSpend(locations: Pick<Location, 'priceLevel' | 'category'>[]): { min: number; max: number } {
+    return locations.reduce((total, location) => {
+        const level = Math.min(MAX_PRICE_LEVEL, Math.max(MIN_PRICE_LEVEL, location.priceLevel ?? estimatePriceLevel(location.category)));
+        const [min, max] = SPEND_PER_PERSON[level];
+        return { min: total.min + min, max: total.max + max };
+    }, { min: 0, max: 0 });
+}
@@ -0,0 +1,263 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CacheInfo } from '../types/api';
+
+/**
+ * Server-side cache for expensive pipeline steps (profile search, persona and location generation)
+ */
+
+export interface CacheEntry<T = unknown> {
+    value: T;
+    storedAt: number; // Epoch ms
+    expiresAt: number; // Epoch ms
+}
+
+/**
+ * Storage behind the cache. Backends only store entries; expiry is checked by the cache.
+ */
+export interface CacheBackend {
+    get(key: string): Promise<CacheEntry | undefined>;
+    set(key: string, entry: CacheEntry): Promise<void>;
+    delete(key: string): Promise<void>;
+}
+
+/**
+ * In-memory least-recently-used backend (the default)
+ */
+export class MemoryLRUBackend implements CacheBackend {
+    private readonly entries = new Map<string, CacheEntry>();
+
+    constructor(private readonly maxEntries: number = 500) {}
+
+    async get(key: string): Promise<CacheEntry | undefined> {
+        const entry = this.entries.get(key);
+        if (entry) {
+            // Re-insert to mark as most recently used
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+        }
+        return entry;
+    }
+
+    async set(key: string, entry: CacheEntry): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+
+        // Evict least recently used entries (first in insertion order)
+        while (this.entries.size > this.maxEntries) {
+            const oldestKey = this.entries.keys().next().value;
+            if (oldestKey === undefined) break;
+            this.entries.delete(oldestKey);
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+}
+
+/**
+ * File-system backend: one JSON file per key, survives server restarts
+ */
+export class FileBackend implements CacheBackend {
+    constructor(private readonly directory: string) {}
+
+    private filePath(key: string): string {
+        return path.join(this.directory, `${hashKey(key)}.json`);
+    }
+
+    async get(key: string): Promise<CacheEntry | undefined> {
+        try {
+            return JSON.parse(await fs.readFile(this.filePath(key), 'utf8')) as CacheEntry;
+        } catch {
+            return undefined;
+        }
+    }
+
+    async set(key: string, entry: CacheEntry): Promise<void> {
+        await fs.mkdir(this.directory, { recursive: true });
+        await fs.writeFile(this.filePath(key), JSON.stringify(entry), 'utf8');
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.rm(this.filePath(key), { force: true });
+    }
+}
+
+/**
+ * Minimal subset of a Redis client (compatible with ioredis)
+ */
+export interface RedisLikeClient {
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string, mode: 'PX', ttlMs: number): Promise<unknown>;
+    del(key: string): Promise<unknown>;
+}
+
+/**
+ * Redis-compatible backend. Entries expire in Redis as well as being checked by the cache.
+ */
+export class RedisBackend implements CacheBackend {
+    constructor(private readonly client: RedisLikeClient, private readonly prefix: string = 'bespoke:') {}
+
+    async get(key: string): Promise<CacheEntry | undefined> {
+        const raw = await this.client.get(this.prefix + key);
+        return raw ? JSON.parse(raw) as CacheEntry : undefined;
+    }
+
+    async set(key: string, entry: CacheEntry): Promise<void> {
+        const ttlMs = Math.max(1, entry.expiresAt - Date.now());
+        await this.client.set(this.prefix + key, JSON.stringify(entry), 'PX', ttlMs);
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.client.del(this.prefix + key);
+    }
+}
+
+/**
+ * Backend that stores nothing, used when caching is disabled
+ */
+export class NoopBackend implements CacheBackend {
+    async get(): Promise<CacheEntry | undefined> {
+        return undefined;
+    }
+
+    async set(): Promise<void> {}
+
+    async delete(): Promise<void> {}
+}
+
+/**
+ * Hash an arbitrary key or value into a short stable identifier
+ */
+export function hashKey(value: unknown): string {
+    const input = typeof value === 'string' ? value : stableStringify(value);
+    return createHash('sha256').update(input).digest('hex').slice(0, 32);
+}
+
+/**
+ * JSON.stringify with sorted object keys, so equal values always hash the same
+ */
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const record = value as Record<string, unknown>;
+        return `{${Object.keys(record).sort()
+            .filter(key => record[key] !== undefined)
+            .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+            .join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+export interface CacheLookupOptions {
+    refresh?: boolean; // Skip the cached value and recompute
+}
+
+export class Cache {
+    constructor(private readonly backend: CacheBackend) {}
+
+    /**
+     * Return a cached value, or compute and store it
+     * @param key Cache key
+     * @param ttlMs Time to live in milliseconds
+     * @param loader Computes the value on a miss
+     * @param options Lookup options (e.g. refresh to bypass the cache)
+     * @returns The value with cache-hit metadata
+     */
+    async getOrSet<T>(
+        key: string,
+        ttlMs: number,
+        loader: () => Promise<T>,
+        options: CacheLookupOptions = {}
+    ): Promise<{ value: T; info: CacheInfo }> {
+        const now = Date.now();
+
+        if (!options.refresh) {
+            try {
+                const entry = await this.backend.get(key);
+                if (entry && entry.expiresAt > now) {
+                    return { value: entry.value as T, info: toInfo(entry, true) };
+                }
+            } catch (error) {
+                // A broken cache should never break the request
+                console.error(`Cache read failed for ${key}:`, error);
+            }
+        }
+
+        const value = await loader();
+        const entry: CacheEntry<T> = { value, storedAt: now, expiresAt: now + ttlMs };
+
+        // Don't cache empty results (e.g. profile not found) so a retry can succeed
+        if (value !== null && value !== undefined) {
+            try {
+                await this.backend.set(key, entry);
+            } catch (error) {
+                console.error(`Cache write failed for ${key}:`, error);
+            }
+        }
+
+        return { value, info: toInfo(entry, false) };
+    }
+
+    async invalidate(key: string): Promise<void> {
+        await this.backend.delete(key);
+    }
+}
+
+const toInfo = (entry: CacheEntry, hit: boolean): CacheInfo => ({
+    hit,
+    storedAt: new Date(entry.storedAt).toISOString(),
+    expiresAt: new Date(entry.expiresAt).toISOString(),
+});
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const envMs = (name: string, fallback: number): number => {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+// Time to live for each cached pipeline step
+export const CACHE_TTL = {
+    profile: envMs('CACHE_TTL_PROFILE_MS', 6 * HOUR_MS),
+    persona: envMs('CACHE_TTL_PERSONA_MS', 24 * HOUR_MS),
+    locations: envMs('CACHE_TTL_LOCATIONS_MS', HOUR_MS),
+};
+
+/**
+ * Create the backend selected by CACHE_BACKEND (memory, file or none)
+ */
+function createBackend(): CacheBackend {
+    switch (process.env.CACHE_BACKEND || 'memory') {
+        case 'none':
+            return new NoopBackend();
+        case 'file':
+            return new FileBackend(process.env.CACHE_DIR || path.join(process.cwd(), '.cache', 'bespoke'));
+        default:
+            return new MemoryLRUBackend(Number(process.env.CACHE_MAX_ENTRIES) || 500);
+    }
+}
+
+// Export a factory function for custom backends (e.g. a RedisBackend)
+export const createCache = (backend: CacheBackend = createBackend()) => new Cache(backend);
+
+// Lazy-loaded singleton instance - only created when used
+let cacheInstance: Cache | null = null;
+export const appCache = () => {
+    if (!cacheInstance) {
+        cacheInstance = createCache();
+    }
+    return cacheInstance;
+};
+
+/**
+ * Replace the backend used by the shared cache (e.g. with a RedisBackend at startup)
+ * @param backend The backend to use from now on
+ */
+export const setCacheBackend = (backend: CacheBackend) => {
+    cacheInstance = createCache(backend);
+};
@@ -0,0 +1,172 @@
+import { Location } from '../types/location';
+import { CalendarSlot, Itinerary } from '../types/itinerary';
+import { parseLocalDateTime } from './opening-hours';
+import { isRoutableLocationList } from './routing';
+
+/**
+ * iCalendar (RFC 5545) export of a planned outing: one VEVENT per stop. Times are in UTC
+ * when the place's UTC offset is known, otherwise "floating" local times that calendar
+ * apps show as-is in whatever time zone the device is in.
+ */
+
+export const CALENDAR_MIME_TYPE = 'text/calendar';
+export const CALENDAR_EXTENSION = 'ics';
+
+const PRODUCT_ID = '-//Social Persona City Finder//Day Planner//EN';
+const UID_DOMAIN = 'social-persona-city-finder';
+
+// Content lines are folded at 75 octets
+const MAX_LINE_OCTETS = 75;
+
+// The fields of a location that end up in an event
+export type CalendarLocation = Pick<Location, 'id' | 'name' | 'address' | 'description' | 'coordinates' | 'website' | 'utcOffsetMinutes' | 'recommendationContext'>;
+
+export interface CalendarDocument {
+    name: string; // Calendar name, e.g. "Toronto day out"
+    locations: CalendarLocation[];
+    slots: CalendarSlot[]; // One event each, for the location with the same id
+    stamp?: Date; // When the file was created; defaults to now
+}
+
+// Optional fields may be missing or null, but otherwise must have the right type
+const isOptionalString = (value: unknown) => value === undefined || value === null || typeof value === 'string';
+
+/**
+ * Whether a request body holds places that can be written as events: routable, with a text
+ * address, description and website and a numeric UTC offset where present
+ */
+export function isCalendarLocationList(value: unknown): value is CalendarLocation[] {
+    return isRoutableLocationList(value) && value.every(location =>
+        isOptionalString(location.address) &&
+        isOptionalString(location.description) &&
+        isOptionalString(location.website) &&
+        (location.utcOffsetMinutes === undefined || Number.isFinite(location.utcOffsetMinutes))
+    );
+}
+
+/**
+ * Scheduled visits of a planned day
+ */
+export function itinerarySlots(itinerary: Pick<Itinerary, 'stops'>): CalendarSlot[] {
+    return itinerary.stops.map(stop => ({ locationId: stop.locationId, start: stop.arrival, end: stop.departure }));
+}
+
+/**
+ * Whether a slot has valid local times, ending after it starts
+ */
+export function isValidSlot(slot: unknown): slot is CalendarSlot {
+    if (typeof slot !== 'object' || slot === null) return false;
+    const { locationId, start, end } = slot as Record<string, unknown>;
+    if (typeof locationId !== 'string' || typeof start !== 'string' || typeof end !== 'string') return false;
+
+    const startMinutes = parseLocalDateTime(start);
+    const endMinutes = parseLocalDateTime(end);
+    return startMinutes !== undefined && endMinutes !== undefined && endMinutes > startMinutes;
+}
+
+/**
+ * Escape a TEXT property value
+ */
+export function escapeIcsText(text: string): string {
+    return text
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        // Any line break, including a lone CR, would end the content line
+        .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Fold a content line into chunks of at most 75 octets, continued with a leading space
+ */
+export function foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    const chunks: string[] = [];
+    let chunk = '';
+    let octets = 0;
+
+    // Iterate by code point so multi-byte characters are never split
+    for (const character of line) {
+        const size = encoder.encode(character).length;
+        // Continuation lines lose an octet to the leading space
+        const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (octets + size > limit) {
+            chunks.push(chunk);
+            chunk = '';
+            octets = 0;
+        }
+        chunk += character;
+        octets += size;
+    }
+    chunks.push(chunk);
+
+    return chunks.join('\r\n ');
+}
+
+// "2026-10-19T09:30" -> "20261019T093000"
+const compact = (isoDateTime: string) => `${isoDateTime.slice(0, 16).replace(/[-:]/g, '')}00`;
+
+/**
+ * A DATE-TIME value for a local time: UTC when the offset is known, floating otherwise
+ */
+function icsDateTime(local: string, utcOffsetMinutes?: number): string {
+    if (utcOffsetMinutes === undefined) return compact(local);
+
+    const epochMinutes = parseLocalDateTime(local) as number;
+    return `${compact(new Date((epochMinutes - utcOffsetMinutes) * 60000).toISOString())}Z`;
+}
+
+/**
+ * Event description: why the place was picked and where to find out more
+ */
+function eventDescription(location: CalendarLocation): string {
+    const { interest, trait } = location.recommendationContext ?? {};
+    return [
+        location.description,
+        interest && `Because you like ${interest}`,
+        trait && `Because you're ${trait}`,
+        location.website,
+    ].filter(Boolean).join('\n');
+}
+
+/**
+ * Serialize a planned outing to an iCalendar file
+ * @param document Calendar name, the places and when they are visited
+ * @returns The file contents, with CRLF line endings
+ */
+export function toIcs(document: CalendarDocument): string {
+    const locations = new Map(document.locations.map(location => [location.id, location]));
+    const stamp = `${compact((document.stamp ?? new Date()).toISOString())}Z`;
+
+    const events = document.slots.flatMap(slot => {
+        const location = locations.get(slot.locationId);
+        if (!location) return [];
+
+        const description = eventDescription(location);
+        return [
+            'BEGIN:VEVENT',
+            `UID:${escapeIcsText(`${location.id}-${compact(slot.start)}@${UID_DOMAIN}`)}`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART:${icsDateTime(slot.start, location.utcOffsetMinutes)}`,
+            `DTEND:${icsDateTime(slot.end, location.utcOffsetMinutes)}`,
+            `SUMMARY:${escapeIcsText(location.name)}`,
+            ...(location.address ? [`LOCATION:${escapeIcsText(location.address)}`] : []),
+            `GEO:${location.coordinates.lat};${location.coordinates.lng}`,
+            ...(description ? [`DESCRIPTION:${escapeIcsText(description)}`] : []),
+            // URL is a URI value, so it cannot be escaped like text
+            ...(location.website && /^https?:\/\/\S+$/.test(location.website) ? [`URL:${location.website}`] : []),
+            'END:VEVENT',
+        ];
+    });
+
+    return [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeIcsText(document.name)}`,
+        ...events,
+        'END:VCALENDAR',
+    ].map(foldLine).join('\r\n') + '\r\n';
+}
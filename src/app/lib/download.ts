@@ -0,0 +1,15 @@
+/**
+ * Save a file response from one of the export endpoints in the browser
+ * @param response A successful response with an attachment
+ * @param fallbackName File name when the server does not provide one
+ */
+export async function saveDownload(response: Response, fallbackName: string): Promise<void> {
+    // The server names the file
+    const fileName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? fallbackName;
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,191 @@
+import { NextResponse } from 'next/server';
+import { ApiErrorDetails, ErrorCode, UpstreamSource, UPSTREAM_LABELS } from '../types/errors';
+
+/**
+ * Typed errors thrown by the API clients and mapped to HTTP responses by the routes
+ */
+
+// HTTP status returned for each error code
+export const ERROR_HTTP_STATUS: Record<ErrorCode, number> = {
+    [ErrorCode.VALIDATION]: 400,
+    [ErrorCode.PROFILE_NOT_FOUND]: 404,
+    [ErrorCode.LOCATION_NOT_FOUND]: 400,
+    [ErrorCode.NO_RESULTS]: 404,
+    [ErrorCode.UPSTREAM_RATE_LIMITED]: 429,
+    [ErrorCode.UPSTREAM_AUTH]: 502,
+    [ErrorCode.UPSTREAM_UNAVAILABLE]: 503,
+    [ErrorCode.LLM_INVALID_OUTPUT]: 502,
+    [ErrorCode.TIMEOUT]: 504,
+    [ErrorCode.NETWORK]: 503,
+    [ErrorCode.INTERNAL]: 500,
+};
+
+const RETRYABLE_CODES = new Set<ErrorCode>([
+    ErrorCode.UPSTREAM_RATE_LIMITED,
+    ErrorCode.UPSTREAM_UNAVAILABLE,
+    ErrorCode.LLM_INVALID_OUTPUT,
+    ErrorCode.TIMEOUT,
+    ErrorCode.NETWORK,
+]);
+
+// Wait suggested when an upstream rate limits us without saying for how long
+const DEFAULT_RETRY_AFTER_SECONDS = 30;
+
+export interface AppErrorOptions {
+    retryable?: boolean; // Defaults by code
+    upstream?: UpstreamSource;
+    retryAfterSeconds?: number;
+    cause?: unknown;
+}
+
+export class AppError extends Error {
+    readonly code: ErrorCode;
+    readonly retryable: boolean;
+    readonly upstream?: UpstreamSource;
+    readonly retryAfterSeconds?: number;
+
+    /**
+     * @param code Error code from the shared taxonomy
+     * @param message User-facing message
+     * @param options Retryability, upstream source and retry delay
+     */
+    constructor(code: ErrorCode, message: string, options: AppErrorOptions = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'AppError';
+        this.code = code;
+        this.retryable = options.retryable ?? RETRYABLE_CODES.has(code);
+        this.upstream = options.upstream;
+        this.retryAfterSeconds = options.retryAfterSeconds;
+    }
+
+    get status(): number {
+        return ERROR_HTTP_STATUS[this.code];
+    }
+
+    toDetails(): ApiErrorDetails {
+        return {
+            code: this.code,
+            retryable: this.retryable,
+            upstream: this.upstream,
+            retryAfterSeconds: this.retryAfterSeconds,
+        };
+    }
+}
+
+/**
+ * Parse a Retry-After header value (delay in seconds or an HTTP date)
+ * @returns Delay in whole seconds, or undefined if missing or malformed
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+    if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, Math.ceil(seconds));
+    }
+
+    const date = Date.parse(String(value));
+    return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+interface UpstreamErrorShape {
+    code?: string;
+    name?: string;
+    message?: string;
+    status?: number; // OpenAI SDK errors
+    headers?: Record<string, string | null | undefined>;
+    response?: { status?: number; headers?: Record<string, unknown> }; // axios errors
+}
+
+const TIMEOUT_ERROR_CODES = new Set(['ECONNABORTED', 'ETIMEDOUT', 'ESOCKETTIMEDOUT']);
+const NETWORK_ERROR_CODES = new Set(['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'ERR_NETWORK']);
+
+/**
+ * Classify an error from an upstream HTTP call (axios or the OpenAI SDK) as an AppError
+ * @param error The caught error
+ * @param upstream The service that was called
+ * @returns A typed error; AppErrors are returned unchanged
+ */
+export function fromUpstreamError(error: unknown, upstream: UpstreamSource): AppError {
+    if (error instanceof AppError) return error;
+
+    const shape = (error ?? {}) as UpstreamErrorShape;
+    const status = shape.response?.status ?? shape.status;
+    const headers = shape.response?.headers ?? shape.headers;
+    const label = UPSTREAM_LABELS[upstream];
+    const options = { upstream, cause: error };
+
+    if (
+        (shape.code && TIMEOUT_ERROR_CODES.has(shape.code)) ||
+        shape.name === 'APIConnectionTimeoutError' ||
+        /timed? ?out/i.test(shape.message || '')
+    ) {
+        return new AppError(ErrorCode.TIMEOUT, `${label} took too long to respond. Please try again.`, options);
+    }
+
+    const rateLimited = (retryAfterSeconds: number) => new AppError(
+        ErrorCode.UPSTREAM_RATE_LIMITED,
+        `${label} is receiving too many requests. Please try again in ${retryAfterSeconds} seconds.`,
+        { ...options, retryAfterSeconds }
+    );
+
+    if (status === 429) {
+        return rateLimited(parseRetryAfter(headers?.['retry-after']) ?? DEFAULT_RETRY_AFTER_SECONDS);
+    }
+
+    // GitHub signals an exhausted rate limit with a 403 and a zero remaining quota
+    if (status === 403 && String(headers?.['x-ratelimit-remaining']) === '0') {
+        const resetAt = Number(headers?.['x-ratelimit-reset']);
+        return rateLimited(Number.isFinite(resetAt)
+            ? Math.max(0, Math.ceil(resetAt - Date.now() / 1000))
+            : DEFAULT_RETRY_AFTER_SECONDS);
+    }
+
+    if (status === 401 || status === 403) {
+        return new AppError(ErrorCode.UPSTREAM_AUTH, `${label} rejected our credentials. Please check the API key configuration.`, options);
+    }
+
+    if (
+        (status !== undefined && status >= 500) ||
+        (shape.code && NETWORK_ERROR_CODES.has(shape.code)) ||
+        shape.name === 'APIConnectionError'
+    ) {
+        return new AppError(ErrorCode.UPSTREAM_UNAVAILABLE, `${label} is currently unavailable. Please try again later.`, options);
+    }
+
+    return new AppError(
+        ErrorCode.INTERNAL,
+        `${label} request failed${status ? ` with status ${status}` : ''}.`,
+        { ...options, retryable: false }
+    );
+}
+
+/**
+ * Ensure an error is an AppError, wrapping unknown errors as INTERNAL
+ * @param error The caught error
+ * @param fallbackMessage User-facing message used for unknown errors
+ */
+export function toAppError(error: unknown, fallbackMessage: string): AppError {
+    if (error instanceof AppError) return error;
+    return new AppError(ErrorCode.INTERNAL, fallbackMessage, { cause: error });
+}
+
+/**
+ * Build the JSON error response for a route, with Retry-After when a delay is known
+ * @param error The typed error
+ */
+export function errorResponse(error: AppError): NextResponse {
+    const headers: Record<string, string> = {};
+    if (error.retryAfterSeconds !== undefined) {
+        headers['Retry-After'] = String(error.retryAfterSeconds);
+    }
+
+    return NextResponse.json(
+        {
+            success: false,
+            error: error.message,
+            ...error.toDetails(),
+        },
+        { status: error.status, headers }
+    );
+}
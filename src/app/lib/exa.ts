@@ -1,5 +1,19 @@
-import axios from 'axios';
-import { ExaSearchResult, ExaResult } from '../types/api';
+import { AxiosInstance } from 'axios';
+import { ExaSearchResult, ExaResult, PipelineProgressHandler } from '../types/api';
+import { ErrorCode } from '../types/errors';
+import { AppError, fromUpstreamError } from './errors';
+import { httpClient } from './http';
+
+/**
+ * Profile information extracted from Exa search results
+ */
+export interface ProfileInfo {
+    tweets: string[];
+    bio: string;
+    profileImageUrl?: string;
+    name: string;
+    handle: string;
+}
 
 /**
  * Updated Client for interacting with the Exa API - Fixed for Twitter/X search issues
@@ -7,10 +21,16 @@ import { ExaSearchResult, ExaResult } from '../types/api';
 export class ExaClient {
     private readonly apiKey: string | undefined;
     private readonly baseUrl: string = 'https://api.exa.ai/search';
+    private readonly http: AxiosInstance;
 
-    constructor(apiKey?: string) {
+    /**
+     * @param apiKey Exa API key (defaults to EXA_API_KEY)
+     * @param http HTTP client (defaults to the shared record/replay transport)
+     */
+    constructor(apiKey?: string, http: AxiosInstance = httpClient()) {
         // Store API key but don't validate at construction time
         this.apiKey = apiKey || process.env.EXA_API_KEY;
+        this.http = http;
     }
 
     /**
@@ -18,16 +38,17 @@ export class ExaClient {
      */
     private validateApiKey(): void {
         if (!this.apiKey) {
-            throw new Error('Exa API key is required');
+            throw new AppError(ErrorCode.UPSTREAM_AUTH, 'Exa API key is required', { upstream: 'exa' });
         }
     }
 
     /**
      * Search for content related to an X handle with improved search strategy
      * @param xHandle The X (Twitter) handle to search for
+     * @param onProgress Optional callback notified as each search strategy is tried
      * @returns Search results from Exa
      */
-    async searchXProfile(xHandle: string): Promise<ExaSearchResult> {
+    async searchXProfile(xHandle: string, onProgress?: PipelineProgressHandler): Promise<ExaSearchResult> {
         try {
             // Validate API key when method is called
             this.validateApiKey();
@@ -72,6 +93,7 @@ export class ExaClient {
             // Try each strategy until one works
             for (let i = 0; i < searchStrategies.length; i++) {
                 const strategy = searchStrategies[i];
+                onProgress?.({ type: 'search', strategy: i + 1, totalStrategies: searchStrategies.length });
                 
                 console.log(`Trying search strategy ${i + 1}:`, {
                     query: strategy.query,
@@ -82,7 +104,7 @@ export class ExaClient {
 
                 try {
                     // Make request to Exa API
-                    const response = await axios.post(
+                    const response = await this.http.post(
                         this.baseUrl,
                         {
                             query: strategy.query,
@@ -157,28 +179,19 @@ export class ExaClient {
                 return searchResult;
             }
 
-            // If all strategies failed, throw the last error or a generic one
-            throw lastError || new Error('All search strategies failed to find relevant content');
+            // If all strategies failed, throw the last error; no error means nothing relevant exists
+            throw lastError || new AppError(
+                ErrorCode.PROFILE_NOT_FOUND,
+                `Could not find any public content for @${cleanHandle}.`,
+                { upstream: 'exa' }
+            );
 
         } catch (error: any) {
-            // Check if error is a timeout
-            if (error.code === 'ECONNABORTED' || error.message.includes('timeout')) {
-                console.error('Exa API request timed out');
-                throw new Error('Request timed out. Please try again later.');
-            }
-            
-            // Check for specific API errors
-            if (error.response?.status === 401) {
-                throw new Error('Invalid Exa API key. Please check your API key.');
-            }
-            
-            if (error.response?.status === 429) {
-                throw new Error('Rate limit exceeded. Please try again later.');
-            }
-            
             // Log error with details
             console.error('Error searching X profile:', error.response?.data || error.message);
-            throw new Error(`Exa API Error: ${error.response?.data?.message || error.message || 'Failed request'}`);
+
+            // Classify timeouts, rate limits and auth failures as typed errors
+            throw fromUpstreamError(error, 'exa');
         }
     }
 
@@ -209,7 +222,7 @@ export class ExaClient {
             console.log('Fetching content for URLs:', twitterUrls);
 
             // Make request to Exa contents API
-            const response = await axios.post(
+            const response = await this.http.post(
                 'https://api.exa.ai/contents',
                 {
                     urls: twitterUrls,
@@ -298,13 +311,7 @@ export class ExaClient {
      * @param requestedHandle The originally requested handle to use as fallback
      * @returns Extracted profile information
      */
-    extractProfileInfo(searchResult: ExaSearchResult, requestedHandle: string): {
-        tweets: string[];
-        bio: string;
-        profileImageUrl?: string;
-        name: string; 
-        handle: string;
-    } {
+    extractProfileInfo(searchResult: ExaSearchResult, requestedHandle: string): ProfileInfo {
         console.log('Extracting profile info from:', {
             resultCount: searchResult?.results?.length || 0,
             requestId: searchResult?.requestId
@@ -312,7 +319,7 @@ export class ExaClient {
         
         if (!searchResult || !Array.isArray(searchResult.results)) {
             console.error('Invalid search result:', searchResult);
-            throw new Error('No valid search results received from Exa API');
+            throw new AppError(ErrorCode.UPSTREAM_UNAVAILABLE, 'No valid search results received from Exa API', { upstream: 'exa' });
         }
     
         // Debug: Log the actual results to understand the structure
@@ -699,7 +706,7 @@ export class ExaClient {
 }
 
 // Export a factory function for testing or custom instances
-export const createExaClient = (apiKey?: string) => new ExaClient(apiKey);
+export const createExaClient = (apiKey?: string, http?: AxiosInstance) => new ExaClient(apiKey, http);
 
 // Lazy-loaded singleton instance - only created when used
 let clientInstance: ExaClient | null = null;
@@ -0,0 +1,195 @@
+import { Coordinates, Location } from '../types/location';
+import { ExportFormat } from '../types/itinerary';
+
+/**
+ * Export of recommendations and their route for other mapping apps: GPX 1.1 waypoints and
+ * a track, KML 2.2 placemarks and a line string, or an RFC 7946 GeoJSON FeatureCollection.
+ */
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+    gpx: { label: 'GPX', extension: 'gpx', mimeType: 'application/gpx+xml' },
+    kml: { label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+    geojson: { label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+};
+
+export const isExportFormat = (value: unknown): value is ExportFormat =>
+    typeof value === 'string' && value in EXPORT_FORMATS;
+
+// The fields of a location that are exported
+export type ExportedLocation = Pick<Location, 'name' | 'address' | 'description' | 'category' | 'coordinates' | 'website'>;
+
+export interface ExportDocument {
+    name: string; // e.g. "Toronto recommendations"
+    locations: ExportedLocation[]; // In visiting order
+    path: Coordinates[]; // Route polyline; omitted from the output when shorter than two points
+}
+
+const CREATOR = 'Social Persona City Finder';
+
+/**
+ * Escape text for XML element content and attribute values
+ */
+export function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+        // Control characters other than tab and newlines are not allowed in XML 1.0
+        .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+// Coordinates rounded to ~1 cm, which is more than any source here provides
+const coordinate = (value: number) => Number(value.toFixed(7));
+
+// An optional XML element, omitted when there is no text
+const element = (name: string, text?: string) => (text ? `<${name}>${escapeXml(text)}</${name}>` : '');
+
+/**
+ * Serialize to GPX 1.1 (elements in the order the schema requires)
+ */
+export function toGpx(document: ExportDocument): string {
+    const waypoints = document.locations.map(location => [
+        `  <wpt lat="${coordinate(location.coordinates.lat)}" lon="${coordinate(location.coordinates.lng)}">`,
+        `    ${element('name', location.name)}`,
+        location.address ? `    ${element('cmt', location.address)}` : '',
+        location.description ? `    ${element('desc', location.description)}` : '',
+        location.website ? `    <link href="${escapeXml(location.website)}"><text>Website</text></link>` : '',
+        `    ${element('type', location.category)}`,
+        '  </wpt>',
+    ].filter(Boolean).join('\n'));
+
+    const track = document.path.length >= 2
+        ? [
+            '  <trk>',
+            `    ${element('name', `${document.name} route`)}`,
+            '    <trkseg>',
+            ...document.path.map(point => `      <trkpt lat="${coordinate(point.lat)}" lon="${coordinate(point.lng)}"/>`),
+            '    </trkseg>',
+            '  </trk>',
+        ].join('\n')
+        : '';
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<gpx version="1.1" creator="${CREATOR}" xmlns="http://www.topografix.com/GPX/1/1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">`,
+        `  <metadata>${element('name', document.name)}</metadata>`,
+        ...waypoints,
+        track,
+        '</gpx>',
+    ].filter(Boolean).join('\n') + '\n';
+}
+
+/**
+ * Serialize to KML 2.2 (elements in the order the schema requires)
+ */
+export function toKml(document: ExportDocument): string {
+    const lngLat = (point: Coordinates) => `${coordinate(point.lng)},${coordinate(point.lat)}`;
+
+    const placemarks = document.locations.map(location => [
+        '    <Placemark>',
+        `      ${element('name', location.name)}`,
+        location.address ? `      ${element('address', location.address)}` : '',
+        location.description ? `      ${element('description', location.description)}` : '',
+        '      <ExtendedData>',
+        `        <Data name="category">${element('value', location.category)}</Data>`,
+        location.website ? `        <Data name="website">${element('value', location.website)}</Data>` : '',
+        '      </ExtendedData>',
+        `      <Point><coordinates>${lngLat(location.coordinates)}</coordinates></Point>`,
+        '    </Placemark>',
+    ].filter(Boolean).join('\n'));
+
+    const route = document.path.length >= 2
+        ? [
+            '    <Placemark>',
+            `      ${element('name', `${document.name} route`)}`,
+            '      <LineString>',
+            '        <tessellate>1</tessellate>',
+            `        <coordinates>${document.path.map(lngLat).join(' ')}</coordinates>`,
+            '      </LineString>',
+            '    </Placemark>',
+        ].join('\n')
+        : '';
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<kml xmlns="http://www.opengis.net/kml/2.2">',
+        '  <Document>',
+        `    ${element('name', document.name)}`,
+        ...placemarks,
+        route,
+        '  </Document>',
+        '</kml>',
+    ].filter(Boolean).join('\n') + '\n';
+}
+
+/**
+ * Serialize to an RFC 7946 GeoJSON FeatureCollection ([longitude, latitude] positions)
+ */
+export function toGeoJson(document: ExportDocument): string {
+    const position = (point: Coordinates) => [coordinate(point.lng), coordinate(point.lat)];
+
+    const features: object[] = document.locations.map((location, index) => ({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: position(location.coordinates) },
+        properties: {
+            name: location.name,
+            address: location.address,
+            description: location.description,
+            category: location.category,
+            website: location.website ?? null,
+            stop: index + 1,
+        },
+    }));
+
+    if (document.path.length >= 2) {
+        features.push({
+            type: 'Feature',
+            geometry: { type: 'LineString', coordinates: document.path.map(position) },
+            properties: { name: `${document.name} route`, kind: 'route' },
+        });
+    }
+
+    return JSON.stringify({ type: 'FeatureCollection', name: document.name, features }, null, 2) + '\n';
+}
+
+/**
+ * Serialize recommendations in an export format
+ * @param format The format
+ * @param document Name, locations and route path
+ * @returns The file contents
+ */
+export function serializeExport(format: ExportFormat, document: ExportDocument): string {
+    switch (format) {
+        case 'gpx':
+            return toGpx(document);
+        case 'kml':
+            return toKml(document);
+        case 'geojson':
+            return toGeoJson(document);
+    }
+}
+
+/**
+ * A download file name for an export, e.g. "toronto-recommendations.gpx"
+ * @param name Document name
+ * @param extension File extension, without the dot
+ */
+export function exportFileName(name: string, extension: string): string {
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'recommendations';
+    return `${slug}.${extension}`;
+}
+
+/**
+ * Put locations in a given visiting order; places missing from it keep their relative order at the end
+ * @param locations The places
+ * @param order Location ids in visiting order
+ */
+export function orderLocations<T extends { id: string }>(locations: T[], order: string[]): T[] {
+    const position = (location: T) => {
+        const index = order.indexOf(location.id);
+        return index >= 0 ? index : Number.MAX_SAFE_INTEGER;
+    };
+    return [...locations].sort((a, b) => position(a) - position(b));
+}
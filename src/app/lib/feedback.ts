@@ -0,0 +1,65 @@
+import { FeedbackVerdict, Location, PlaceFeedback } from '../types/location';
+
+/**
+ * Thumbs up/down feedback on recommended places. Ratings accumulate over a session and are
+ * fed back into the location prompt, so each refinement leans further toward liked places.
+ */
+
+export const FEEDBACK_VERDICTS: FeedbackVerdict[] = ['like', 'dislike'];
+
+// Most ratings kept; the oldest are dropped first
+export const MAX_FEEDBACK_PLACES = 50;
+
+// Longest description kept for a rated place, to bound prompt size
+export const MAX_FEEDBACK_DESCRIPTION_LENGTH = 300;
+
+const sameName = (a: string, b: string) => a.toLowerCase().trim() === b.toLowerCase().trim();
+
+/**
+ * Whether a request body holds a list of rated places
+ */
+export function isPlaceFeedbackList(value: unknown): value is PlaceFeedback[] {
+    return Array.isArray(value) && value.every(item =>
+        typeof item?.name === 'string' &&
+        typeof item.category === 'string' &&
+        typeof item.description === 'string' &&
+        FEEDBACK_VERDICTS.includes(item.verdict)
+    );
+}
+
+/**
+ * The verdict on a place, if it was rated
+ * @param feedback Ratings so far
+ * @param name Place name
+ */
+export function verdictFor(feedback: PlaceFeedback[], name: string): FeedbackVerdict | undefined {
+    return feedback.find(item => sameName(item.name, name))?.verdict;
+}
+
+/**
+ * Rate a place. Giving the same verdict again takes the rating back; a new verdict replaces the old one.
+ * @param feedback Ratings so far
+ * @param location The rated place
+ * @param verdict Like or dislike
+ * @returns The updated ratings, most recent last
+ */
+export function recordFeedback(
+    feedback: PlaceFeedback[],
+    location: Pick<Location, 'name' | 'category' | 'description'>,
+    verdict: FeedbackVerdict
+): PlaceFeedback[] {
+    const others = feedback.filter(item => !sameName(item.name, location.name));
+    if (verdictFor(feedback, location.name) === verdict) {
+        return others;
+    }
+
+    return [
+        ...others,
+        {
+            name: location.name,
+            category: location.category,
+            description: location.description.slice(0, MAX_FEEDBACK_DESCRIPTION_LENGTH),
+            verdict,
+        },
+    ].slice(-MAX_FEEDBACK_PLACES);
+}
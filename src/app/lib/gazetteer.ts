@@ -0,0 +1,262 @@
+import { CityContext, Location, Bounds, Coordinates, DEFAULT_CITY_NAME } from '../types/location';
+import { radiusFromBounds } from './geo';
+
+/**
+ * A city known without a geocoding call, used in mock mode and as a
+ * fallback when the Geocoding API is unavailable
+ */
+interface GazetteerEntry {
+    name: string;
+    aliases: string[];
+    center: Coordinates;
+    bounds: Bounds;
+    // Well-known places used to fill recommendations when the LLM comes up short
+    landmarks: Omit<Location, 'id'>[];
+}
+
+const GAZETTEER: GazetteerEntry[] = [
+    {
+        name: DEFAULT_CITY_NAME,
+        aliases: ['toronto', 'toronto, on', 'toronto, ontario'],
+        center: { lat: 43.6532, lng: -79.3832 },
+        bounds: {
+            northeast: { lat: 43.8554, lng: -79.1169 },
+            southwest: { lat: 43.5810, lng: -79.6393 },
+        },
+        landmarks: [
+            {
+                name: "CN Tower",
+                address: "290 Bremner Blvd, Toronto, ON M5V 3L9",
+                description: "Toronto's iconic landmark with breathtaking views of the city.",
+                category: "attraction",
+                coordinates: { lat: 43.6426, lng: -79.3871 },
+                rating: 4.7,
+                website: "https://www.cntower.ca/"
+            },
+            {
+                name: "St. Lawrence Market",
+                address: "93 Front St E, Toronto, ON M5E 1C3",
+                description: "Historic market with fresh food and unique vendors.",
+                category: "shop",
+                coordinates: { lat: 43.6489, lng: -79.3714 },
+                rating: 4.6,
+                website: "https://www.stlawrencemarket.com/"
+            },
+            {
+                name: "High Park",
+                address: "1873 Bloor St W, Toronto, ON M6R 2Z3",
+                description: "Toronto's largest public park with trails, gardens and a zoo.",
+                category: "park",
+                coordinates: { lat: 43.6465, lng: -79.4637 },
+                rating: 4.8,
+                website: "https://www.toronto.ca/explore-enjoy/parks-gardens-beaches/gardens-and-horticulture/gardens-and-parks/high-park/"
+            },
+            {
+                name: "Royal Ontario Museum",
+                address: "100 Queens Park, Toronto, ON M5S 2C6",
+                description: "World-class museum with art, culture & natural history.",
+                category: "attraction",
+                coordinates: { lat: 43.6677, lng: -79.3948 },
+                rating: 4.6,
+                website: "https://www.rom.on.ca/"
+            },
+            {
+                name: "Distillery District",
+                address: "55 Mill St, Toronto, ON M5A 3C4",
+                description: "Historic district with shops, restaurants and galleries.",
+                category: "entertainment",
+                coordinates: { lat: 43.6503, lng: -79.3596 },
+                rating: 4.5,
+                website: "https://www.thedistillerydistrict.com/"
+            }
+        ],
+    },
+    {
+        name: 'New York, NY, USA',
+        aliases: ['new york', 'new york city', 'nyc', 'new york, ny', 'manhattan'],
+        center: { lat: 40.7128, lng: -74.0060 },
+        bounds: {
+            northeast: { lat: 40.9176, lng: -73.7004 },
+            southwest: { lat: 40.4774, lng: -74.2591 },
+        },
+        landmarks: [
+            {
+                name: "Central Park",
+                address: "New York, NY 10024",
+                description: "Manhattan's sprawling urban park with lakes, meadows and walking paths.",
+                category: "park",
+                coordinates: { lat: 40.7829, lng: -73.9654 },
+                rating: 4.8,
+                website: "https://www.centralparknyc.org/"
+            },
+            {
+                name: "The Metropolitan Museum of Art",
+                address: "1000 5th Ave, New York, NY 10028",
+                description: "One of the world's great art museums, spanning 5,000 years of culture.",
+                category: "attraction",
+                coordinates: { lat: 40.7794, lng: -73.9632 },
+                rating: 4.8,
+                website: "https://www.metmuseum.org/"
+            },
+            {
+                name: "Chelsea Market",
+                address: "75 9th Ave, New York, NY 10011",
+                description: "Food hall and shopping arcade in a former biscuit factory.",
+                category: "shop",
+                coordinates: { lat: 40.7424, lng: -74.0060 },
+                rating: 4.6,
+                website: "https://www.chelseamarket.com/"
+            },
+            {
+                name: "The High Line",
+                address: "New York, NY 10011",
+                description: "Elevated linear park built on a historic freight rail line.",
+                category: "park",
+                coordinates: { lat: 40.7480, lng: -74.0048 },
+                rating: 4.7,
+                website: "https://www.thehighline.org/"
+            },
+            {
+                name: "Brooklyn Bridge",
+                address: "Brooklyn Bridge, New York, NY 10038",
+                description: "Historic suspension bridge with a pedestrian walkway and skyline views.",
+                category: "attraction",
+                coordinates: { lat: 40.7061, lng: -73.9969 },
+                rating: 4.8,
+            }
+        ],
+    },
+    {
+        name: 'London, UK',
+        aliases: ['london', 'london, england', 'london, united kingdom'],
+        center: { lat: 51.5074, lng: -0.1278 },
+        bounds: {
+            northeast: { lat: 51.6723, lng: 0.1482 },
+            southwest: { lat: 51.3849, lng: -0.3515 },
+        },
+        landmarks: [
+            {
+                name: "British Museum",
+                address: "Great Russell St, London WC1B 3DG",
+                description: "Vast collection of world art and artefacts, free to visit.",
+                category: "attraction",
+                coordinates: { lat: 51.5194, lng: -0.1270 },
+                rating: 4.7,
+                website: "https://www.britishmuseum.org/"
+            },
+            {
+                name: "Borough Market",
+                address: "8 Southwark St, London SE1 1TL",
+                description: "Historic food market with producers and street food stalls.",
+                category: "shop",
+                coordinates: { lat: 51.5055, lng: -0.0910 },
+                rating: 4.6,
+                website: "https://boroughmarket.org.uk/"
+            },
+            {
+                name: "Hyde Park",
+                address: "London W2 2UH",
+                description: "Large royal park with the Serpentine lake and open lawns.",
+                category: "park",
+                coordinates: { lat: 51.5073, lng: -0.1657 },
+                rating: 4.7,
+                website: "https://www.royalparks.org.uk/parks/hyde-park"
+            },
+            {
+                name: "Tate Modern",
+                address: "Bankside, London SE1 9TG",
+                description: "Modern and contemporary art gallery in a former power station.",
+                category: "attraction",
+                coordinates: { lat: 51.5076, lng: -0.0994 },
+                rating: 4.6,
+                website: "https://www.tate.org.uk/visit/tate-modern"
+            },
+            {
+                name: "Shakespeare's Globe",
+                address: "21 New Globe Walk, London SE1 9DT",
+                description: "Reconstruction of the Elizabethan playhouse with live performances.",
+                category: "entertainment",
+                coordinates: { lat: 51.5081, lng: -0.0972 },
+                rating: 4.7,
+                website: "https://www.shakespearesglobe.com/"
+            }
+        ],
+    },
+    {
+        name: 'Montreal, QC, Canada',
+        aliases: ['montreal', 'montréal', 'montreal, qc', 'montreal, quebec'],
+        center: { lat: 45.5019, lng: -73.5674 },
+        bounds: {
+            northeast: { lat: 45.7047, lng: -73.4742 },
+            southwest: { lat: 45.4100, lng: -73.9741 },
+        },
+        landmarks: [],
+    },
+    {
+        name: 'Vancouver, BC, Canada',
+        aliases: ['vancouver', 'vancouver, bc', 'vancouver, british columbia'],
+        center: { lat: 49.2827, lng: -123.1207 },
+        bounds: {
+            northeast: { lat: 49.3170, lng: -123.0232 },
+            southwest: { lat: 49.1985, lng: -123.2249 },
+        },
+        landmarks: [],
+    },
+    {
+        name: 'San Francisco, CA, USA',
+        aliases: ['san francisco', 'sf', 'san francisco, ca'],
+        center: { lat: 37.7749, lng: -122.4194 },
+        bounds: {
+            northeast: { lat: 37.8324, lng: -122.3482 },
+            southwest: { lat: 37.7081, lng: -122.5170 },
+        },
+        landmarks: [],
+    },
+];
+
+/**
+ * Normalize a free-text location for alias matching
+ */
+const normalize = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Find a gazetteer entry for a free-text location
+ * @param location Location string as typed by the user (e.g. "Toronto, ON")
+ * @returns The matching entry or undefined
+ */
+function findEntry(location: string): GazetteerEntry | undefined {
+    const query = normalize(location);
+    if (!query) return undefined;
+
+    return GAZETTEER.find(entry =>
+        normalize(entry.name) === query ||
+        entry.aliases.includes(query) ||
+        entry.aliases.some(alias => query.startsWith(`${alias},`))
+    );
+}
+
+/**
+ * Resolve a location to a city using only the local gazetteer
+ * @param location Location string as typed by the user
+ * @returns The resolved city or null if it is not known locally
+ */
+export function lookupCity(location: string): CityContext | null {
+    const entry = findEntry(location);
+    if (!entry) return null;
+
+    return {
+        name: entry.name,
+        center: entry.center,
+        bounds: entry.bounds,
+        radiusKm: radiusFromBounds(entry.center, entry.bounds),
+    };
+}
+
+/**
+ * Get curated fallback landmarks for a city
+ * @param cityName The resolved city name
+ * @returns Landmarks for the city, or an empty list when none are curated
+ */
+export function getCityLandmarks(cityName: string): Omit<Location, 'id'>[] {
+    return findEntry(cityName)?.landmarks ?? [];
+}
@@ -0,0 +1,60 @@
+import { Bounds, Coordinates } from '../types/location';
+
+const EARTH_RADIUS_KM = 6371;
+
+// Default and allowed search radius around a city center
+export const DEFAULT_RADIUS_KM = 10;
+const MIN_RADIUS_KM = 2;
+const MAX_RADIUS_KM = 25;
+
+/**
+ * Whether a value is a { lat, lng } pair of valid coordinates
+ */
+export function isCoordinates(value: unknown): value is Coordinates {
+    const { lat, lng } = (value ?? {}) as Partial<Coordinates>;
+    return typeof lat === 'number' && typeof lng === 'number' &&
+        Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two coordinates
+ * @param a First coordinate
+ * @param b Second coordinate
+ * @returns Distance in kilometres
+ */
+export function haversineKm(a: Coordinates, b: Coordinates): number {
+    const dLat = toRadians(b.lat - a.lat);
+    const dLng = toRadians(b.lng - a.lng);
+    const h = Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Derive a search radius from a city's bounding box
+ * @param center The city center
+ * @param bounds The city viewport, if known
+ * @returns Radius in kilometres, clamped to a sensible range
+ */
+export function radiusFromBounds(center: Coordinates, bounds?: Bounds): number {
+    if (!bounds) {
+        return DEFAULT_RADIUS_KM;
+    }
+
+    const radius = Math.max(
+        haversineKm(center, bounds.northeast),
+        haversineKm(center, bounds.southwest)
+    );
+
+    return Math.round(Math.min(MAX_RADIUS_KM, Math.max(MIN_RADIUS_KM, radius)));
+}
+
+/**
+ * Check whether a coordinate lies within a radius of a center point
+ */
+export function isWithinRadius(point: Coordinates, center: Coordinates, radiusKm: number): boolean {
+    return haversineKm(point, center) <= radiusKm;
+}
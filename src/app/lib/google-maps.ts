@@ -1,7 +1,81 @@
-import axios from 'axios';
+import { AxiosInstance } from 'axios';
 import { v4 as uuidv4 } from 'uuid';
 import { Persona } from '../types/persona';
-import { Location, GooglePlacesResult, LocationCategory } from '../types/location';
+import { Location, GooglePlacesResult, LocationCategory, CityContext, Coordinates, DEFAULT_CITY_NAME } from '../types/location';
+import { lookupCity } from './gazetteer';
+import { radiusFromBounds, haversineKm } from './geo';
+import { parseWeekdayText } from './opening-hours';
+import { AppError, fromUpstreamError } from './errors';
+import { httpClient } from './http';
+import { ErrorCode } from '../types/errors';
+
+// Minimum name similarity for a Places result to count as the same place
+const NAME_MATCH_THRESHOLD = 0.5;
+
+/**
+ * Split a place name into comparable tokens
+ */
+const nameTokens = (name: string): string[] => name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token && token !== 'the');
+
+/**
+ * Score how similar two place names are (0-1)
+ * @param a First name
+ * @param b Second name
+ * @returns Share of the shorter name's tokens found in the other name
+ */
+function nameSimilarity(a: string, b: string): number {
+    const tokensA = nameTokens(a);
+    const tokensB = new Set(nameTokens(b));
+    if (tokensA.length === 0 || tokensB.size === 0) return 0;
+
+    const shared = tokensA.filter(token => tokensB.has(token)).length;
+    return shared / Math.min(tokensA.length, tokensB.size);
+}
+
+/**
+ * Convert a non-OK Google Maps API status into a typed error
+ * @param status The "status" field of the API response
+ * @param notFound Error to use for ZERO_RESULTS / NOT_FOUND
+ * @returns The typed error
+ */
+function fromMapsStatus(status: string, notFound: AppError): AppError {
+    const options = { upstream: 'google-maps' as const };
+
+    switch (status) {
+        case 'ZERO_RESULTS':
+        case 'NOT_FOUND':
+            return notFound;
+        case 'OVER_QUERY_LIMIT':
+        case 'OVER_DAILY_LIMIT':
+            return new AppError(
+                ErrorCode.UPSTREAM_RATE_LIMITED,
+                'Google Maps is receiving too many requests. Please try again in a minute.',
+                { ...options, retryAfterSeconds: 60 }
+            );
+        case 'REQUEST_DENIED':
+            return new AppError(ErrorCode.UPSTREAM_AUTH, 'Google Maps rejected our credentials. Please check the API key configuration.', options);
+        case 'INVALID_REQUEST':
+            return new AppError(ErrorCode.VALIDATION, 'Google Maps rejected the request as invalid.', options);
+        default:
+            return new AppError(ErrorCode.UPSTREAM_UNAVAILABLE, 'Google Maps is currently unavailable. Please try again later.', options);
+    }
+}
+
+/**
+ * Error for a location that cannot be resolved to a city
+ */
+const locationNotFound = (query: string) => new AppError(
+    ErrorCode.LOCATION_NOT_FOUND,
+    `Could not find "${query}". Please enter a city name such as "Toronto, ON, Canada".`,
+    { upstream: 'google-maps' }
+);
 
 /**
  * Client for interacting with Google Maps API
@@ -9,10 +83,16 @@ import { Location, GooglePlacesResult, LocationCategory } from '../types/locatio
 export class GoogleMapsClient {
     private readonly apiKey: string | undefined;
     private readonly baseUrl: string = 'https://maps.googleapis.com/maps/api';
+    private readonly http: AxiosInstance;
 
-    constructor(apiKey?: string) {
+    /**
+     * @param apiKey Google Maps API key (defaults to GOOGLE_MAPS_API_KEY)
+     * @param http HTTP client (defaults to the shared record/replay transport)
+     */
+    constructor(apiKey?: string, http: AxiosInstance = httpClient()) {
         // Store API key but don't validate at construction time
         this.apiKey = apiKey || process.env.GOOGLE_MAPS_API_KEY;
+        this.http = http;
     }
 
     /**
@@ -20,7 +100,7 @@ export class GoogleMapsClient {
      */
     private validateApiKey() {
         if (!this.apiKey) {
-            throw new Error('Google Maps API key is required');
+            throw new AppError(ErrorCode.UPSTREAM_AUTH, 'Google Maps API key is required', { upstream: 'google-maps' });
         }
     }
 
@@ -34,7 +114,7 @@ export class GoogleMapsClient {
             // Validate API key when method is called
             this.validateApiKey();
 
-            const response = await axios.get(
+            const response = await this.http.get(
                 `${this.baseUrl}/geocode/json`,
                 {
                     params: {
@@ -48,11 +128,73 @@ export class GoogleMapsClient {
                 const { lat, lng } = response.data.results[0].geometry.location;
                 return { lat, lng };
             } else {
-                throw new Error(`Geocoding failed: ${response.data.status}`);
+                throw fromMapsStatus(response.data.status, locationNotFound(location));
             }
         } catch (error) {
             console.error('Error geocoding location:', error);
-            throw new Error('Failed to geocode location');
+            throw fromUpstreamError(error, 'google-maps');
+        }
+    }
+
+    /**
+     * Resolve a free-text location to a city with its center, bounds and search radius
+     * @param location The location to resolve (e.g., "Toronto, ON, Canada")
+     * @returns The resolved city
+     */
+    async resolveCity(location: string): Promise<CityContext> {
+        const query = location.trim() || DEFAULT_CITY_NAME;
+
+        // In mock mode only the local gazetteer is consulted
+        if (process.env.USE_MOCK_DATA === 'true') {
+            const city = lookupCity(query);
+            if (!city) {
+                throw locationNotFound(query);
+            }
+            return city;
+        }
+
+        try {
+            // Validate API key when method is called
+            this.validateApiKey();
+
+            const response = await this.http.get(
+                `${this.baseUrl}/geocode/json`,
+                {
+                    params: {
+                        address: query,
+                        key: this.apiKey
+                    }
+                }
+            );
+
+            if (response.data.status === 'OK' && response.data.results.length > 0) {
+                const result = response.data.results[0];
+                const center: Coordinates = result.geometry.location;
+                const viewport = result.geometry.viewport || result.geometry.bounds;
+                const bounds = viewport ? {
+                    northeast: viewport.northeast,
+                    southwest: viewport.southwest,
+                } : undefined;
+
+                return {
+                    name: result.formatted_address || query,
+                    center,
+                    bounds,
+                    radiusKm: radiusFromBounds(center, bounds),
+                };
+            }
+
+            throw fromMapsStatus(response.data.status, locationNotFound(query));
+        } catch (error) {
+            // Fall back to the local gazetteer if the Geocoding API is unavailable
+            const city = lookupCity(query);
+            if (city) {
+                console.warn(`Geocoding unavailable for "${query}", using gazetteer entry`);
+                return city;
+            }
+
+            console.error('Error resolving city:', error);
+            throw fromUpstreamError(error, 'google-maps');
         }
     }
 
@@ -61,23 +203,25 @@ export class GoogleMapsClient {
      * @param coordinates The coordinates to search near
      * @param keyword The keyword to search for
      * @param type Optional place type to filter by
+     * @param radiusMeters Search radius in meters (defaults to 5km)
      * @returns Array of places matching the search
      */
     async findPlaces(
         coordinates: { lat: number; lng: number },
         keyword: string,
-        type?: string
+        type?: string,
+        radiusMeters: number = 5000
     ): Promise<GooglePlacesResult[]> {
         try {
             // Validate API key when method is called
             this.validateApiKey();
 
-            const response = await axios.get(
+            const response = await this.http.get(
                 `${this.baseUrl}/place/nearbysearch/json`,
                 {
                     params: {
                         location: `${coordinates.lat},${coordinates.lng}`,
-                        radius: 5000, // 5km radius
+                        radius: Math.min(radiusMeters, 50000), // Places API caps radius at 50km
                         keyword,
                         type: type || '',
                         key: this.apiKey
@@ -88,11 +232,11 @@ export class GoogleMapsClient {
             if (response.data.status === 'OK' || response.data.status === 'ZERO_RESULTS') {
                 return response.data.results || [];
             } else {
-                throw new Error(`Places search failed: ${response.data.status}`);
+                throw fromMapsStatus(response.data.status, new AppError(ErrorCode.NO_RESULTS, 'No places found.', { upstream: 'google-maps' }));
             }
         } catch (error) {
             console.error('Error finding places:', error);
-            throw new Error('Failed to find places');
+            throw fromUpstreamError(error, 'google-maps');
         }
     }
 
@@ -106,12 +250,12 @@ export class GoogleMapsClient {
             // Validate API key when method is called
             this.validateApiKey();
 
-            const response = await axios.get(
+            const response = await this.http.get(
                 `${this.baseUrl}/place/details/json`,
                 {
                     params: {
                         place_id: placeId,
-                        fields: 'name,formatted_address,geometry,rating,types,price_level,website,formatted_phone_number,opening_hours,photos',
+                        fields: 'name,formatted_address,geometry,rating,types,price_level,website,formatted_phone_number,opening_hours,utc_offset,photos',
                         key: this.apiKey
                     }
                 }
@@ -120,11 +264,11 @@ export class GoogleMapsClient {
             if (response.data.status === 'OK') {
                 return response.data.result;
             } else {
-                throw new Error(`Place details failed: ${response.data.status}`);
+                throw fromMapsStatus(response.data.status, new AppError(ErrorCode.NO_RESULTS, 'Place not found.', { upstream: 'google-maps' }));
             }
         } catch (error) {
             console.error('Error getting place details:', error);
-            throw new Error('Failed to get place details');
+            throw fromUpstreamError(error, 'google-maps');
         }
     }
 
@@ -191,6 +335,188 @@ export class GoogleMapsClient {
         return descriptions[Math.floor(Math.random() * descriptions.length)];
     }
 
+    /**
+     * Whether real Places lookups can be made (API key present and not in mock mode)
+     */
+    canVerify(): boolean {
+        return Boolean(this.apiKey) && process.env.USE_MOCK_DATA !== 'true';
+    }
+
+    /**
+     * Convert a Places result into our location format, keeping Google's data authoritative
+     * @param place The Places result (ideally from getPlaceDetails)
+     * @param base Fields to keep from the original candidate (id, description)
+     * @returns A verified location
+     */
+    private toVerifiedLocation(place: GooglePlacesResult, base: Pick<Location, 'id' | 'description' | 'category'>): Location {
+        return {
+            id: base.id,
+            name: place.name,
+            address: place.formatted_address || place.vicinity || '',
+            description: base.description,
+            category: base.category || this.determineCategory(place.types || []),
+            coordinates: {
+                lat: place.geometry.location.lat,
+                lng: place.geometry.location.lng
+            },
+            rating: place.rating,
+            website: place.website,
+            phone: place.formatted_phone_number,
+            openingHours: place.opening_hours?.weekday_text,
+            schedule: parseWeekdayText(place.opening_hours?.weekday_text),
+            utcOffsetMinutes: place.utc_offset,
+            priceLevel: place.price_level,
+            placeId: place.place_id,
+            verified: true,
+        };
+    }
+
+    /**
+     * Resolve a single LLM-proposed location through Google Places
+     * @param location The candidate location
+     * @param city The city the candidate should be in
+     * @returns The location with authoritative Places data, or null if no match was found
+     */
+    async verifyLocation(location: Location, city: CityContext): Promise<Location | null> {
+        const places = await this.findPlaces(city.center, location.name, undefined, city.radiusKm * 1000);
+
+        // Pick the closest name match, preferring results near the proposed coordinates
+        const match = places
+            .map(place => ({
+                place,
+                score: nameSimilarity(location.name, place.name),
+                distance: haversineKm(location.coordinates, place.geometry.location),
+            }))
+            .filter(candidate => candidate.score >= NAME_MATCH_THRESHOLD)
+            .sort((a, b) => b.score - a.score || a.distance - b.distance)[0];
+
+        if (!match) {
+            console.warn(`No Places match for "${location.name}"`);
+            return null;
+        }
+
+        const details = await this.getPlaceDetails(match.place.place_id);
+
+        return this.toVerifiedLocation(
+            { ...match.place, ...details, place_id: match.place.place_id },
+            location
+        );
+    }
+
+    /**
+     * Find a real place to stand in for a candidate that could not be verified
+     * @param location The unverifiable candidate
+     * @param city The city to search in
+     * @param persona The persona to describe the replacement for
+     * @param excludedPlaceIds Places already in the result set
+     * @param excludedNames Normalized names of places the user has already been shown
+     * @returns A verified replacement or null
+     */
+    private async findReplacement(
+        location: Location,
+        city: CityContext,
+        persona: Persona,
+        excludedPlaceIds: Set<string>,
+        excludedNames: Set<string>
+    ): Promise<Location | null> {
+        const keyword = [location.category, persona.interests[0]].filter(Boolean).join(' ');
+        const places = await this.findPlaces(city.center, keyword, undefined, city.radiusKm * 1000);
+        const place = places.find(candidate =>
+            !excludedPlaceIds.has(candidate.place_id) && !excludedNames.has(candidate.name.toLowerCase().trim())
+        );
+
+        if (!place) {
+            return null;
+        }
+
+        const details = await this.getPlaceDetails(place.place_id);
+
+        return this.toVerifiedLocation(
+            { ...place, ...details, place_id: place.place_id },
+            {
+                id: location.id,
+                description: this.generatePlaceDescription(place, persona),
+                category: this.determineCategory(place.types),
+            }
+        );
+    }
+
+    /**
+     * Verify LLM-proposed locations against Google Places. Matched candidates get authoritative
+     * coordinates, address, rating, website, phone, hours and price level; unmatched candidates
+     * are replaced by a real place in the same category or dropped.
+     * @param locations Candidate locations
+     * @param city The city the candidates should be in
+     * @param persona The persona the candidates were generated for
+     * @param onLocation Optional callback notified as each location is settled
+     * @param exclude Names of places already shown, which count as unmatched if a candidate resolves to one
+     * @returns Locations flagged as verified or unverified
+     */
+    async verifyLocations(
+        locations: Location[],
+        city: CityContext,
+        persona: Persona,
+        onLocation?: (location: Location, index: number) => void,
+        exclude: string[] = []
+    ): Promise<Location[]> {
+        // Without Places access we can only pass candidates through, flagged as unverified
+        if (!this.canVerify()) {
+            const unverified = locations.map(location => ({ ...location, verified: false }));
+            unverified.forEach((location, index) => onLocation?.(location, index));
+            return unverified;
+        }
+
+        const results = await Promise.all(locations.map(async location => {
+            try {
+                return { location, verified: await this.verifyLocation(location, city) };
+            } catch (error) {
+                // Keep the candidate if Places is unavailable rather than dropping it
+                console.error(`Error verifying "${location.name}":`, error);
+                return { location: { ...location, verified: false }, verified: undefined };
+            }
+        }));
+
+        const seenPlaceIds = new Set<string>();
+        const excludedNames = new Set(exclude.map(name => name.toLowerCase().trim()));
+        const verifiedLocations: Location[] = [];
+
+        for (const result of results) {
+            if (result.verified === undefined) {
+                verifiedLocations.push(result.location);
+                onLocation?.(result.location, verifiedLocations.length - 1);
+                continue;
+            }
+
+            let location = result.verified;
+
+            // Two candidates can resolve to the same place; treat the second as unmatched
+            if (location?.placeId && seenPlaceIds.has(location.placeId)) {
+                location = null;
+            }
+
+            // Likewise when it resolves to a place the user has already been shown
+            if (location && excludedNames.has(location.name.toLowerCase().trim())) {
+                location = null;
+            }
+
+            if (!location) {
+                try {
+                    location = await this.findReplacement(result.location, city, persona, seenPlaceIds, excludedNames);
+                } catch (error) {
+                    console.error(`Error replacing "${result.location.name}":`, error);
+                }
+            }
+
+            if (location) {
+                if (location.placeId) seenPlaceIds.add(location.placeId);
+                verifiedLocations.push(location);
+                onLocation?.(location, verifiedLocations.length - 1);
+            }
+        }
+
+        return verifiedLocations;
+    }
+
     /**
      * Find recommended locations based on a persona
      * @param persona The user's persona
@@ -204,7 +530,7 @@ export class GoogleMapsClient {
         try {
             // For testing/development, provide mock data if env var is set
             if (process.env.USE_MOCK_DATA === 'true') {
-                return this.getMockLocations(persona);
+                return this.getMockLocations(persona, await this.resolveCity(userLocation));
             }
 
             // Geocode the user's location
@@ -249,9 +575,10 @@ export class GoogleMapsClient {
             console.error('Error finding recommended locations:', error);
 
             // If real API fails, return mock data for development/testing
-            if (process.env.NODE_ENV !== 'production') {
+            const city = lookupCity(userLocation);
+            if (process.env.NODE_ENV !== 'production' && city) {
                 console.log('Returning mock location data due to API error');
-                return this.getMockLocations(persona);
+                return this.getMockLocations(persona, city);
             }
 
             throw new Error('Failed to find recommended locations');
@@ -261,11 +588,12 @@ export class GoogleMapsClient {
     /**
      * Generate mock location data for testing
      * @param persona The user's persona to generate mock data for
+     * @param city The city to place the mock locations in
      * @returns Array of mock locations
      */
-    private getMockLocations(persona: Persona): Location[] {
-        // Toronto coordinates for center
-        const center = { lat: 43.6532, lng: -79.3832 };
+    private getMockLocations(persona: Persona, city: CityContext): Location[] {
+        const center = city.center;
+        const cityName = city.name.split(',')[0].trim();
         const categories = ['restaurant', 'cafe', 'museum', 'park', 'bar'];
 
         return Array(5).fill(0).map((_, index) => {
@@ -282,8 +610,8 @@ export class GoogleMapsClient {
 
             return {
                 id: uuidv4(),
-                name: `Toronto ${category.charAt(0).toUpperCase() + category.slice(1)} ${index + 1}`,
-                address: `${index * 100 + 100} ${category.charAt(0).toUpperCase() + category.slice(1)} St, Toronto, ON`,
+                name: `${cityName} ${category.charAt(0).toUpperCase() + category.slice(1)} ${index + 1}`,
+                address: `${index * 100 + 100} ${category.charAt(0).toUpperCase() + category.slice(1)} St, ${city.name}`,
                 description: `This ${category} is perfect for someone with ${trait} traits who enjoys ${interest}.`,
                 category,
                 coordinates: { lat, lng },
@@ -294,7 +622,7 @@ export class GoogleMapsClient {
 }
 
 // Export a factory function for testing or custom instances
-export const createGoogleMapsClient = (apiKey?: string) => new GoogleMapsClient(apiKey);
+export const createGoogleMapsClient = (apiKey?: string, http?: AxiosInstance) => new GoogleMapsClient(apiKey, http);
 
 // Lazy-loaded singleton instance - only created when used
 let clientInstance: GoogleMapsClient | null = null;
@@ -0,0 +1,150 @@
+import { Budget, Location, MemberMatch } from '../types/location';
+import { PartialEnhancedPersona } from '../types/persona';
+import { scoreLocation } from './relevance';
+
+/**
+ * Group outings: recommendations for several personas at once. Places are generated for a
+ * merged persona, then scored against every member so the ranking favours places that suit
+ * the whole group rather than one enthusiastic member.
+ */
+
+export const MIN_GROUP_SIZE = 2;
+export const MAX_GROUP_SIZE = 8;
+
+// Share of a place's group score that comes from its least satisfied member, the rest being
+// the members' average; higher values favour places nobody dislikes over crowd-pleasers
+const FAIRNESS_WEIGHT = 0.5;
+
+const isStringList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Whether a request body holds a persona that prompts and scoring can use (the handle may be missing)
+ */
+export function isPersona(value: unknown): value is PartialEnhancedPersona {
+    const persona = value as Record<string, unknown> | null | undefined;
+    return typeof persona?.name === 'string' &&
+        (persona.handle === undefined || typeof persona.handle === 'string') &&
+        isStringList(persona.traits) &&
+        isStringList(persona.interests);
+}
+
+/**
+ * Whether a request body holds a list of group members' personas
+ */
+export function isPersonaList(value: unknown): value is PartialEnhancedPersona[] {
+    return Array.isArray(value) && value.every(persona => isPersona(persona) && typeof persona.handle === 'string');
+}
+
+/**
+ * Items from several lists, most common first (ties keep first-seen order), without case duplicates
+ */
+function byFrequency(lists: (string[] | undefined)[]): string[] {
+    const counts = new Map<string, { item: string; count: number }>();
+
+    for (const list of lists) {
+        for (const item of new Set(list ?? [])) {
+            const key = item.toLowerCase();
+            const entry = counts.get(key);
+            counts.set(key, { item: entry?.item ?? item, count: (entry?.count ?? 0) + 1 });
+        }
+    }
+
+    return [...counts.values()].sort((a, b) => b.count - a.count).map(entry => entry.item);
+}
+
+// "Ada", "Ada and Grace", "Ada, Grace and Linus"
+const joinNames = (names: string[]) =>
+    (names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names.join(''));
+
+/**
+ * Names of a group's members in prose, e.g. "Ada, Grace and Linus"
+ */
+export const groupName = (members: Pick<PartialEnhancedPersona, 'name'>[]) => joinNames(members.map(member => member.name));
+
+/**
+ * Combine members into one persona describing the group, with the traits and interests
+ * they share listed first
+ * @param members The group's personas
+ * @returns A persona for prompts, caching and place verification
+ */
+export function mergePersonas(members: PartialEnhancedPersona[]): PartialEnhancedPersona {
+    return {
+        name: groupName(members),
+        handle: members.map(member => member.handle).join('+'),
+        bio: `A group outing for ${members.length} people.`,
+        traits: byFrequency(members.map(member => member.traits)),
+        interests: byFrequency(members.map(member => member.interests)),
+        traitCategories: Object.assign({}, ...members.map(member => member.traitCategories ?? {})),
+        interestCategories: Object.assign({}, ...members.map(member => member.interestCategories ?? {})),
+        locationPreferences: byFrequency(members.map(member => member.locationPreferences)),
+        activityPreferences: byFrequency(members.map(member => member.activityPreferences)),
+        timePreferences: byFrequency(members.map(member => member.timePreferences)),
+    };
+}
+
+/**
+ * Explain which members a place suits, e.g. "Great for Ada (art) and Grace (coffee)."
+ */
+function explainForGroup(matches: MemberMatch[]): string {
+    const satisfied = matches.filter(match => match.satisfied);
+    if (satisfied.length === 0) return 'A popular spot for the whole group.';
+    if (satisfied.length === matches.length && matches.length > 2) return 'Something for everyone in the group.';
+
+    const reasons = satisfied.map(match => {
+        const reason = match.interest ?? match.trait;
+        return reason ? `${match.name} (${reason})` : match.name;
+    });
+    return `Great for ${joinNames(reasons)}.`;
+}
+
+/**
+ * Score a location against every member of a group
+ * @param location The recommended location
+ * @param members The group's personas
+ * @param budget The requested budget, if any
+ * @returns The location with a group relevance score and a per-member breakdown
+ */
+export function scoreForGroup(location: Location, members: PartialEnhancedPersona[], budget?: Budget): Location {
+    const scored = members.map(member => scoreLocation(location, member, budget));
+
+    const matches: MemberMatch[] = scored
+        .map((result, index) => ({
+            handle: members[index].handle,
+            name: members[index].name,
+            score: result.relevanceScore ?? 0,
+            interest: result.recommendationContext?.interest,
+            trait: result.recommendationContext?.trait,
+            satisfied: Boolean(result.recommendationContext?.interest || result.recommendationContext?.trait),
+        }))
+        .sort((a, b) => b.score - a.score);
+
+    const scores = matches.map(match => match.score);
+    const average = scores.reduce((total, score) => total + score, 0) / scores.length;
+    const lowest = Math.min(...scores);
+
+    // The breakdown and best matches are those of the member the place suits most
+    const best = scored[members.findIndex(member => member.handle === matches[0].handle)];
+
+    return {
+        ...location,
+        relevanceScore: Math.round(FAIRNESS_WEIGHT * lowest + (1 - FAIRNESS_WEIGHT) * average),
+        recommendationContext: {
+            ...best.recommendationContext!,
+            relevance: explainForGroup(matches),
+            members: matches,
+        },
+    };
+}
+
+/**
+ * Profile image to show for a place in a group outing: that of the member it suits best
+ * @param location A location scored with scoreForGroup
+ * @param memberImages Profile image of each member, keyed by handle
+ * @returns An image URL, or undefined when no member it suits has one
+ */
+export function memberImageFor(location: Pick<Location, 'recommendationContext'>, memberImages: Record<string, string>): string | undefined {
+    const members = location.recommendationContext?.members ?? [];
+    const preferred = [...members.filter(member => member.satisfied), ...members.filter(member => !member.satisfied)];
+    return preferred.map(member => memberImages[member.handle]).find(Boolean);
+}
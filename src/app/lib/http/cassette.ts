@@ -0,0 +1,161 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+
+/**
+ * Fixture files ("cassettes") of recorded HTTP exchanges, replayed offline by the transport layer
+ */
+
+export interface RecordedRequest {
+    method: string;
+    url: string; // Normalized: secrets removed, query parameters sorted
+    body?: unknown; // For reference only; replay matches on method and URL
+}
+
+export interface RecordedResponse {
+    status: number;
+    headers: Record<string, string>;
+    body: unknown; // Parsed JSON when the response was JSON, otherwise text
+}
+
+export interface HttpInteraction {
+    request: RecordedRequest;
+    response: RecordedResponse;
+}
+
+// On-disk cassette format
+export interface CassetteFile {
+    // Hand-written fixture whose responses mimic the upstream API rather than being recorded from it
+    synthetic?: boolean;
+    interactions: HttpInteraction[];
+}
+
+// Query parameters and headers that carry credentials and must never be written to disk
+const SECRET_PARAMS = new Set(['key', 'api_key', 'apikey', 'access_token', 'token']);
+const SECRET_HEADERS = new Set(['authorization', 'x-api-key', 'api-key', 'cookie', 'set-cookie', 'openai-organization']);
+
+/**
+ * Normalize a URL for matching: drop credentials and sort query parameters
+ * @param url Absolute URL
+ * @returns Normalized URL
+ */
+export function normalizeUrl(url: string): string {
+    const parsed = new URL(url);
+    const params = [...parsed.searchParams.entries()]
+        .filter(([name]) => !SECRET_PARAMS.has(name.toLowerCase()))
+        .sort(([a], [b]) => a.localeCompare(b));
+
+    parsed.search = new URLSearchParams(params).toString();
+    return parsed.toString();
+}
+
+/**
+ * Remove credential headers before recording
+ */
+export function sanitizeHeaders(headers: Record<string, unknown>): Record<string, string> {
+    return Object.fromEntries(
+        Object.entries(headers)
+            .filter(([name, value]) => !SECRET_HEADERS.has(name.toLowerCase()) && value !== undefined && value !== null)
+            .map(([name, value]) => [name.toLowerCase(), String(value)])
+    );
+}
+
+/**
+ * Parse a body as JSON, falling back to the raw text
+ */
+export function parseBody(body: unknown): unknown {
+    if (typeof body !== 'string') return body;
+    try {
+        return JSON.parse(body);
+    } catch {
+        return body;
+    }
+}
+
+/**
+ * Serialize a recorded body back to the wire format
+ */
+export function serializeBody(body: unknown): string {
+    return typeof body === 'string' ? body : JSON.stringify(body);
+}
+
+/**
+ * An ordered set of recorded interactions. Each interaction is replayed once, in recording
+ * order, for requests with the same method and normalized URL.
+ */
+export class Cassette {
+    private readonly interactions: HttpInteraction[];
+    private readonly used = new Set<number>();
+
+    /**
+     * @param interactions Recorded interactions
+     * @param filePath File that newly recorded interactions are saved to
+     * @param synthetic Whether the interactions were written by hand (see CassetteFile)
+     */
+    constructor(
+        interactions: HttpInteraction[] = [],
+        private readonly filePath?: string,
+        readonly synthetic: boolean = false
+    ) {
+        this.interactions = interactions;
+    }
+
+    /**
+     * Load a cassette from disk (an empty cassette if the file doesn't exist yet)
+     * @param filePath Path to the JSON fixture file
+     */
+    static load(filePath: string): Cassette {
+        const file: CassetteFile = existsSync(filePath)
+            ? JSON.parse(readFileSync(filePath, 'utf8'))
+            : { interactions: [] };
+        return new Cassette(file.interactions, filePath, file.synthetic === true);
+    }
+
+    /**
+     * Take the next unused interaction for a request
+     * @param method HTTP method
+     * @param url Absolute request URL
+     * @returns The recorded interaction, or undefined if none is left
+     */
+    match(method: string, url: string): HttpInteraction | undefined {
+        const normalizedUrl = normalizeUrl(url);
+        const index = this.interactions.findIndex((interaction, i) =>
+            !this.used.has(i) &&
+            interaction.request.method === method.toUpperCase() &&
+            interaction.request.url === normalizedUrl
+        );
+
+        if (index === -1) return undefined;
+
+        this.used.add(index);
+        return this.interactions[index];
+    }
+
+    /**
+     * Add an interaction and save the cassette
+     */
+    record(interaction: HttpInteraction): void {
+        this.interactions.push({
+            request: {
+                ...interaction.request,
+                method: interaction.request.method.toUpperCase(),
+                url: normalizeUrl(interaction.request.url),
+            },
+            response: {
+                ...interaction.response,
+                headers: sanitizeHeaders(interaction.response.headers),
+            },
+        });
+        this.used.add(this.interactions.length - 1);
+
+        if (this.filePath) {
+            mkdirSync(path.dirname(this.filePath), { recursive: true });
+            const file: CassetteFile = { ...(this.synthetic ? { synthetic: true } : {}), interactions: this.interactions };
+            writeFileSync(this.filePath, `${JSON.stringify(file, null, 2)}\n`, 'utf8');
+        }
+    }
+
+    // Number of interactions not replayed yet
+    get remaining(): number {
+        return this.interactions.length - this.used.size;
+    }
+}
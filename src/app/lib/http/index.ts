@@ -0,0 +1,179 @@
+import path from 'path';
+import axios, { AxiosAdapter, AxiosError, AxiosHeaders, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { Cassette, parseBody, sanitizeHeaders, serializeBody } from './cassette';
+
+/**
+ * HTTP transport shared by the Exa, Google Maps and profile source clients (axios) and the
+ * OpenAI SDK (fetch). In "record" mode real exchanges are saved to a cassette file; in
+ * "replay" mode they are served from it without touching the network.
+ */
+
+export type HttpMode = 'live' | 'record' | 'replay';
+
+export interface TransportOptions {
+    mode: HttpMode;
+    cassette?: Cassette; // Required unless mode is live
+}
+
+/**
+ * Read transport configuration from HTTP_MODE and HTTP_CASSETTE
+ */
+export function loadTransportOptions(): TransportOptions {
+    const mode = (process.env.HTTP_MODE || 'live') as HttpMode;
+    if (mode === 'live') {
+        return { mode };
+    }
+
+    const cassettePath = process.env.HTTP_CASSETTE || path.join(process.cwd(), 'tests', 'fixtures', 'http', 'recorded.json');
+    return { mode, cassette: Cassette.load(cassettePath) };
+}
+
+/**
+ * Error raised in replay mode when a request has no recorded response
+ */
+export class CassetteMissError extends Error {
+    constructor(method: string, url: string) {
+        super(`No recorded response for ${method.toUpperCase()} ${url}`);
+        this.name = 'CassetteMissError';
+    }
+}
+
+/**
+ * Create an axios adapter that records to or replays from a cassette
+ * @param options Transport mode and cassette
+ * @returns The adapter
+ */
+export function createCassetteAdapter(options: TransportOptions): AxiosAdapter {
+    const { mode, cassette } = options;
+    const liveAdapter = axios.getAdapter(axios.defaults.adapter);
+
+    return async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+        const method = (config.method || 'get').toUpperCase();
+        const url = axios.getUri(config);
+
+        if (mode === 'live' || !cassette) {
+            return liveAdapter(config);
+        }
+
+        if (mode === 'record') {
+            let response: AxiosResponse;
+            try {
+                response = await liveAdapter(config);
+            } catch (error) {
+                // Record error responses too, so failures can be replayed
+                const failed = (error as AxiosError).response;
+                if (failed) {
+                    cassette.record({
+                        request: { method, url, body: parseBody(config.data) },
+                        response: { status: failed.status, headers: sanitizeHeaders({ ...failed.headers }), body: parseBody(failed.data) },
+                    });
+                }
+                throw error;
+            }
+
+            cassette.record({
+                request: { method, url, body: parseBody(config.data) },
+                response: { status: response.status, headers: sanitizeHeaders({ ...response.headers }), body: parseBody(response.data) },
+            });
+            return response;
+        }
+
+        const interaction = cassette.match(method, url);
+        if (!interaction) {
+            throw new CassetteMissError(method, url);
+        }
+
+        const { status, headers, body } = interaction.response;
+        const response: AxiosResponse = {
+            // Raw text, parsed by axios' transformResponse like a real response
+            data: serializeBody(body),
+            status,
+            statusText: '',
+            headers: new AxiosHeaders(headers),
+            config,
+            request: {},
+        };
+
+        if (config.validateStatus && !config.validateStatus(status)) {
+            throw new AxiosError(
+                `Request failed with status code ${status}`,
+                status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+                config,
+                {},
+                response
+            );
+        }
+
+        return response;
+    };
+}
+
+/**
+ * Create an axios instance using the given transport
+ * @param options Transport mode and cassette (defaults to HTTP_MODE / HTTP_CASSETTE)
+ */
+export function createHttpClient(options: TransportOptions = loadTransportOptions()): AxiosInstance {
+    return options.mode === 'live' ? axios.create() : axios.create({ adapter: createCassetteAdapter(options) });
+}
+
+/**
+ * Create a fetch implementation that records to or replays from a cassette
+ * @param options Transport mode and cassette
+ * @param liveFetch Underlying fetch used for live and record modes
+ */
+export function createCassetteFetch(options: TransportOptions, liveFetch: typeof fetch = fetch): typeof fetch {
+    const { mode, cassette } = options;
+
+    return async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+        const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+        const method = (init?.method || 'GET').toUpperCase();
+
+        if (mode === 'live' || !cassette) {
+            return liveFetch(input, init);
+        }
+
+        if (mode === 'record') {
+            const response = await liveFetch(input, init);
+            const text = await response.clone().text();
+            cassette.record({
+                request: { method, url, body: parseBody(init?.body) },
+                response: { status: response.status, headers: Object.fromEntries(response.headers.entries()), body: parseBody(text) },
+            });
+            return response;
+        }
+
+        const interaction = cassette.match(method, url);
+        if (!interaction) {
+            throw new CassetteMissError(method, url);
+        }
+
+        const { status, headers, body } = interaction.response;
+        return new Response(serializeBody(body), { status, headers });
+    };
+}
+
+// Lazy-loaded shared transport - only created when used
+let transportInstance: TransportOptions | null = null;
+const sharedTransport = () => {
+    if (!transportInstance) {
+        transportInstance = loadTransportOptions();
+    }
+    return transportInstance;
+};
+
+// Lazy-loaded shared axios instance - only created when used
+let httpClientInstance: AxiosInstance | null = null;
+export const httpClient = () => {
+    if (!httpClientInstance) {
+        httpClientInstance = createHttpClient(sharedTransport());
+    }
+    return httpClientInstance;
+};
+
+/**
+ * Fetch implementation for SDK clients, or undefined to use their default in live mode
+ */
+export const transportFetch = (): typeof fetch | undefined => {
+    const transport = sharedTransport();
+    return transport.mode === 'live' ? undefined : createCassetteFetch(transport);
+};
@@ -0,0 +1,291 @@
+import { Coordinates, Location, LocationCategory } from '../types/location';
+import { Itinerary, ItineraryLeg, ItineraryStop, SkippedStop } from '../types/itinerary';
+import { haversineKm } from './geo';
+import { earliestOpenVisit, formatLocalDateTime, minuteOfWeek, parseLocalDateTime } from './opening-hours';
+
+/**
+ * Day itinerary planning: orders recommended places into a schedule between a start and
+ * end time. Each step greedily picks the stop that can be reached (and is open) soonest,
+ * favouring places that suit the time of day and the persona's time preferences, and
+ * leaving free time to hold a place for a better time of day when the day allows it.
+ * Times are the city's local wall-clock time, handled as minutes since the Unix epoch.
+ */
+
+// Longest itinerary we plan, and most stops
+export const MAX_ITINERARY_MINUTES = 24 * 60;
+export const MAX_ITINERARY_STOPS = 25;
+
+// Typical time spent at each kind of place, in minutes
+const DWELL_MINUTES: Record<LocationCategory, number> = {
+    [LocationCategory.RESTAURANT]: 75,
+    [LocationCategory.CAFE]: 45,
+    [LocationCategory.BAR]: 90,
+    [LocationCategory.PARK]: 60,
+    [LocationCategory.MUSEUM]: 90,
+    [LocationCategory.SHOPPING]: 60,
+    [LocationCategory.ENTERTAINMENT]: 120,
+    [LocationCategory.SPORTS]: 90,
+    [LocationCategory.FITNESS]: 60,
+    [LocationCategory.EDUCATION]: 60,
+    [LocationCategory.WORK]: 60,
+    [LocationCategory.TECH]: 45,
+    [LocationCategory.ART]: 60,
+    [LocationCategory.MUSIC]: 120,
+    [LocationCategory.OUTDOOR]: 90,
+    [LocationCategory.ATTRACTION]: 60,
+    [LocationCategory.SHOP]: 30,
+};
+const DEFAULT_DWELL_MINUTES = 60;
+
+// Parts of the day, as minute-of-day ranges (night runs past midnight)
+export type DayPeriod = 'morning' | 'afternoon' | 'evening' | 'night';
+
+const DAY_PERIODS: Record<DayPeriod, [number, number]> = {
+    morning: [6 * 60, 12 * 60],
+    afternoon: [12 * 60, 17 * 60],
+    evening: [17 * 60, 22 * 60],
+    night: [21 * 60, 27 * 60],
+};
+
+// Words in a persona's time preferences that point at a part of the day
+const PERIOD_KEYWORDS: Record<DayPeriod, string[]> = {
+    morning: ['morning', 'early', 'breakfast', 'sunrise', 'dawn'],
+    afternoon: ['afternoon', 'midday', 'lunch', 'daytime'],
+    evening: ['evening', 'dinner', 'after work', 'sunset'],
+    night: ['night', 'late', 'nightlife'],
+};
+
+// Parts of the day each kind of place suits
+const CATEGORY_PERIODS: Partial<Record<LocationCategory, DayPeriod[]>> = {
+    [LocationCategory.CAFE]: ['morning', 'afternoon'],
+    [LocationCategory.RESTAURANT]: ['afternoon', 'evening'],
+    [LocationCategory.BAR]: ['evening', 'night'],
+    [LocationCategory.MUSIC]: ['evening', 'night'],
+    [LocationCategory.ENTERTAINMENT]: ['evening', 'night'],
+    [LocationCategory.PARK]: ['morning', 'afternoon'],
+    [LocationCategory.OUTDOOR]: ['morning', 'afternoon'],
+    [LocationCategory.SPORTS]: ['morning', 'afternoon'],
+    [LocationCategory.FITNESS]: ['morning'],
+};
+const DEFAULT_PERIODS: DayPeriod[] = ['morning', 'afternoon'];
+
+// Minutes a stop is "worth" when it suits the time of day, the persona, or is highly relevant
+const PERIOD_BONUS = 30;
+const PREFERENCE_BONUS = 20;
+const RELEVANCE_BONUS = 20;
+
+// How much an idle minute counts against a stop while the day has time to spare
+const SPARE_IDLE_WEIGHT = 0.1;
+
+// Travel estimates: walk short hops, take transit for longer ones
+const WALKING_MAX_KM = 1.5;
+const WALKING_KMH = 4.5;
+const TRANSIT_KMH = 18;
+const TRANSIT_OVERHEAD_MINUTES = 10; // Walking to the stop and waiting
+const DETOUR_FACTOR = 1.3; // Streets are longer than the straight line
+
+/**
+ * Typical visit length for a kind of place
+ * @param category The place's category
+ * @returns Minutes
+ */
+export function dwellMinutes(category: string): number {
+    return DWELL_MINUTES[category.toLowerCase() as LocationCategory] ?? DEFAULT_DWELL_MINUTES;
+}
+
+/**
+ * Estimate the journey between two places from their straight-line distance
+ * @param from Where the leg starts
+ * @param to Where the leg ends
+ * @returns Travel mode, distance and duration
+ */
+export function estimateLeg(from: Coordinates, to: Coordinates): ItineraryLeg {
+    const distanceKm = haversineKm(from, to) * DETOUR_FACTOR;
+    const walking = distanceKm <= WALKING_MAX_KM;
+    const durationMinutes = walking
+        ? (distanceKm / WALKING_KMH) * 60
+        : TRANSIT_OVERHEAD_MINUTES + (distanceKm / TRANSIT_KMH) * 60;
+
+    return {
+        mode: walking ? 'walking' : 'transit',
+        distanceKm: Math.round(distanceKm * 10) / 10,
+        durationMinutes: Math.ceil(durationMinutes),
+    };
+}
+
+/**
+ * Parts of the day a persona prefers, read from free-text time preferences
+ * such as "morning person" or "night owl"
+ */
+export function preferredPeriods(timePreferences: string[] = []): DayPeriod[] {
+    const text = timePreferences.join(' ').toLowerCase();
+    return (Object.keys(PERIOD_KEYWORDS) as DayPeriod[])
+        .filter(period => PERIOD_KEYWORDS[period].some(keyword => text.includes(keyword)));
+}
+
+const inPeriod = (epochMinutes: number, period: DayPeriod) => {
+    const minuteOfDay = ((epochMinutes % (24 * 60)) + 24 * 60) % (24 * 60);
+    const [start, end] = DAY_PERIODS[period];
+    return (minuteOfDay >= start && minuteOfDay < end) || minuteOfDay + 24 * 60 < end;
+};
+
+/**
+ * Validate an itinerary's start and end
+ * @param start Local "YYYY-MM-DDTHH:mm" start
+ * @param end Local "YYYY-MM-DDTHH:mm" end
+ * @returns Minutes since the epoch, or a user-facing validation error
+ */
+export function resolveItineraryWindow(start: unknown, end: unknown): { start: number; end: number } | { error: string } {
+    const startMinutes = typeof start === 'string' ? parseLocalDateTime(start) : undefined;
+    const endMinutes = typeof end === 'string' ? parseLocalDateTime(end) : undefined;
+
+    if (startMinutes === undefined || endMinutes === undefined) {
+        return { error: 'Invalid start or end time. Please use the format YYYY-MM-DDTHH:mm.' };
+    }
+    if (endMinutes <= startMinutes) {
+        return { error: 'Invalid itinerary. The end time must be after the start time.' };
+    }
+    if (endMinutes - startMinutes > MAX_ITINERARY_MINUTES) {
+        return { error: 'Invalid itinerary. Please plan at most 24 hours.' };
+    }
+
+    return { start: startMinutes, end: endMinutes };
+}
+
+interface PlannedVisit {
+    location: Location;
+    travel?: ItineraryLeg;
+    arrival: number;
+    visitStart?: number; // Undefined when the place is closed for the rest of the window
+    dwell: number;
+}
+
+/**
+ * Work out when a place could be visited next
+ * @param location The place
+ * @param from Where the previous stop was, if any
+ * @param now When the previous stop ends
+ * @param notBefore Earliest time the visit should start, to hold it for a better time of day
+ */
+function planVisit(location: Location, from: Coordinates | undefined, now: number, notBefore = now): PlannedVisit {
+    const travel = from ? estimateLeg(from, location.coordinates) : undefined;
+    const arrival = now + (travel?.durationMinutes ?? 0);
+    const earliest = Math.max(arrival, notBefore);
+    const dwell = dwellMinutes(location.category);
+
+    if (!location.schedule) {
+        return { location, travel, arrival, visitStart: earliest, dwell };
+    }
+
+    const earliestOfWeek = minuteOfWeek(earliest);
+    const open = earliestOpenVisit(location.schedule, earliestOfWeek, dwell);
+    return { location, travel, arrival, visitStart: open === undefined ? undefined : earliest + (open - earliestOfWeek), dwell };
+}
+
+const periodsFor = (location: Location) =>
+    CATEGORY_PERIODS[location.category.toLowerCase() as LocationCategory] ?? DEFAULT_PERIODS;
+
+/**
+ * The next time at or after `from` that falls in one of the given parts of the day
+ */
+function nextPeriodStart(from: number, periods: DayPeriod[]): number {
+    if (periods.some(period => inPeriod(from, period))) return from;
+
+    const midnight = from - (((from % (24 * 60)) + 24 * 60) % (24 * 60));
+    return Math.min(...[0, 24 * 60].flatMap(day => periods
+        .map(period => midnight + day + DAY_PERIODS[period][0])
+        .filter(start => start >= from)));
+}
+
+/**
+ * Plan a day itinerary
+ * @param locations The places to visit (each at most once)
+ * @param window Start and end in minutes since the epoch (see resolveItineraryWindow)
+ * @param timePreferences The persona's time preferences, e.g. "night owl"
+ * @returns Scheduled stops in visiting order, and places that did not fit
+ */
+export function planItinerary(
+    locations: Location[],
+    window: { start: number; end: number },
+    timePreferences?: string[]
+): Itinerary {
+    const preferred = preferredPeriods(timePreferences);
+    const stops: ItineraryStop[] = [];
+    let remaining = locations.filter((location, index) => locations.findIndex(other => other.id === location.id) === index);
+    let now = window.start;
+    let position: Coordinates | undefined;
+
+    type FeasibleVisit = PlannedVisit & { visitStart: number };
+    const fits = (visit: PlannedVisit): visit is FeasibleVisit =>
+        visit.visitStart !== undefined && visit.visitStart + visit.dwell <= window.end;
+
+    // Lower is better: travel and idle minutes, less what the stop is worth at that time.
+    // Idle time is cheap while the day has room to spare for the remaining stops.
+    const cost = (visit: FeasibleVisit, slack: number) => {
+        const suitsTime = periodsFor(visit.location).some(period => inPeriod(visit.visitStart, period));
+        const suitsPersona = preferred.some(period => inPeriod(visit.visitStart, period));
+        const idle = visit.visitStart - visit.arrival;
+
+        return (visit.travel?.durationMinutes ?? 0)
+            + idle * (idle <= slack ? SPARE_IDLE_WEIGHT : 1)
+            - (suitsTime ? PERIOD_BONUS : 0)
+            - (suitsTime && suitsPersona ? PREFERENCE_BONUS : 0)
+            - RELEVANCE_BONUS * (visit.location.relevanceScore ?? 0) / 100;
+    };
+
+    while (remaining.length > 0) {
+        const slack = window.end - now - remaining.reduce((total, location) => total + dwellMinutes(location.category), 0);
+
+        // Each place can go as soon as possible, or be held for a time of day that suits it
+        const feasible = remaining
+            .flatMap(location => [
+                planVisit(location, position, now),
+                planVisit(location, position, now, nextPeriodStart(now, periodsFor(location))),
+            ])
+            .filter(fits);
+        if (feasible.length === 0) break;
+
+        const next = feasible.reduce((best, visit) => (cost(visit, slack) < cost(best, slack) ? visit : best));
+        const departure = next.visitStart + next.dwell;
+
+        stops.push({
+            locationId: next.location.id,
+            name: next.location.name,
+            category: next.location.category,
+            arrival: formatLocalDateTime(next.visitStart),
+            departure: formatLocalDateTime(departure),
+            dwellMinutes: next.dwell,
+            waitMinutes: next.visitStart - next.arrival,
+            travel: next.travel,
+        });
+
+        now = departure;
+        position = next.location.coordinates;
+        remaining = remaining.filter(location => location.id !== next.location.id);
+    }
+
+    // Explain why the rest did not fit
+    const skipped: SkippedStop[] = remaining.map(location => {
+        const visit = planVisit({ ...location, schedule: undefined }, position, now);
+        const enoughTime = visit.arrival + visit.dwell <= window.end;
+
+        return {
+            locationId: location.id,
+            name: location.name,
+            reason: location.schedule && enoughTime
+                ? 'Closed for the rest of the day'
+                : 'Not enough time left in the day',
+        };
+    });
+
+    const legs = stops.flatMap(stop => (stop.travel ? [stop.travel] : []));
+
+    return {
+        start: formatLocalDateTime(window.start),
+        end: formatLocalDateTime(window.end),
+        stops,
+        skipped,
+        totalTravelMinutes: legs.reduce((total, leg) => total + leg.durationMinutes, 0),
+        totalDistanceKm: Math.round(legs.reduce((total, leg) => total + leg.distanceKm, 0) * 10) / 10,
+    };
+}
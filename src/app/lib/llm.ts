@@ -0,0 +1,263 @@
+import OpenAI, { ClientOptions } from 'openai';
+import { Budget, Coordinates, DEFAULT_CITY_NAME } from '../types/location';
+import { lookupCity } from './gazetteer';
+import { AppError } from './errors';
+import { BUDGET_PRICE_LEVELS, estimatePriceLevel } from './budget';
+import { transportFetch } from './http';
+import { ErrorCode } from '../types/errors';
+import { InterestCategory, TraitCategory } from '../types/persona';
+
+/**
+ * Provider-agnostic LLM layer used by OpenAIClient. Providers only turn a list of chat
+ * messages into a completion string; prompt engineering and parsing stay in OpenAIClient.
+ */
+
+export type LLMProviderType = 'openai' | 'openai-compatible' | 'fixture';
+
+export interface LLMConfig {
+    provider: LLMProviderType;
+    model: string;
+    temperature: number;
+    timeoutMs: number;
+    apiKey?: string;
+    baseUrl?: string; // Only used by the OpenAI-compatible provider
+    jsonMode: boolean; // Whether to request JSON response_format (some self-hosted servers lack it)
+}
+
+export interface LLMMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+// Structured hints about a request, so offline providers can answer without parsing prompts
+export interface LLMRequestHints {
+    purpose: 'persona' | 'locations';
+    handle?: string;
+    city?: { name: string; center: Coordinates };
+    count?: number;
+    exclude?: string[];
+    budget?: Budget;
+}
+
+export interface LLMCompletionRequest {
+    messages: LLMMessage[];
+    temperature?: number; // Overrides the configured temperature
+    json?: boolean; // Expect a JSON object response
+    hints: LLMRequestHints;
+}
+
+export interface LLMProvider {
+    readonly name: string;
+    readonly config: LLMConfig;
+    complete(request: LLMCompletionRequest): Promise<string>;
+}
+
+const DEFAULT_MODEL = 'gpt-4o';
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_TIMEOUT_MS = 25000; // Allows 5 seconds for processing on our side
+
+/**
+ * Read LLM configuration from environment variables
+ * @param overrides Values that take precedence over the environment
+ * @returns Resolved configuration
+ */
+export function loadLLMConfig(overrides: Partial<LLMConfig> = {}): LLMConfig {
+    // Mock mode runs fully offline unless a provider is chosen explicitly
+    const defaultProvider: LLMProviderType = process.env.USE_MOCK_DATA === 'true' ? 'fixture' : 'openai';
+    const provider = (process.env.LLM_PROVIDER || defaultProvider) as LLMProviderType;
+    const temperature = Number(process.env.LLM_TEMPERATURE);
+    const timeoutMs = Number(process.env.LLM_TIMEOUT_MS);
+
+    return {
+        provider,
+        model: process.env.LLM_MODEL || DEFAULT_MODEL,
+        temperature: Number.isFinite(temperature) && process.env.LLM_TEMPERATURE ? temperature : DEFAULT_TEMPERATURE,
+        timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : DEFAULT_TIMEOUT_MS,
+        apiKey: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY,
+        baseUrl: process.env.LLM_BASE_URL,
+        jsonMode: process.env.LLM_JSON_MODE !== 'false',
+        ...overrides,
+    };
+}
+
+/**
+ * Provider backed by the OpenAI chat completions API. Also serves OpenAI-compatible
+ * endpoints (vLLM, Ollama, LM Studio, ...) when a base URL is configured.
+ */
+export class OpenAIProvider implements LLMProvider {
+    readonly name: string;
+    readonly config: LLMConfig;
+    private client: OpenAI | null = null;
+    private readonly fetchImpl: ClientOptions['fetch'];
+
+    /**
+     * @param config Provider configuration
+     * @param fetchImpl fetch used by the SDK (defaults to the shared record/replay transport)
+     */
+    constructor(config: LLMConfig, fetchImpl: ClientOptions['fetch'] = transportFetch() as ClientOptions['fetch']) {
+        this.config = config;
+        this.fetchImpl = fetchImpl;
+        this.name = config.provider === 'openai-compatible' ? `openai-compatible(${config.baseUrl})` : 'openai';
+    }
+
+    // Initialize the client only when needed
+    private initializeClient() {
+        if (!this.client) {
+            if (this.config.provider === 'openai-compatible' && !this.config.baseUrl) {
+                throw new AppError(ErrorCode.UPSTREAM_AUTH, 'LLM_BASE_URL is required for the openai-compatible provider', { upstream: 'llm' });
+            }
+
+            if (!this.config.apiKey && this.config.provider === 'openai') {
+                throw new AppError(ErrorCode.UPSTREAM_AUTH, 'OpenAI API key is required', { upstream: 'llm' });
+            }
+
+            this.client = new OpenAI({
+                // Self-hosted servers usually ignore the key, but the SDK requires one
+                apiKey: this.config.apiKey || 'not-needed',
+                baseURL: this.config.baseUrl,
+                timeout: this.config.timeoutMs,
+                fetch: this.fetchImpl,
+            });
+        }
+
+        return this.client;
+    }
+
+    async complete(request: LLMCompletionRequest): Promise<string> {
+        const client = this.initializeClient();
+
+        const response = await client.chat.completions.create({
+            model: this.config.model,
+            messages: request.messages,
+            temperature: request.temperature ?? this.config.temperature,
+            ...(request.json && this.config.jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+        });
+
+        const content = response.choices[0]?.message?.content;
+        if (!content) {
+            throw new AppError(ErrorCode.LLM_INVALID_OUTPUT, `Empty response from ${this.name}`, { upstream: 'llm' });
+        }
+
+        return content;
+    }
+}
+
+const FIXTURE_CATEGORIES = ['restaurant', 'park', 'attraction', 'shop', 'entertainment'];
+const FIXTURE_TRAITS: Record<string, TraitCategory> = {
+    curious: TraitCategory.PERSONALITY,
+    creative: TraitCategory.PERSONALITY,
+    analytical: TraitCategory.COMMUNICATION,
+    social: TraitCategory.LIFESTYLE,
+    adventurous: TraitCategory.LIFESTYLE,
+};
+const FIXTURE_INTERESTS: Record<string, InterestCategory> = {
+    technology: InterestCategory.TECHNOLOGY,
+    food: InterestCategory.FOOD,
+    art: InterestCategory.ARTS,
+    music: InterestCategory.MUSIC,
+    outdoors: InterestCategory.ENVIRONMENT,
+};
+
+/**
+ * Deterministic offline provider. Produces stable, well-formed responses from request
+ * hints so the app can run and be tested without network access.
+ */
+export class FixtureProvider implements LLMProvider {
+    readonly name = 'fixture';
+    readonly config: LLMConfig;
+    readonly requests: LLMCompletionRequest[] = [];
+    private readonly responses: string[];
+
+    /**
+     * @param config LLM configuration
+     * @param responses Optional canned responses, returned in order before falling back to generated ones
+     */
+    constructor(config: LLMConfig, responses: string[] = []) {
+        this.config = config;
+        this.responses = [...responses];
+    }
+
+    async complete(request: LLMCompletionRequest): Promise<string> {
+        this.requests.push(request);
+
+        const canned = this.responses.shift();
+        if (canned !== undefined) {
+            return canned;
+        }
+
+        return JSON.stringify(
+            request.hints.purpose === 'persona'
+                ? this.createPersona(request.hints)
+                : this.createLocations(request.hints)
+        );
+    }
+
+    private createPersona(hints: LLMRequestHints) {
+        const handle = hints.handle || 'fixture_user';
+
+        return {
+            name: handle.charAt(0).toUpperCase() + handle.slice(1),
+            handle,
+            bio: `Fixture persona for @${handle}`,
+            traits: Object.keys(FIXTURE_TRAITS),
+            interests: Object.keys(FIXTURE_INTERESTS),
+            traitCategories: FIXTURE_TRAITS,
+            interestCategories: FIXTURE_INTERESTS,
+            locationPreferences: ['independent cafes', 'galleries', 'waterfront parks'],
+            activityPreferences: ['trying new restaurants', 'live music'],
+            timePreferences: ['evenings', 'weekend afternoons'],
+            confidence: 60,
+        };
+    }
+
+    private createLocations(hints: LLMRequestHints) {
+        const city = hints.city || lookupCity(DEFAULT_CITY_NAME)!;
+        const cityName = city.name.split(',')[0].trim();
+        const offset = hints.exclude?.length || 0;
+        const count = hints.count || 5;
+        const budgetRange = hints.budget ? BUDGET_PRICE_LEVELS[hints.budget] : undefined;
+
+        const locations = Array.from({ length: count }, (_, i) => {
+            const index = offset + i;
+            const category = FIXTURE_CATEGORIES[index % FIXTURE_CATEGORIES.length];
+            // Spread places on a small deterministic spiral around the city center
+            const angle = index * 2.4;
+            const distance = 0.005 * (1 + index);
+
+            return {
+                name: `${cityName} Fixture ${category.charAt(0).toUpperCase() + category.slice(1)} ${index + 1}`,
+                address: `${100 + index * 10} Fixture St, ${city.name}`,
+                description: `A deterministic ${category} used for offline runs.`,
+                category,
+                coordinates: {
+                    lat: Number((city.center.lat + Math.sin(angle) * distance).toFixed(6)),
+                    lng: Number((city.center.lng + Math.cos(angle) * distance).toFixed(6)),
+                },
+                rating: 4.0 + (index % 10) / 10,
+                // Stay within the requested budget, cycling through its price levels
+                priceLevel: budgetRange
+                    ? budgetRange.min + (index % (budgetRange.max - budgetRange.min + 1))
+                    : estimatePriceLevel(category),
+            };
+        });
+
+        return { locations };
+    }
+}
+
+/**
+ * Create the LLM provider selected by configuration
+ * @param config Configuration (defaults to environment variables)
+ * @returns The provider instance
+ */
+export function createLLMProvider(config: LLMConfig = loadLLMConfig()): LLMProvider {
+    switch (config.provider) {
+        case 'fixture':
+            return new FixtureProvider(config);
+        case 'openai':
+        case 'openai-compatible':
+            return new OpenAIProvider(config);
+        default:
+            throw new Error(`Unknown LLM provider: ${config.provider}`);
+    }
+}
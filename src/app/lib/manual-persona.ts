@@ -0,0 +1,108 @@
+import { ManualPersonaInput, PersonaGenerationContext, PreferenceAnswers } from '../types/persona';
+
+/**
+ * Persona input for people without a usable public profile (private or brand-new accounts):
+ * a pasted bio and sample posts, or answers to a short preference questionnaire. Turned
+ * straight into persona generation context, so no profile source is searched.
+ */
+
+export const MAX_MANUAL_NAME_LENGTH = 100;
+export const MAX_MANUAL_BIO_LENGTH = 2000;
+export const MAX_MANUAL_POSTS = 30;
+export const MAX_MANUAL_POST_LENGTH = 1000;
+export const MAX_ANSWER_LENGTH = 300;
+
+export interface PreferenceQuestion {
+    id: string;
+    question: string;
+    options?: string[]; // Choices; free text when omitted
+    placeholder?: string;
+}
+
+export const PREFERENCE_QUESTIONS: PreferenceQuestion[] = [
+    { id: 'interests', question: 'What are you into?', placeholder: 'e.g. jazz, climbing, board games, architecture' },
+    {
+        id: 'outing',
+        question: 'What is your ideal afternoon out?',
+        options: ['Museums and galleries', 'Parks and the outdoors', 'Shops and markets', 'Cafes and people-watching', 'Live shows and nightlife'],
+    },
+    {
+        id: 'food',
+        question: 'What do you like to eat and drink?',
+        options: ['Street food and casual spots', 'Trendy restaurants', 'Fine dining', 'Coffee and bakeries', 'Craft beer and cocktails'],
+    },
+    {
+        id: 'pace',
+        question: 'How do you like to explore?',
+        options: ['Slow and relaxed', 'Fit in as much as possible', 'Off the beaten path', 'The famous highlights'],
+    },
+    { id: 'company', question: 'Who do you usually go out with?', options: ['On my own', 'With a partner', 'With friends', 'With kids'] },
+    { id: 'time', question: 'When are you usually out?', options: ['Early mornings', 'Afternoons', 'Evenings', 'Late nights'] },
+];
+
+// Answered questions as "Question? Answer" lines, in questionnaire order
+function answerLines(answers: PreferenceAnswers = {}): string[] {
+    return PREFERENCE_QUESTIONS
+        .filter(question => answers[question.id]?.trim())
+        .map(question => `${question.question} ${answers[question.id].trim()}`);
+}
+
+// Pasted posts without blank entries
+const cleanPosts = (posts: string[] = []) => posts.map(post => post.trim()).filter(Boolean);
+
+/**
+ * Check manual persona input from a request body
+ * @returns An error message, or undefined when a persona can be generated from it
+ */
+export function validateManualPersonaInput(input: unknown): string | undefined {
+    if (!input || typeof input !== 'object') {
+        return 'Invalid request. Please provide a bio, some posts or questionnaire answers.';
+    }
+
+    const { name, bio, posts, answers } = input as Record<string, unknown>;
+    if (name !== undefined && (typeof name !== 'string' || name.length > MAX_MANUAL_NAME_LENGTH)) {
+        return `Invalid name. Please use at most ${MAX_MANUAL_NAME_LENGTH} characters.`;
+    }
+    if (bio !== undefined && (typeof bio !== 'string' || bio.length > MAX_MANUAL_BIO_LENGTH)) {
+        return `Invalid bio. Please use at most ${MAX_MANUAL_BIO_LENGTH} characters.`;
+    }
+    if (posts !== undefined && (!Array.isArray(posts) || posts.some(post => typeof post !== 'string' || post.length > MAX_MANUAL_POST_LENGTH))) {
+        return `Invalid posts. Please paste posts of at most ${MAX_MANUAL_POST_LENGTH} characters each.`;
+    }
+    if (Array.isArray(posts) && posts.length > MAX_MANUAL_POSTS) {
+        return `Too many posts. Please paste at most ${MAX_MANUAL_POSTS}.`;
+    }
+    if (answers !== undefined && (
+        !answers || typeof answers !== 'object' || Array.isArray(answers) ||
+        Object.entries(answers).some(([id, answer]) =>
+            !PREFERENCE_QUESTIONS.some(question => question.id === id) ||
+            typeof answer !== 'string' ||
+            answer.length > MAX_ANSWER_LENGTH
+        )
+    )) {
+        return 'Invalid questionnaire answers. Please answer the questions shown.';
+    }
+
+    const manual = input as ManualPersonaInput;
+    if (!manual.bio?.trim() && cleanPosts(manual.posts).length === 0 && answerLines(manual.answers).length === 0) {
+        return 'Please paste a bio or some posts, or answer at least one question.';
+    }
+    return undefined;
+}
+
+/**
+ * Persona generation context from manual input (see validateManualPersonaInput)
+ * @param input Pasted text and/or questionnaire answers
+ */
+export function manualPersonaContext(input: ManualPersonaInput): PersonaGenerationContext {
+    const questionnaire = answerLines(input.answers);
+
+    return {
+        recentTweets: cleanPosts(input.posts),
+        bio: input.bio?.trim() ?? '',
+        handle: '',
+        selfDescribed: true,
+        ...(input.name?.trim() ? { name: input.name.trim() } : {}),
+        ...(questionnaire.length > 0 ? { questionnaire } : {}),
+    };
+}
@@ -1,46 +1,87 @@
-import OpenAI from 'openai';
 import { OpenAIPersonaResponse } from '../types/api';
-import { PersonaGenerationContext } from '../types/persona';
-import { Location } from '../types/location';
+import {
+    InterestCategory,
+    PartialEnhancedPersona,
+    PersonaGenerationContext,
+    ProfileSourceType,
+    PROFILE_SOURCE_LABELS,
+    TraitCategory,
+} from '../types/persona';
+import { Budget, Location, CityContext, PlaceFeedback } from '../types/location';
+import { getCityLandmarks } from './gazetteer';
+import { BUDGET_PRICE_LEVELS, fitsBudget, withPriceLevel } from './budget';
+import { CategoryGroup, groupInterests, groupTraits } from './persona';
+import { LLMCompletionRequest, LLMProvider, createLLMProvider } from './llm';
+import { fromUpstreamError } from './errors';
+import {
+    LLMValidationError,
+    LocationCandidate,
+    SchemaIssue,
+    SchemaResult,
+    formatIssues,
+    validateLocations,
+    validatePersona,
+} from './schemas';
 import { v4 as uuidv4 } from 'uuid';
 
+// How many times a model is asked to fix output that fails schema validation
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Number of location recommendations per request
+export const DEFAULT_LOCATION_COUNT = 5;
+export const MIN_LOCATION_COUNT = 3;
+export const MAX_LOCATION_COUNT = 20;
+
+export interface LocationRecommendationOptions {
+    count?: number; // How many locations to return (defaults to DEFAULT_LOCATION_COUNT)
+    exclude?: string[]; // Names of places already shown, which must not be recommended again
+    excludeAddresses?: string[]; // Addresses of places already shown, which must not be recommended again
+    category?: string; // Only recommend places in this category, e.g. when replacing a single place
+    budget?: Budget; // Spending level the places should fit
+    group?: PartialEnhancedPersona[]; // Members of a group outing, described one by one in the prompt
+    feedback?: PlaceFeedback[]; // Places the user liked or disliked, to lean toward or away from
+}
+
 /**
- * Enhanced Client for interacting with OpenAI API with integrated prompt engineering
+ * Enhanced Client for generating personas and recommendations with integrated prompt engineering.
+ * The underlying model is supplied by an LLMProvider (OpenAI, OpenAI-compatible or fixture).
  */
 export class OpenAIClient {
-    private client: OpenAI | null = null;
-    private apiKey: string | undefined;
+    private provider: LLMProvider | null;
 
-    constructor(apiKey?: string) {
-        // Store the API key but don't initialize the client yet
-        this.apiKey = apiKey || process.env.OPENAI_API_KEY;
+    constructor(provider?: LLMProvider) {
+        // Store the provider but don't create one from configuration until needed
+        this.provider = provider || null;
     }
 
-    // Initialize the client only when needed
-    private initializeClient() {
-        if (!this.client) {
-            if (!this.apiKey) {
-                throw new Error('OpenAI API key is required');
-            }
-
-            this.client = new OpenAI({
-                apiKey: this.apiKey,
-                timeout: 25000, // 25 second timeout (allowing 5 seconds for processing on our side)
-            });
+    // Initialize the provider only when needed
+    private getProvider(): LLMProvider {
+        if (!this.provider) {
+            this.provider = createLLMProvider();
         }
 
-        return this.client;
+        return this.provider;
     }
 
     /**
      * Creates an optimized system prompt for persona generation
+     * @param source The network the profile data came from
+     * @param selfDescribed Whether the data was written by the user rather than read from a profile
      * @returns Engineered system prompt
      */
-    private createPersonaSystemPrompt(): string {
+    private createPersonaSystemPrompt(source: ProfileSourceType, selfDescribed = false): string {
+        const sourceDescription = source === 'x' ? 'X (formerly Twitter)' : PROFILE_SOURCE_LABELS[source];
+        const postDescription = source === 'github' ? 'public repositories' : 'posts';
+        const introduction = selfDescribed
+            ? `You are an expert at understanding people from how they describe themselves.
+      Your task is to create a detailed persona from what someone told us about themselves: a bio, sample posts
+      and/or answers to a short preference questionnaire. Treat questionnaire answers as direct statements of preference.`
+            : `You are an expert at understanding people based on their social media presence.
+      Your task is to create a detailed persona based on someone's ${sourceDescription} ${postDescription} and bio.
+      Analyze the content, style, interests, and values expressed in their posts to build this persona.`;
+
         return `
-      You are an expert at understanding people based on their social media presence.
-      Your task is to create a detailed persona based on someone's X (formerly Twitter) posts and bio.
-      Analyze the content, style, interests, and values expressed in their posts to build this persona.
+      ${introduction}
       
       Focus on identifying:
       1. Personality traits (e.g., analytical, creative, empathetic)
@@ -52,14 +93,24 @@ export class OpenAIClient {
       Return a JSON object with the following structure:
       {
         "name": "Their name from the data provided (IMPORTANT: Do NOT use 'Unknown User' - if you can't determine the full name, use their handle name with proper capitalization)",
-        "handle": "Their X handle (without the @ symbol)",
+        "handle": ${selfDescribed ? '"" (there is no handle)' : `"Their ${PROFILE_SOURCE_LABELS[source]} handle (without the @ symbol)"`},
         "bio": "A concise 1-2 sentence description of who they are",
         "traits": ["trait1", "trait2", "trait3", "trait4", "trait5"],
-        "interests": ["interest1", "interest2", "interest3", "interest4", "interest5"]
+        "interests": ["interest1", "interest2", "interest3", "interest4", "interest5"],
+        "traitCategories": {"trait1": "personality", ...},
+        "interestCategories": {"interest1": "technology", ...},
+        "locationPreferences": ["kinds of places they would enjoy, e.g. quiet cafes, live music venues"],
+        "activityPreferences": ["things they like to do, e.g. hiking, browsing bookstores"],
+        "timePreferences": ["when they are likely out and about, e.g. early mornings, late nights"],
+        "confidence": 0-100
       }
       
       The traits should represent personality characteristics, communication style, and values.
       The interests should be specific topics, activities, or areas they seem interested in.
+      Assign every trait one of these categories: ${Object.values(TraitCategory).join(', ')}.
+      Assign every interest one of these categories: ${Object.values(InterestCategory).join(', ')}.
+      The confidence is how well the data supports this persona: use a low score (below 40) for sparse or
+      ambiguous data and a high score (above 75) only when many posts clearly show the same traits and interests.
       Be specific and precise in your analysis. Base your assessment purely on the provided data.
       
       If there isn't enough information to determine specific traits or interests, make educated guesses
@@ -69,11 +120,11 @@ export class OpenAIClient {
 
     /**
      * Creates a user prompt for persona generation based on context
-     * @param context X profile data to use as context
+     * @param context Social profile data to use as context
      * @returns Engineered user prompt
      */
     private createPersonaUserPrompt(context: PersonaGenerationContext): string {
-        const { recentTweets, bio, profileDescription, handle } = context;
+        const { recentTweets, bio, profileDescription, handle, name, source = 'x' } = context;
 
         // Extract handle from context to use for fallback name
         const userHandle = handle || '';
@@ -85,13 +136,14 @@ export class OpenAIClient {
             .join('\n');
 
         return `
-      Here's information from an X (Twitter) user's profile:
+      Here's information from a ${source === 'x' ? 'X (Twitter)' : PROFILE_SOURCE_LABELS[source]} user's profile:
       
       Handle: ${userHandle}
+      ${name ? `Display name: ${name}\n` : ''}
       ${bio ? `Bio: ${bio}\n\n` : ''}
       ${profileDescription ? `Profile description: ${profileDescription}\n\n` : ''}
       
-      Recent posts:
+      ${source === 'github' ? 'Recent repositories' : 'Recent posts'}:
       ${tweetList}
       
       Based on this information, create a persona for this user following the format in your instructions.
@@ -103,50 +155,60 @@ export class OpenAIClient {
     }
 
     /**
-     * Generate a structured persona based on X profile data
-     * @param context X profile data to use as context
+     * Creates a user prompt for persona generation from what the user wrote about themselves
+     * @param context Pasted bio and posts and/or questionnaire answers
+     * @returns Engineered user prompt
+     */
+    private createSelfDescribedPersonaUserPrompt(context: PersonaGenerationContext): string {
+        const { recentTweets, bio, name, questionnaire = [] } = context;
+
+        return `
+      Here's what a user told us about themselves:
+      
+      ${name ? `Name: ${name}\n` : ''}
+      ${bio ? `About them: ${bio}\n\n` : ''}
+      ${recentTweets.length > 0 ? `Sample posts:\n${recentTweets.slice(0, 22).map(post => `• ${post}`).join('\n')}\n\n` : ''}
+      ${questionnaire.length > 0 ? `Questionnaire answers:\n${questionnaire.map(answer => `• ${answer}`).join('\n')}\n` : ''}
+      
+      Based on this information, create a persona for this user following the format in your instructions.
+      Focus especially on traits and interests that might influence what locations they would enjoy visiting.
+      
+      IMPORTANT: ${name ? `Use "${name}" as the name.` : 'They did not give a name, so use "You" as the name.'}
+    `;
+    }
+
+    /**
+     * Generate a structured persona based on social profile data
+     * @param context Social profile data to use as context
      * @returns Generated persona
      */
     async generatePersona(context: PersonaGenerationContext): Promise<OpenAIPersonaResponse> {
         try {
-            // Initialize client when method is called
-            const client = this.initializeClient();
-
             // Extract handle from context for fallback
             const handle = context.handle || '';
 
             // Get optimized prompts
-            const systemPrompt = this.createPersonaSystemPrompt();
-            const userPrompt = this.createPersonaUserPrompt({
-                ...context,
-                handle: handle,
-            });
-
-            // Call OpenAI API
-            const response = await client.chat.completions.create({
-                model: 'gpt-4o',
-                messages: [
-                    { role: 'system', content: systemPrompt },
-                    { role: 'user', content: userPrompt }
-                ],
-                temperature: 0.7,
-                response_format: { type: 'json_object' },
-            });
-
-            // Parse response from OpenAI
-            const content = response.choices[0]?.message?.content;
-
-            if (!content) {
-                throw new Error('Failed to generate persona: Empty response from OpenAI');
-            }
-
-            // Parse the JSON response
-            const personaData = JSON.parse(content) as OpenAIPersonaResponse;
+            const systemPrompt = this.createPersonaSystemPrompt(context.source || 'x', context.selfDescribed);
+            const userPrompt = context.selfDescribed
+                ? this.createSelfDescribedPersonaUserPrompt(context)
+                : this.createPersonaUserPrompt({
+                    ...context,
+                    handle: handle,
+                });
 
-            // Validate response structure
-            if (!personaData.name || !personaData.traits || !personaData.interests) {
-                throw new Error('Failed to generate persona: Invalid response format');
-            }
+            // Call the LLM provider and validate the response against the persona schema
+            const { data: personaData } = await this.completeValidated(
+                {
+                    messages: [
+                        { role: 'system', content: systemPrompt },
+                        { role: 'user', content: userPrompt }
+                    ],
+                    json: true,
+                    hints: { purpose: 'persona', handle },
+                },
+                validatePersona,
+                'persona'
+            );
 
             // Ensure we never return "Unknown User" as the name
             if (personaData.name === 'Unknown User') {
@@ -157,174 +219,306 @@ export class OpenAIClient {
             personaData.handle = handle;
 
             return personaData;
-        } catch (error: any) {
+        } catch (error) {
             console.error('Error generating persona:', error);
-            
-            // Check if it's a timeout error
-            if (error.code === 'ETIMEDOUT' || error.code === 'ESOCKETTIMEDOUT' || 
-                (error.message && error.message.includes('timeout'))) {
-                throw new Error('Request timed out. Please try again later.');
-            }
-            
-            throw new Error('Failed to generate persona');
+
+            // Classify provider failures (timeouts, rate limits, auth) as typed errors
+            throw fromUpstreamError(error, 'llm');
         }
     }
     
+    /**
+     * Describe a persona for location prompts, grouping traits and interests by category
+     * and listing place, activity and time preferences when the persona has them
+     * @param persona The persona to describe
+     * @returns Prompt lines describing the persona
+     */
+    private describePersona(persona: PartialEnhancedPersona): string {
+        const lines = [`Name: ${persona.name}`, `Bio: ${persona.bio}`];
+        const describeGroups = (groups: CategoryGroup[]) =>
+            groups.map(group => `  - ${group.label}: ${group.items.join(', ')}`);
+
+        lines.push('Traits:', ...describeGroups(groupTraits(persona)));
+        lines.push('Interests:', ...describeGroups(groupInterests(persona)));
+
+        if (persona.locationPreferences?.length) {
+            lines.push(`Enjoys places like: ${persona.locationPreferences.join('; ')}`);
+        }
+        if (persona.activityPreferences?.length) {
+            lines.push(`Likes to: ${persona.activityPreferences.join('; ')}`);
+        }
+        if (persona.timePreferences?.length) {
+            lines.push(`Usually out: ${persona.timePreferences.join('; ')}`);
+        }
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Describe the members of a group outing for location prompts
+     * @param members The group's personas
+     * @returns Prompt lines asking for places that balance the whole group, then each member
+     */
+    private describeGroup(members: PartialEnhancedPersona[]): string {
+        return [
+            `This is a group outing for ${members.length} people. Balance everyone's traits and interests:`,
+            'every member should have at least one place they will love, and as many places as possible should suit several members.',
+            'In each description, say which members the place suits and why.',
+            ...members.map((member, index) => `\nMember ${index + 1}:\n${this.describePersona(member)}`),
+        ].join('\n');
+    }
+
+    /**
+     * Describe the user's likes and dislikes for location prompts
+     * @param feedback Rated places
+     * @returns Prompt lines, or an empty string without feedback
+     */
+    private describeFeedback(feedback: PlaceFeedback[]): string {
+        if (feedback.length === 0) return '';
+
+        const describe = (verdict: PlaceFeedback['verdict']) => feedback
+            .filter(item => item.verdict === verdict)
+            .map(item => `  - ${item.name} (${item.category}): ${item.description}`);
+        const liked = describe('like');
+        const disliked = describe('dislike');
+
+        return [
+            'They rated some earlier recommendations.',
+            ...(liked.length > 0 ? ['Liked:', ...liked] : []),
+            ...(disliked.length > 0 ? ['Disliked:', ...disliked] : []),
+            'Lean toward the kinds of places, categories and atmosphere they liked, and away from what they disliked.',
+            'Do not recommend any of the rated places again.',
+        ].join('\n');
+    }
+
     /**
      * Creates an optimized system prompt for location recommendations
+     * @param city The city to recommend locations in
+     * @param count How many locations to ask for
      * @returns Engineered system prompt for locations
      */
-    private createLocationSystemPrompt(): string {
+    private createLocationSystemPrompt(city: CityContext, count: number): string {
+        const { lat, lng } = city.center;
+
         return `
-        You are a Toronto local expert and guide. Your task is to recommend specific, real places in Toronto 
+        You are a ${city.name} local expert and guide. Your task is to recommend specific, real places in ${city.name} 
         that would appeal to a person based on their interests and personality traits.
         
         IMPORTANT RULES:
-        1. ONLY recommend real, popular, and well-known locations in Toronto.
+        1. ONLY recommend real, popular, and well-known locations in ${city.name}.
         2. Each location MUST be unique - no duplicates by name or address.
         3. Verify that each business/place actually exists.
         4. Only recommend from these categories: restaurants, shops, attractions, parks, and entertainment venues.
         5. For all personas, diversify recommendations (e.g., recommend a park or museum instead of only tech spots for tech people).
         6. Include the OFFICIAL website URL for each location - NOT Google Maps links.
         7. Only include website URLs if they are actual business websites. If you don't know the real website, omit the website field.
-        8. Provide reasonably accurate geographic coordinates within Toronto.
-        9. Give EXACTLY 5 different locations - not 4, not 6.
+        8. Provide reasonably accurate geographic coordinates within ${city.radiusKm}km of the city center (${lat.toFixed(4)}, ${lng.toFixed(4)}).
+        9. Give EXACTLY ${count} different locations - not ${count - 1}, not ${count + 1}.
         10. If multiple similar locations exist at the same address, only include ONE of them.
         
         Format your response as a JSON object with this exact structure:
         {
-          "name": "Location Name",
-          "address": "Exact Toronto address",
-          "description": "Why this matches the persona (2-3 sentences)",
-          "category": "One of: restaurant, shop, attraction, park, entertainment",
-          "coordinates": {"lat": 43.xxxx, "lng": -79.xxxx},
-          "rating": 4.x, 
-          "website": "https://real-official-website.com" (ONLY include if you know the real website)
+          "locations": [
+            {
+              "name": "Location Name",
+              "address": "Exact street address in ${city.name}",
+              "description": "Why this matches the persona (2-3 sentences)",
+              "category": "One of: restaurant, shop, attraction, park, entertainment",
+              "coordinates": {"lat": ${lat.toFixed(1)}xxx, "lng": ${lng.toFixed(1)}xxx},
+              "rating": 4.x (between 1 and 5),
+              "website": "https://real-official-website.com" (ONLY include if you know the real website),
+              "priceLevel": 0-4 (0 free, 1 inexpensive, 2 moderate, 3 expensive, 4 very expensive)
+            }
+          ]
         }
         `;
     }
     
     /**
-     * Generate location recommendations in Toronto based on persona
+     * Call the provider and validate the JSON response, feeding validation errors back
+     * to the model until it produces a valid payload or repair attempts run out
+     * @param request The completion request
+     * @param validate Schema validator for the parsed response
+     * @param what Description of the payload for error messages
+     * @returns The validated payload and any issues for dropped items
+     */
+    private async completeValidated<T>(
+        request: LLMCompletionRequest,
+        validate: (input: unknown) => SchemaResult<T>,
+        what: string
+    ): Promise<{ data: T; issues: SchemaIssue[] }> {
+        const provider = this.getProvider();
+        const messages = [...request.messages];
+        let issues: SchemaIssue[] = [];
+
+        for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+            const content = await provider.complete({ ...request, messages });
+
+            let parsed: unknown;
+            try {
+                parsed = JSON.parse(content);
+            } catch {
+                parsed = undefined;
+            }
+
+            if (parsed === undefined) {
+                issues = [{ path: '', message: 'response is not valid JSON' }];
+            } else {
+                const result = validate(parsed);
+                if (result.success) {
+                    return { data: result.data, issues: result.issues };
+                }
+                issues = result.issues;
+            }
+
+            console.warn(`Invalid ${what} (attempt ${attempt + 1}): ${formatIssues(issues)}`);
+
+            // Ask the model to fix its own output
+            messages.push(
+                { role: 'assistant', content },
+                {
+                    role: 'user',
+                    content: `Your response failed validation with these errors:\n${formatIssues(issues)}\n\nReturn the corrected JSON object only, following the format in your instructions.`,
+                }
+            );
+        }
+
+        throw new LLMValidationError(what, issues);
+    }
+
+    /**
+     * Generate location recommendations in a city based on persona
      * @param persona The persona to generate recommendations for
+     * @param city The resolved city to recommend locations in
+     * @param options Number of locations, places to exclude, category, budget, group members and feedback
      * @returns Array of recommended locations
      */
-    async generateLocationRecommendations(persona: OpenAIPersonaResponse): Promise<Location[]> {
-        // Initialize client when method is called
-        const client = this.initializeClient();
+    async generateLocationRecommendations(
+        persona: PartialEnhancedPersona,
+        city: CityContext,
+        options: LocationRecommendationOptions = {}
+    ): Promise<Location[]> {
+        // Initialize provider when method is called
+        const provider = this.getProvider();
+        const cityHint = { name: city.name, center: city.center };
+        const validate = (input: unknown) => validateLocations(input, city);
+        const count = options.count ?? DEFAULT_LOCATION_COUNT;
+        const excluded = options.exclude ?? [];
+        const excludedAddresses = options.excludeAddresses ?? [];
+        const personaDescription = options.group?.length ? this.describeGroup(options.group) : this.describePersona(persona);
+        const feedbackDescription = this.describeFeedback(options.feedback ?? []);
         
-        // Create a batch request for all 5 locations at once to ensure proper deduplication
-        const systemPrompt = this.createLocationSystemPrompt();
+        // Create a batch request for all locations at once to ensure proper deduplication
+        const systemPrompt = this.createLocationSystemPrompt(city, count);
+
+        // Places the user has already seen must not come back
+        const exclusionNote = [
+            excluded.length > 0 ? `- NOT be any of these places, which were already recommended: ${excluded.join(', ')}` : '',
+            excludedAddresses.length > 0 ? `- NOT be at any of these addresses: ${excludedAddresses.join('; ')}` : '',
+        ].filter(Boolean).join('\n        ');
+
+        // Replacements can be asked to stay in the category of the place they replace
+        const categoryNote = options.category
+            ? `- All be in the "${options.category}" category`
+            : '- Be from different categories (restaurant, shop, attraction, park, entertainment)';
+
+        // Keep places within the requested spending level
+        const budgetNote = options.budget
+            ? `- Fit a ${options.budget} budget: only places with a priceLevel between ${BUDGET_PRICE_LEVELS[options.budget].min} and ${BUDGET_PRICE_LEVELS[options.budget].max}`
+            : '';
         
-        // Create a user prompt that emphasizes the need for 5 unique locations
+        // Create a user prompt that emphasizes the need for unique locations
         const userPrompt = `
-        Based on this persona, recommend EXACTLY 5 specific locations in Toronto that would appeal to them:
+        Based on this persona, recommend EXACTLY ${count} specific locations in ${city.name} that would appeal to them:
+        
+        ${personaDescription}
         
-        Name: ${persona.name}
-        Bio: ${persona.bio}
-        Traits: ${persona.traits.join(', ')}
-        Interests: ${persona.interests.join(', ')}
+        ${feedbackDescription}
         
         YOUR RECOMMENDATIONS MUST:
-        - Include EXACTLY 5 unique locations (not 4, not 6)
+        - Include EXACTLY ${count} unique locations (not ${count - 1}, not ${count + 1})
         - Have no duplicates (by name or address)
-        - Be real, popular places that actually exist in Toronto
-        - Be from different categories (restaurant, shop, attraction, park, entertainment)
+        - Be real, popular places that actually exist in ${city.name}
+        ${categoryNote}
         - Include website URLs for this location
         - Be well-known and popular spots
         - If this is a tech persona, include diverse recommendations beyond tech (parks, museums, etc.)
+        ${exclusionNote}
+        ${budgetNote}
         
-        Return as a JSON array with 5 location objects following the format in your instructions.
+        Return a JSON object with a "locations" array of ${count} location objects following the format in your instructions.
         `;
+
+        // Describe rejected locations so follow-up requests don't repeat the mistakes
+        const describeRejections = (issues: SchemaIssue[]) => issues.length > 0
+            ? `Some earlier locations were rejected for these reasons, avoid repeating them: ${formatIssues(issues)}\n`
+            : '';
         
         try {
             // Make the API call
-            const response = await client.chat.completions.create({
-                model: 'gpt-4o',
-                messages: [
-                    { role: 'system', content: systemPrompt },
-                    { role: 'user', content: userPrompt }
-                ],
-                temperature: 0.7,
-                response_format: { type: 'json_object' },
-            });
-            
-            // Parse response from OpenAI
-            const content = response.choices[0]?.message?.content;
-            
-            if (!content) {
-                throw new Error('Failed to generate locations: Empty response from OpenAI');
-            }
-            
-            // Parse the JSON response
-            const parsedContent = JSON.parse(content);
-            
-            // Handle different response formats (array or object with locations property)
-            let locationData: any[] = [];
-            if (Array.isArray(parsedContent)) {
-                locationData = parsedContent;
-            } else if (parsedContent.locations && Array.isArray(parsedContent.locations)) {
-                locationData = parsedContent.locations;
-            } else {
-                // Try to find any array property in the response
-                const arrayProperties = Object.keys(parsedContent).filter(key => 
-                    Array.isArray(parsedContent[key]) && parsedContent[key].length > 0
-                );
-                
-                if (arrayProperties.length > 0) {
-                    locationData = parsedContent[arrayProperties[0]];
-                } else {
-                    throw new Error('Invalid location data format returned');
-                }
-            }
-            
-            // Validate we have 5 locations
-            if (locationData.length < 5) {
-                console.warn(`Only received ${locationData.length} locations, making additional request for the missing locations`);
-                
-                // Make another request to get additional locations
-                const additionalResponse = await client.chat.completions.create({
-                    model: 'gpt-4o',
+            const initial = await this.completeValidated(
+                {
                     messages: [
                         { role: 'system', content: systemPrompt },
-                        { role: 'user', content: `
-                            Based on this persona, recommend ${5 - locationData.length} MORE specific locations in Toronto 
-                            that would appeal to them, different from these locations:
-                            ${locationData.map(loc => loc.name).join(', ')}
-                            
-                            Name: ${persona.name}
-                            Bio: ${persona.bio}
-                            Traits: ${persona.traits.join(', ')}
-                            Interests: ${persona.interests.join(', ')}
-                            
-                            Follow the same format as before.
-                        `}
+                        { role: 'user', content: userPrompt }
                     ],
-                    temperature: 0.7,
-                    response_format: { type: 'json_object' },
-                });
-                
-                const additionalContent = additionalResponse.choices[0]?.message?.content;
+                    json: true,
+                    hints: { purpose: 'locations', city: cityHint, count, exclude: excluded, budget: options.budget },
+                },
+                validate,
+                'location recommendations'
+            );
+            let locationData = initial.data;
+            
+            // Validate we have enough locations
+            if (locationData.length < count) {
+                console.warn(`Only received ${locationData.length} valid locations, making additional request for the missing locations`);
                 
-                if (additionalContent) {
-                    const additionalData = JSON.parse(additionalContent);
-                    let additionalLocations: any[] = [];
-                    
-                    if (Array.isArray(additionalData)) {
-                        additionalLocations = additionalData;
-                    } else if (additionalData.locations && Array.isArray(additionalData.locations)) {
-                        additionalLocations = additionalData.locations;
-                    }
+                // Make another request to get additional locations
+                try {
+                    const additional = await this.completeValidated(
+                        {
+                            messages: [
+                                { role: 'system', content: systemPrompt },
+                                { role: 'user', content: `
+                                    Based on this persona, recommend ${count - locationData.length} MORE specific locations in ${city.name} 
+                                    that would appeal to them, different from these locations:
+                                    ${[...excluded, ...locationData.map(loc => loc.name)].join(', ')}
+                                    ${describeRejections(initial.issues)}
+                                    ${personaDescription}
+                                    ${feedbackDescription}
+                                    ${budgetNote}
+                                    ${options.category ? categoryNote : ''}
+                                    
+                                    Follow the same format as before.
+                                `}
+                            ],
+                            json: true,
+                            hints: {
+                                purpose: 'locations',
+                                city: cityHint,
+                                count: count - locationData.length,
+                                exclude: [...excluded, ...locationData.map(loc => loc.name)],
+                                budget: options.budget,
+                            },
+                        },
+                        validate,
+                        'location recommendations'
+                    );
                     
                     // Add the new locations to our existing ones
-                    locationData = [...locationData, ...additionalLocations];
+                    locationData = [...locationData, ...additional.data];
+                } catch (additionalError) {
+                    // Keep the valid locations so far; the final request and landmarks can still fill the gap
+                    if (!(additionalError instanceof LLMValidationError)) throw additionalError;
+                    console.warn('Additional location request could not be repaired:', additionalError.message);
                 }
             }
             
-            // Deduplicate locations by name and address
-            const seenNames = new Set<string>();
-            const seenAddresses = new Set<string>();
-            const uniqueLocations: any[] = [];
+            // Deduplicate locations by name and address, treating excluded places as already seen
+            const seenNames = new Set<string>(excluded.map(name => name.toLowerCase().trim()));
+            const seenAddresses = new Set<string>(excludedAddresses.map(address => address.toLowerCase().trim()));
+            const uniqueLocations: LocationCandidate[] = [];
             
             for (const location of locationData) {
                 const normalizedName = location.name.toLowerCase().trim();
@@ -339,60 +533,50 @@ export class OpenAIClient {
                 seenAddresses.add(normalizedAddress);
                 uniqueLocations.push(location);
                 
-                // Once we have 5 unique locations, we're done
-                if (uniqueLocations.length >= 5) {
+                // Once we have enough unique locations, we're done
+                if (uniqueLocations.length >= count) {
                     break;
                 }
             }
             
-            // If we still don't have 5 locations, make one last attempt
-            if (uniqueLocations.length < 5) {
+            // If we still don't have enough locations, make one last attempt
+            if (uniqueLocations.length < count) {
                 console.warn(`After deduplication, only have ${uniqueLocations.length} locations. Making final request.`);
                 
-                const finalResponse = await client.chat.completions.create({
-                    model: 'gpt-4o',
-                    messages: [
-                        { role: 'system', content: systemPrompt },
-                        { role: 'user', content: `
-                            I need EXACTLY ${5 - uniqueLocations.length} MORE unique locations in Toronto for this persona,
-                            completely different from these locations you already provided:
-                            ${uniqueLocations.map(loc => `${loc.name} at ${loc.address}`).join(', ')}
-                            
-                            Name: ${persona.name}
-                            Bio: ${persona.bio}
-                            Traits: ${persona.traits.join(', ')}
-                            Interests: ${persona.interests.join(', ')}
-                            
-                            Make sure these are real, popular places that actually exist.
-                        `}
-                    ],
-                    temperature: 0.8, // Slightly higher temperature for diversity
-                    response_format: { type: 'json_object' },
-                });
-                
-                const finalContent = finalResponse.choices[0]?.message?.content;
-                
-                if (finalContent) {
-                    const finalData = JSON.parse(finalContent);
-                    let finalLocations: any[] = [];
-                    
-                    if (Array.isArray(finalData)) {
-                        finalLocations = finalData;
-                    } else if (finalData.locations && Array.isArray(finalData.locations)) {
-                        finalLocations = finalData.locations;
-                    } else {
-                        // Try to find any array in the response
-                        const arrayProps = Object.keys(finalData).filter(key => 
-                            Array.isArray(finalData[key]) && finalData[key].length > 0
-                        );
-                        
-                        if (arrayProps.length > 0) {
-                            finalLocations = finalData[arrayProps[0]];
-                        }
-                    }
+                try {
+                    const final = await this.completeValidated(
+                        {
+                            messages: [
+                                { role: 'system', content: systemPrompt },
+                                { role: 'user', content: `
+                                    I need EXACTLY ${count - uniqueLocations.length} MORE unique locations in ${city.name} for this persona,
+                                    completely different from these locations you already provided:
+                                    ${[...excluded, ...uniqueLocations.map(loc => `${loc.name} at ${loc.address}`)].join(', ')}
+                                    
+                                    ${personaDescription}
+                                    ${feedbackDescription}
+                                    ${budgetNote}
+                                    ${options.category ? categoryNote : ''}
+                                    
+                                    Make sure these are real, popular places that actually exist.
+                                `}
+                            ],
+                            temperature: provider.config.temperature + 0.1, // Slightly higher temperature for diversity
+                            json: true,
+                            hints: {
+                                purpose: 'locations',
+                                city: cityHint,
+                                count: count - uniqueLocations.length,
+                                exclude: [...excluded, ...uniqueLocations.map(loc => loc.name)],
+                                budget: options.budget,
+                            },
+                        },
+                        validate,
+                        'location recommendations'
+                    );
                     
                     // Add new unique locations
-                    for (const location of finalLocations) {
+                    for (const location of final.data) {
                         const normalizedName = location.name.toLowerCase().trim();
                         const normalizedAddress = location.address.toLowerCase().trim();
                         
@@ -401,116 +585,53 @@ export class OpenAIClient {
                             seenAddresses.add(normalizedAddress);
                             uniqueLocations.push(location);
                             
-                            if (uniqueLocations.length >= 5) {
+                            if (uniqueLocations.length >= count) {
                                 break;
                             }
                         }
                     }
+                } catch (finalError) {
+                    // The curated landmarks below can still fill the gap
+                    if (!(finalError instanceof LLMValidationError)) throw finalError;
+                    console.warn('Final location request could not be repaired:', finalError.message);
                 }
             }
             
             // Convert to our Location format and add IDs
-            const locations: Location[] = uniqueLocations.slice(0, 5).map(location => {
-                // Only include website if it's a real website (not a Google Maps link)
-                let website = location.website;
-                if (website && (
-                    website.includes('google.com/maps') || 
-                    !website.startsWith('http') || 
-                    !website.includes('.')
-                )) {
-                    website = undefined; // Don't include invalid websites or Google Maps links
-                }
-                
-                return {
-                    id: uuidv4(),
-                    name: location.name,
-                    address: location.address,
-                    description: location.description,
-                    category: location.category || 'attraction',
-                    coordinates: location.coordinates || { lat: 43.6532, lng: -79.3832 }, // Default to Toronto center if missing
-                    rating: location.rating || 4.0,
-                    website: website,
-                };
-            });
+            const locations: Location[] = uniqueLocations.slice(0, count).map(location => ({
+                id: uuidv4(),
+                ...location,
+                rating: location.rating ?? 4.0,
+            }));
             
-            // If we STILL don't have 5 locations, add generic ones
-            if (locations.length < 5) {
-                const defaultLocations = [
-                    {
-                        id: uuidv4(),
-                        name: "CN Tower",
-                        address: "290 Bremner Blvd, Toronto, ON M5V 3L9",
-                        description: "Toronto's iconic landmark with breathtaking views of the city.",
-                        category: "attraction",
-                        coordinates: { lat: 43.6426, lng: -79.3871 },
-                        rating: 4.7,
-                        website: "https://www.cntower.ca/"
-                    },
-                    {
-                        id: uuidv4(),
-                        name: "St. Lawrence Market",
-                        address: "93 Front St E, Toronto, ON M5E 1C3",
-                        description: "Historic market with fresh food and unique vendors.",
-                        category: "shop",
-                        coordinates: { lat: 43.6489, lng: -79.3714 },
-                        rating: 4.6,
-                        website: "https://www.stlawrencemarket.com/"
-                    },
-                    {
-                        id: uuidv4(),
-                        name: "High Park",
-                        address: "1873 Bloor St W, Toronto, ON M6R 2Z3",
-                        description: "Toronto's largest public park with trails, gardens and a zoo.",
-                        category: "park",
-                        coordinates: { lat: 43.6465, lng: -79.4637 },
-                        rating: 4.8,
-                        website: "https://www.toronto.ca/explore-enjoy/parks-gardens-beaches/gardens-and-horticulture/gardens-and-parks/high-park/"
-                    },
-                    {
-                        id: uuidv4(),
-                        name: "Royal Ontario Museum",
-                        address: "100 Queens Park, Toronto, ON M5S 2C6",
-                        description: "World-class museum with art, culture & natural history.",
-                        category: "attraction",
-                        coordinates: { lat: 43.6677, lng: -79.3948 },
-                        rating: 4.6,
-                        website: "https://www.rom.on.ca/"
-                    },
-                    {
-                        id: uuidv4(),
-                        name: "Distillery District",
-                        address: "55 Mill St, Toronto, ON M5A 3C4",
-                        description: "Historic district with shops, restaurants and galleries.",
-                        category: "entertainment",
-                        coordinates: { lat: 43.6503, lng: -79.3596 },
-                        rating: 4.5,
-                        website: "https://www.thedistillerydistrict.com/"
-                    }
-                ];
+            // If we STILL don't have enough locations, add the city's curated landmarks
+            if (locations.length < count) {
+                const defaultLocations = getCityLandmarks(city.name)
+                    .filter(landmark => !seenNames.has(landmark.name.toLowerCase().trim()))
+                    .filter(landmark => !seenAddresses.has(landmark.address.toLowerCase().trim()))
+                    .filter(landmark => !options.category || landmark.category === options.category)
+                    .map(landmark => ({ id: uuidv4(), ...landmark }))
+                    // Landmarks have no price, so judge them by their category's typical price level
+                    .filter(landmark => !options.budget || fitsBudget(withPriceLevel(landmark), options.budget));
                 
-                // Add default locations to fill up to 5
-                for (let i = 0; i < defaultLocations.length && locations.length < 5; i++) {
+                // Add default locations to fill up to the requested count
+                for (let i = 0; i < defaultLocations.length && locations.length < count; i++) {
                     locations.push(defaultLocations[i]);
                 }
             }
             
             return locations;
-        } catch (error: any) {
+        } catch (error) {
             console.error('Error generating location recommendations:', error);
-            
-            // Check if it's a timeout error
-            if (error.code === 'ETIMEDOUT' || error.code === 'ESOCKETTIMEDOUT' || 
-                (error.message && error.message.includes('timeout'))) {
-                throw new Error('Request timed out. Please try again later.');
-            }
-            
-            throw new Error('Failed to generate location recommendations');
+
+            // Classify provider failures (timeouts, rate limits, auth) as typed errors
+            throw fromUpstreamError(error, 'llm');
         }
     }
 }
 
-// Export a factory function for creating instances
-export const createOpenAIClient = (apiKey?: string) => new OpenAIClient(apiKey);
+// Export a factory function for creating instances (e.g. with a fixture provider in tests)
+export const createOpenAIClient = (provider?: LLMProvider) => new OpenAIClient(provider);
 
 // Lazy-loaded singleton instance - only created when used
 let clientInstance: OpenAIClient | null = null;
@@ -0,0 +1,309 @@
+import { Location, OpeningPeriod, VisitWindow, WeeklySchedule } from '../types/location';
+
+/**
+ * Opening hours: parsing Google's weekday_text into a weekly schedule and answering
+ * "is it open at T" / "is it open during this visit" questions. All times are the place's
+ * local wall-clock time, expressed as minutes since Sunday 00:00 ("minute of week").
+ */
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+// Length of a visit when only a start time is given
+export const DEFAULT_VISIT_MINUTES = 120;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKDAY_SHORT_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface OpenStatus {
+    open: boolean;
+    closesAt?: string; // "HH:mm", when open and not open around the clock
+    opensAt?: string; // "HH:mm", when closed and a next opening is known
+    opensOn?: number; // Weekday of the next opening when it is not today (0 = Sunday)
+}
+
+// A wall-clock moment in the place's time zone
+export interface LocalTime {
+    day: number; // 0 = Sunday
+    minutes: number; // Since midnight
+}
+
+/**
+ * Look up a weekday by full or three-letter English name
+ * @returns 0-6 (Sunday first), or -1 if unknown
+ */
+function parseWeekday(name: string): number {
+    const lower = name.trim().toLowerCase();
+    return WEEKDAYS.findIndex(day => day === lower || day.slice(0, 3) === lower);
+}
+
+/**
+ * Parse a clock time such as "9:00", "9:00 AM", "9 PM" or "21:30"
+ * @param text The time text
+ * @param fallbackMeridiem AM/PM to assume when the text has none (Google omits it on range starts)
+ * @returns Minutes since midnight, or undefined if the text is not a time
+ */
+function parseClockTime(text: string, fallbackMeridiem?: string): number | undefined {
+    const match = text.trim().match(/^(\d{1,2})(?::(\d{2}))?\s*([ap])?\.?\s*(?:m\.?)?$/i);
+    if (!match) return undefined;
+
+    let hours = Number(match[1]);
+    const minutes = Number(match[2] ?? 0);
+    const meridiem = (match[3] ?? fallbackMeridiem)?.toLowerCase();
+
+    if (minutes > 59 || hours > 24 || (meridiem && (hours < 1 || hours > 12))) return undefined;
+
+    if (meridiem === 'a' && hours === 12) hours = 0;
+    if (meridiem === 'p' && hours !== 12) hours += 12;
+
+    return hours * 60 + minutes;
+}
+
+const meridiemOf = (text: string) => text.trim().match(/([ap])\.?\s*m\.?$/i)?.[1];
+
+/**
+ * Parse one opening range such as "9:00 AM – 5:00 PM", "5:00 – 10:00 PM" or "18:00–02:00"
+ */
+function parseRange(text: string): OpeningPeriod | undefined {
+    const parts = text.split(/\s*[–—-]\s*/);
+    if (parts.length !== 2) return undefined;
+
+    const [openText, closeText] = parts;
+    const close = parseClockTime(closeText);
+    if (close === undefined) return undefined;
+
+    // A range start without AM/PM shares the end's, unless that would put it after the end
+    const inherited = meridiemOf(openText) ? undefined : meridiemOf(closeText);
+    let open = parseClockTime(openText, inherited);
+    if (open !== undefined && inherited && open >= close) {
+        open = parseClockTime(openText, inherited.toLowerCase() === 'p' ? 'a' : 'p');
+    }
+    if (open === undefined) return undefined;
+
+    // Ranges that end at or after midnight close on the following day
+    return { open, close: close <= open ? close + MINUTES_PER_DAY : close };
+}
+
+/**
+ * Parse Google Places weekday_text (e.g. "Monday: 9:00 AM – 5:00 PM, 6:00 – 10:00 PM",
+ * "Tuesday: Closed", "Wednesday: Open 24 hours") into a weekly schedule
+ * @param weekdayText One line per weekday
+ * @returns The schedule, or undefined if any line could not be understood
+ */
+export function parseWeekdayText(weekdayText?: string[]): WeeklySchedule | undefined {
+    if (!weekdayText || weekdayText.length === 0) return undefined;
+
+    const schedule: (OpeningPeriod[] | undefined)[] = new Array(7).fill(undefined);
+
+    for (const rawLine of weekdayText) {
+        // Newer responses use narrow and thin no-break spaces around times and dashes
+        const line = rawLine.replace(/[\u00a0\u2009\u202f]/g, ' ');
+        const separator = line.indexOf(':');
+        const day = separator > 0 ? parseWeekday(line.slice(0, separator)) : -1;
+        if (day === -1) return undefined;
+
+        const hours = line.slice(separator + 1).trim();
+        if (/^closed$/i.test(hours)) {
+            schedule[day] = [];
+        } else if (/^open 24 hours$/i.test(hours)) {
+            schedule[day] = [{ open: 0, close: MINUTES_PER_DAY }];
+        } else {
+            const periods = hours.split(',').map(parseRange);
+            if (periods.some(period => period === undefined)) return undefined;
+            schedule[day] = periods as OpeningPeriod[];
+        }
+    }
+
+    return schedule.every(Boolean) ? (schedule as WeeklySchedule) : undefined;
+}
+
+/**
+ * Opening periods as minute-of-week ranges, repeated for the neighbouring weeks so that
+ * ranges and windows crossing Saturday midnight compare correctly. Touching or overlapping
+ * ranges (e.g. a late night running into a 24-hour day) are merged.
+ */
+function weeklyRanges(schedule: WeeklySchedule): Array<[number, number]> {
+    const ranges = schedule.flatMap((periods, day) =>
+        periods.map(({ open, close }): [number, number] => [day * MINUTES_PER_DAY + open, day * MINUTES_PER_DAY + close])
+    );
+
+    const shifted = [-MINUTES_PER_WEEK, 0, MINUTES_PER_WEEK]
+        .flatMap(shift => ranges.map(([start, end]): [number, number] => [start + shift, end + shift]))
+        .sort((a, b) => a[0] - b[0]);
+
+    const merged: Array<[number, number]> = [];
+    for (const [start, end] of shifted) {
+        const last = merged[merged.length - 1];
+        if (last && start <= last[1]) {
+            last[1] = Math.max(last[1], end);
+        } else {
+            merged.push([start, end]);
+        }
+    }
+
+    return merged;
+}
+
+const formatClock = (minuteOfWeek: number) => {
+    const minutes = ((minuteOfWeek % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Whether a place is open, and when it next closes or opens
+ * @param schedule The place's weekly schedule
+ * @param at Local time to check
+ * @returns Open status at that time
+ */
+export function openStatusAt(schedule: WeeklySchedule, at: LocalTime): OpenStatus {
+    const now = at.day * MINUTES_PER_DAY + at.minutes;
+    const ranges = weeklyRanges(schedule);
+
+    const current = ranges.find(([start, end]) => start <= now && now < end);
+    if (current) {
+        const roundTheClock = schedule.every(periods => periods.some(({ open, close }) => open === 0 && close >= MINUTES_PER_DAY));
+        return roundTheClock ? { open: true } : { open: true, closesAt: formatClock(current[1]) };
+    }
+
+    const next = ranges
+        .map(([start]) => start)
+        .filter(start => start > now)
+        .sort((a, b) => a - b)[0];
+    if (next === undefined) {
+        return { open: false };
+    }
+
+    const nextDay = Math.floor(next / MINUTES_PER_DAY);
+    return {
+        open: false,
+        opensAt: formatClock(next),
+        opensOn: nextDay === at.day ? undefined : nextDay % 7,
+    };
+}
+
+/**
+ * Describe an open status for a badge, e.g. "Open now · closes 22:00" or "Opens Tue 09:00"
+ */
+export function describeOpenStatus(status: OpenStatus): string {
+    if (status.open) {
+        return status.closesAt ? `Open now · closes ${status.closesAt}` : 'Open 24 hours';
+    }
+    if (!status.opensAt) {
+        return 'Closed';
+    }
+    return status.opensOn === undefined
+        ? `Opens at ${status.opensAt}`
+        : `Opens ${WEEKDAY_SHORT_NAMES[status.opensOn]} ${status.opensAt}`;
+}
+
+/**
+ * The current wall-clock time at a place
+ * @param utcOffsetMinutes The place's UTC offset; the device's own time zone is used when unknown
+ * @param now The current instant
+ */
+export function localTimeAt(utcOffsetMinutes?: number, now: Date = new Date()): LocalTime {
+    if (utcOffsetMinutes === undefined) {
+        return { day: now.getDay(), minutes: now.getHours() * 60 + now.getMinutes() };
+    }
+
+    const shifted = new Date(now.getTime() + utcOffsetMinutes * 60000);
+    return { day: shifted.getUTCDay(), minutes: shifted.getUTCHours() * 60 + shifted.getUTCMinutes() };
+}
+
+/**
+ * Parse a local "YYYY-MM-DDTHH:mm" date-time
+ * @returns Minutes since the Unix epoch (as if UTC), or undefined if invalid
+ */
+export function parseLocalDateTime(value: string): number | undefined {
+    const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/.exec(value);
+    if (!match) return undefined;
+
+    const [year, month, day, hours, minutes] = match.slice(1).map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day, hours, minutes));
+
+    // Reject rolled-over values such as February 30th or 25:00
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day || date.getUTCHours() !== hours) {
+        return undefined;
+    }
+
+    return date.getTime() / 60000;
+}
+
+/**
+ * Format minutes since the Unix epoch (as if UTC) as a local "YYYY-MM-DDTHH:mm" date-time
+ */
+export function formatLocalDateTime(epochMinutes: number): string {
+    return new Date(epochMinutes * 60000).toISOString().slice(0, 16);
+}
+
+/**
+ * Minute of the week of a local date-time given as minutes since the Unix epoch
+ */
+export function minuteOfWeek(epochMinutes: number): number {
+    // The epoch began on a Thursday (weekday 4)
+    return (((epochMinutes + 4 * MINUTES_PER_DAY) % MINUTES_PER_WEEK) + MINUTES_PER_WEEK) % MINUTES_PER_WEEK;
+}
+
+// A validated visit window as minute-of-week bounds (end may run into the following week)
+export interface ResolvedVisitWindow {
+    start: number;
+    end: number;
+}
+
+/**
+ * Validate a visit window
+ * @param visit The requested window
+ * @returns Minute-of-week bounds, or a user-facing validation error
+ */
+export function resolveVisitWindow(visit: VisitWindow): ResolvedVisitWindow | { error: string } {
+    const start = typeof visit?.start === 'string' ? parseLocalDateTime(visit.start) : undefined;
+    if (start === undefined) {
+        return { error: 'Invalid visit start. Please use the format YYYY-MM-DDTHH:mm.' };
+    }
+
+    const end = visit.end === undefined ? start + DEFAULT_VISIT_MINUTES : parseLocalDateTime(visit.end);
+    if (end === undefined || end <= start) {
+        return { error: 'Invalid visit end. Please use the format YYYY-MM-DDTHH:mm, after the start.' };
+    }
+    if (end - start > MINUTES_PER_WEEK) {
+        return { error: 'Invalid visit window. Please choose a window of at most a week.' };
+    }
+
+    const startOfWeek = minuteOfWeek(start);
+    return { start: startOfWeek, end: startOfWeek + (end - start) };
+}
+
+/**
+ * Whether a place is open at any point during a visit window
+ */
+export function isOpenDuring(schedule: WeeklySchedule, window: ResolvedVisitWindow): boolean {
+    return weeklyRanges(schedule).some(([start, end]) => start < window.end && end > window.start);
+}
+
+/**
+ * Earliest time at or after `from` when a place is open for a whole visit
+ * @param schedule The place's weekly schedule
+ * @param from Earliest arrival, as a minute of the week
+ * @param duration Length of the visit in minutes
+ * @returns The start of the visit as a minute of the week, or undefined if it never fits within a week
+ */
+export function earliestOpenVisit(schedule: WeeklySchedule, from: number, duration: number): number | undefined {
+    const range = weeklyRanges(schedule).find(([start, end]) => end - Math.max(start, from) >= duration);
+    return range && range[0] < from + MINUTES_PER_WEEK ? Math.max(range[0], from) : undefined;
+}
+
+/**
+ * Flag each location as open or closed during a visit, optionally dropping closed ones.
+ * Places without known hours are kept and left unflagged.
+ * @param locations Locations with parsed schedules
+ * @param window The resolved visit window
+ * @param hideClosed Drop places that are closed for the whole window
+ * @returns The flagged (and possibly filtered) locations
+ */
+export function applyVisitWindow(locations: Location[], window: ResolvedVisitWindow, hideClosed = false): Location[] {
+    return locations
+        .map(location => location.schedule
+            ? { ...location, openDuringVisit: isOpenDuring(location.schedule, window) }
+            : location)
+        .filter(location => !hideClosed || location.openDuringVisit !== false);
+}
@@ -0,0 +1,135 @@
+import {
+    INTEREST_CATEGORY_LABELS,
+    InterestCategory,
+    PartialEnhancedPersona,
+    Persona,
+    PersonaEdits,
+    TRAIT_CATEGORY_LABELS,
+    TraitCategory,
+} from '../types/persona';
+
+export interface CategoryGroup {
+    label: string; // Display name of the category, or "Other"
+    items: string[];
+}
+
+// Confidence below which a persona is presented as a rough guess
+export const LOW_CONFIDENCE = 40;
+export const HIGH_CONFIDENCE = 75;
+
+/**
+ * Group items by their category, in category declaration order. Items without a
+ * category are collected under "Other" at the end.
+ * @param items Traits or interests
+ * @param categories Category of each item, keyed by item
+ * @param labels Display name of each category
+ * @returns Non-empty groups
+ */
+function groupByCategory<C extends string>(
+    items: string[],
+    categories: Record<string, C> | undefined,
+    labels: Record<C, string>
+): CategoryGroup[] {
+    const order = Object.keys(labels) as C[];
+    const groups = new Map<C | 'other', string[]>();
+
+    for (const item of items) {
+        const category = categories?.[item];
+        const key = category && order.includes(category) ? category : 'other';
+        groups.set(key, [...(groups.get(key) ?? []), item]);
+    }
+
+    return [...order, 'other' as const]
+        .filter(key => groups.has(key))
+        .map(key => ({ label: key === 'other' ? 'Other' : labels[key], items: groups.get(key)! }));
+}
+
+/**
+ * Group a persona's traits by trait category
+ */
+export const groupTraits = (persona: PartialEnhancedPersona) =>
+    groupByCategory<TraitCategory>(persona.traits, persona.traitCategories, TRAIT_CATEGORY_LABELS);
+
+/**
+ * Group a persona's interests by interest category
+ */
+export const groupInterests = (persona: PartialEnhancedPersona) =>
+    groupByCategory<InterestCategory>(persona.interests, persona.interestCategories, INTEREST_CATEGORY_LABELS);
+
+/**
+ * Describe a confidence score in words
+ * @param confidence 0-100 score
+ */
+export function confidenceLabel(confidence: number): 'Low' | 'Medium' | 'High' {
+    if (confidence < LOW_CONFIDENCE) return 'Low';
+    if (confidence < HIGH_CONFIDENCE) return 'Medium';
+    return 'High';
+}
+
+// Items of `items` that are not in `others`, compared case-insensitively
+const missingFrom = (items: string[], others: string[]) => {
+    const lowerOthers = new Set(others.map(item => item.toLowerCase()));
+    return items.filter(item => !lowerOthers.has(item.toLowerCase()));
+};
+
+/**
+ * Changes between a generated persona and the user's edited version of it
+ * @param original The generated persona
+ * @param edited The persona as the user left it
+ * @returns The edits; see hasPersonaEdits
+ */
+export function diffPersona(original: Persona, edited: Persona): PersonaEdits {
+    const name = edited.name.trim();
+    const bio = edited.bio.trim();
+
+    return {
+        ...(name !== original.name ? { name } : {}),
+        ...(bio !== original.bio ? { bio } : {}),
+        addedTraits: missingFrom(edited.traits, original.traits),
+        removedTraits: missingFrom(original.traits, edited.traits),
+        addedInterests: missingFrom(edited.interests, original.interests),
+        removedInterests: missingFrom(original.interests, edited.interests),
+    };
+}
+
+/**
+ * Whether any edits were made
+ */
+export function hasPersonaEdits(edits: PersonaEdits): boolean {
+    return edits.name !== undefined ||
+        edits.bio !== undefined ||
+        edits.addedTraits.length + edits.removedTraits.length + edits.addedInterests.length + edits.removedInterests.length > 0;
+}
+
+/**
+ * Apply edits to a generated persona. Categories, confidence and preferences are kept;
+ * added traits and interests have no category, so they are shown under "Other".
+ * @param original The generated persona
+ * @param edits Changes from diffPersona
+ */
+export function applyPersonaEdits<P extends Persona>(original: P, edits: PersonaEdits): P {
+    return {
+        ...original,
+        name: edits.name ?? original.name,
+        bio: edits.bio ?? original.bio,
+        traits: [...missingFrom(original.traits, edits.removedTraits), ...edits.addedTraits],
+        interests: [...missingFrom(original.interests, edits.removedInterests), ...edits.addedInterests],
+    };
+}
+
+/**
+ * Summarize edits for display, e.g. ["name", "2 interests added"]
+ */
+export function describePersonaEdits(edits: PersonaEdits): string[] {
+    const count = (items: string[], noun: string, change: string) =>
+        (items.length > 0 ? [`${items.length} ${noun}${items.length === 1 ? '' : 's'} ${change}`] : []);
+
+    return [
+        ...(edits.name !== undefined ? ['name'] : []),
+        ...(edits.bio !== undefined ? ['bio'] : []),
+        ...count(edits.addedTraits, 'trait', 'added'),
+        ...count(edits.removedTraits, 'trait', 'removed'),
+        ...count(edits.addedInterests, 'interest', 'added'),
+        ...count(edits.removedInterests, 'interest', 'removed'),
+    ];
+}
@@ -0,0 +1,288 @@
+import { ProfileSource, profileSource } from './sources';
+import { DEFAULT_LOCATION_COUNT, LocationRecommendationOptions, openaiClient } from './openai';
+import { googleMapsClient } from './google-maps';
+import { appCache, CACHE_TTL, hashKey } from './cache';
+import { AppError, fromUpstreamError } from './errors';
+import { scoreLocation } from './relevance';
+import { fitsBudget, withPriceLevel } from './budget';
+import { scoreForGroup } from './group';
+import { manualPersonaContext } from './manual-persona';
+import { applyVisitWindow, ResolvedVisitWindow } from './opening-hours';
+import {
+    GeneratePersonaResponse,
+    PipelineCacheReport,
+    PipelineProgressHandler,
+} from '../types/api';
+import { CityContext, Location } from '../types/location';
+import { ManualPersonaInput, PartialEnhancedPersona, PersonaGenerationContext } from '../types/persona';
+import { ErrorCode } from '../types/errors';
+
+/**
+ * Shared persona and location pipeline used by the JSON routes and the streaming route
+ */
+
+export type GeneratedPersona = NonNullable<GeneratePersonaResponse['persona']>;
+
+export interface PipelineCacheOptions {
+    refresh?: boolean; // Recompute instead of reading cached values
+    report?: PipelineCacheReport; // Filled with hit/miss metadata for each cached step
+}
+
+export interface VerifiedLocationOptions extends LocationRecommendationOptions {
+    visit?: ResolvedVisitWindow; // Flags each place as open or closed during the visit
+    hideClosed?: boolean; // Drop places that are closed for the whole visit instead of flagging them
+}
+
+/**
+ * Pick the profile source for a request and normalize the identifier for it
+ * @param sourceType Requested network (defaults to X)
+ * @param identifier Raw identifier as entered by the user
+ * @returns The source and normalized identifier, or a user-facing validation error
+ */
+export function resolveProfileSource(
+    sourceType: string | undefined,
+    identifier: string | undefined
+): { source: ProfileSource; identifier: string } | { error: string } {
+    const source = profileSource(sourceType || 'x');
+    if (!source) {
+        return { error: `Unsupported profile source "${sourceType}".` };
+    }
+
+    const normalized = identifier ? source.normalizeIdentifier(identifier) : null;
+    if (!normalized) {
+        return { error: `Invalid ${source.label} handle. Please provide a valid ${source.label} username.` };
+    }
+
+    return { source, identifier: normalized };
+}
+
+/**
+ * Fetch profile data for an identifier on a social network
+ * @param source The profile source to read from
+ * @param identifier The normalized identifier (see ProfileSource.normalizeIdentifier)
+ * @param onProgress Optional progress callback
+ * @param cache Cache options (profiles are keyed by source and normalized handle)
+ * @returns Persona generation context, or null when no usable content was found
+ */
+export async function fetchProfile(
+    source: ProfileSource,
+    identifier: string,
+    onProgress?: PipelineProgressHandler,
+    cache: PipelineCacheOptions = {}
+): Promise<PersonaGenerationContext | null> {
+    const { value: context, info } = await appCache().getOrSet(
+        `profile:${source.type}:${identifier.toLowerCase()}`,
+        CACHE_TTL.profile,
+        () => source.fetchContext(identifier, onProgress).catch(error => {
+            // Sources throw raw HTTP errors; classify them against the service that was called
+            throw fromUpstreamError(error, source.upstream);
+        }),
+        cache
+    );
+    if (cache.report) cache.report.profile = info;
+
+    if (!context || (context.recentTweets.length === 0 && !context.bio)) {
+        return null;
+    }
+
+    onProgress?.({ type: 'profile', name: context.name || identifier, postCount: context.recentTweets.length });
+    return context;
+}
+
+/**
+ * Generate a persona from fetched profile data
+ * @param context Profile data from fetchProfile
+ * @param onProgress Optional progress callback
+ * @param cache Cache options (personas are keyed by source and normalized handle)
+ * @returns The persona with the requested handle, source and profile image applied
+ */
+export async function generatePersonaFromProfile(
+    context: PersonaGenerationContext,
+    onProgress?: PipelineProgressHandler,
+    cache: PipelineCacheOptions = {}
+): Promise<GeneratedPersona> {
+    const handle = context.handle || '';
+
+    // Generate persona using OpenAI
+    const { value: personaData, info } = await appCache().getOrSet(
+        `persona:${context.source || 'x'}:${handle.toLowerCase()}`,
+        CACHE_TTL.persona,
+        () => openaiClient().generatePersona(context),
+        cache
+    );
+    if (cache.report) cache.report.persona = info;
+
+    // Use the requested handle and extracted name
+    const persona: GeneratedPersona = {
+        ...personaData,
+        // Override the handle with the requested handle
+        handle,
+        // If OpenAI returned "Unknown User", use the name from the profile
+        name: personaData.name === 'Unknown User' && context.name ? context.name : personaData.name,
+        profileImageUrl: context.profileImageUrl,
+        source: context.source,
+    };
+
+    onProgress?.({ type: 'persona', persona });
+    return persona;
+}
+
+/**
+ * Generate the persona for one member of a group outing, from handle to persona
+ * @param sourceType Requested network (defaults to X)
+ * @param identifier Raw identifier as entered by the user
+ * @param cache Cache options
+ * @returns The member's persona
+ * @throws AppError when the handle is invalid or the profile has no usable content
+ */
+export async function generateMemberPersona(
+    sourceType: string | undefined,
+    identifier: string | undefined,
+    cache: PipelineCacheOptions = {}
+): Promise<GeneratedPersona> {
+    const resolved = resolveProfileSource(sourceType, identifier);
+    if ('error' in resolved) {
+        throw new AppError(ErrorCode.VALIDATION, resolved.error);
+    }
+
+    const profileInfo = await fetchProfile(resolved.source, resolved.identifier, undefined, cache);
+    if (!profileInfo) {
+        throw new AppError(
+            ErrorCode.PROFILE_NOT_FOUND,
+            `Could not find ${resolved.source.label} profile data for ${resolved.identifier}. Please check the handle and try again.`
+        );
+    }
+
+    return generatePersonaFromProfile(profileInfo, undefined, cache);
+}
+
+/**
+ * Generate a persona from what a user wrote about themselves, without looking up any profile
+ * @param input Pasted bio and posts and/or questionnaire answers (see validateManualPersonaInput)
+ * @param cache Cache options (personas are keyed by a hash of the input)
+ * @returns The persona, with no handle or source
+ */
+export async function generateManualPersona(
+    input: ManualPersonaInput,
+    cache: PipelineCacheOptions = {}
+): Promise<GeneratedPersona> {
+    const context = manualPersonaContext(input);
+
+    const { value: personaData, info } = await appCache().getOrSet(
+        `persona:manual:${hashKey(context)}`,
+        CACHE_TTL.persona,
+        () => openaiClient().generatePersona(context),
+        cache
+    );
+    if (cache.report) cache.report.persona = info;
+
+    return {
+        ...personaData,
+        handle: '',
+        // The model falls back to the (empty) handle when it cannot find a name
+        name: context.name || personaData.name || 'You',
+    };
+}
+
+/**
+ * Generate location candidates for a persona and verify them against Google Places
+ * @param persona The persona to recommend for (the merged persona for group outings)
+ * @param city The resolved city
+ * @param options Number of locations, places already shown, category, budget, group members, feedback and visit window
+ * @param onProgress Optional progress callback, notified once per settled location that is kept
+ * @param cache Cache options (candidates are keyed by persona hash, city, count, exclusions, category, budget, group and feedback)
+ * @returns Verified (or flagged unverified) locations within budget, priced, scored for relevance to the persona
+ * and flagged as open or closed during the visit
+ */
+export async function generateVerifiedLocations(
+    persona: PartialEnhancedPersona,
+    city: CityContext,
+    options: VerifiedLocationOptions = {},
+    onProgress?: PipelineProgressHandler,
+    cache: PipelineCacheOptions = {}
+): Promise<Location[]> {
+    const { visit, hideClosed, ...recommendationOptions } = options;
+
+    // Only the fields used in the prompt identify the persona
+    const personaHash = hashKey({
+        name: persona.name,
+        bio: persona.bio,
+        traits: persona.traits,
+        interests: persona.interests,
+        traitCategories: persona.traitCategories,
+        interestCategories: persona.interestCategories,
+        locationPreferences: persona.locationPreferences,
+        activityPreferences: persona.activityPreferences,
+        timePreferences: persona.timePreferences,
+    });
+
+    const requestHash = hashKey({
+        count: options.count ?? DEFAULT_LOCATION_COUNT,
+        exclude: (options.exclude ?? []).map(name => name.toLowerCase().trim()).sort(),
+        excludeAddresses: options.excludeAddresses?.map(address => address.toLowerCase().trim()).sort(),
+        category: options.category,
+        budget: options.budget,
+        group: options.group?.map(member => member.handle),
+        feedback: options.feedback?.map(item => `${item.verdict}:${item.name.toLowerCase().trim()}`).sort(),
+    });
+
+    const { value: candidateLocations, info } = await appCache().getOrSet(
+        `locations:${personaHash}:${city.name.toLowerCase()}:${requestHash}`,
+        CACHE_TTL.locations,
+        () => openaiClient().generateLocationRecommendations(persona, city, recommendationOptions),
+        cache
+    );
+    if (cache.report) cache.report.locations = info;
+    onProgress?.({ type: 'locations', count: candidateLocations.length });
+
+    // Verify candidates against Google Places, replacing or dropping ones that don't exist,
+    // then price and score each settled place (against every member of a group) and check it against
+    // the visit window, dropping places over budget and, if asked, places closed for the whole visit
+    const settle = (location: Location) => {
+        const scored = options.group?.length
+            ? scoreForGroup(withPriceLevel(location), options.group, options.budget)
+            : scoreLocation(withPriceLevel(location), persona, options.budget);
+        return visit ? applyVisitWindow([scored], visit)[0] : scored;
+    };
+    const kept = (location: Location) =>
+        (!options.budget || fitsBudget(location, options.budget)) &&
+        !(hideClosed && location.openDuringVisit === false);
+
+    // verifyLocations reports every place it returns, in order, so each is settled once here;
+    // streamed indexes count only the places that are kept
+    const settledLocations: Location[] = [];
+    let keptCount = 0;
+
+    await googleMapsClient().verifyLocations(
+        candidateLocations,
+        city,
+        persona,
+        location => {
+            const settled = settle(location);
+            settledLocations.push(settled);
+            if (kept(settled)) onProgress?.({ type: 'location', location: settled, index: keptCount++ });
+        },
+        options.exclude
+    );
+
+    return settledLocations.filter(kept);
+}
+
+/**
+ * User-facing message for a search whose filters left no places
+ * @param options The budget and visit filters that were applied
+ */
+export function noResultsMessage(options: Pick<VerifiedLocationOptions, 'budget' | 'visit' | 'hideClosed'>): string {
+    const closedHidden = Boolean(options.visit && options.hideClosed);
+
+    if (options.budget && closedHidden) {
+        return 'None of the recommended places fit your budget and are open during your visit. Please try a higher budget or a different time.';
+    }
+    if (options.budget) {
+        return 'None of the recommended places fit your budget. Please try a higher budget.';
+    }
+    if (closedHidden) {
+        return 'None of the recommended places are open during your visit. Please try a different time.';
+    }
+    return 'No suitable locations found. Please try a different profile.';
+}
@@ -0,0 +1,178 @@
+import { Budget, Location, LocationCategory, LocationRecommendationContext, RelevanceBreakdown } from '../types/location';
+import { InterestCategory, PartialEnhancedPersona } from '../types/persona';
+import { budgetPenalty } from './budget';
+
+/**
+ * Relevance scoring: how well a recommended place fits a persona. A place earns points for
+ * the best matching interest, the best matching trait and its rating. A trait or interest
+ * matches when the place's name, category or description mentions it (full credit), or when
+ * the place's category suits it (partial credit). When a budget is requested, places priced
+ * outside it lose points.
+ */
+
+const INTEREST_POINTS = 50;
+const TRAIT_POINTS = 30;
+const RATING_POINTS = 20;
+
+const MENTION_MATCH = 1;
+const CATEGORY_MATCH = 0.6;
+const UNRATED = 0.5; // Rating credit for places without a rating
+
+// Place categories that suit each interest category
+const INTEREST_AFFINITY: Record<InterestCategory, LocationCategory[]> = {
+    [InterestCategory.TECHNOLOGY]: [LocationCategory.TECH, LocationCategory.WORK, LocationCategory.EDUCATION, LocationCategory.MUSEUM],
+    [InterestCategory.ARTS]: [LocationCategory.ART, LocationCategory.MUSEUM, LocationCategory.ATTRACTION, LocationCategory.ENTERTAINMENT],
+    [InterestCategory.SCIENCE]: [LocationCategory.MUSEUM, LocationCategory.EDUCATION, LocationCategory.ATTRACTION],
+    [InterestCategory.SPORTS]: [LocationCategory.SPORTS, LocationCategory.FITNESS, LocationCategory.PARK, LocationCategory.OUTDOOR],
+    [InterestCategory.FOOD]: [LocationCategory.RESTAURANT, LocationCategory.CAFE, LocationCategory.BAR, LocationCategory.SHOP],
+    [InterestCategory.TRAVEL]: [LocationCategory.ATTRACTION, LocationCategory.MUSEUM, LocationCategory.PARK],
+    [InterestCategory.ENTERTAINMENT]: [LocationCategory.ENTERTAINMENT, LocationCategory.BAR, LocationCategory.MUSIC, LocationCategory.ATTRACTION],
+    [InterestCategory.POLITICS]: [LocationCategory.MUSEUM, LocationCategory.ATTRACTION, LocationCategory.EDUCATION],
+    [InterestCategory.BUSINESS]: [LocationCategory.WORK, LocationCategory.CAFE, LocationCategory.RESTAURANT],
+    [InterestCategory.EDUCATION]: [LocationCategory.EDUCATION, LocationCategory.MUSEUM],
+    [InterestCategory.HEALTH]: [LocationCategory.FITNESS, LocationCategory.PARK, LocationCategory.OUTDOOR],
+    [InterestCategory.FASHION]: [LocationCategory.SHOPPING, LocationCategory.SHOP],
+    [InterestCategory.ENVIRONMENT]: [LocationCategory.PARK, LocationCategory.OUTDOOR],
+    [InterestCategory.MUSIC]: [LocationCategory.MUSIC, LocationCategory.ENTERTAINMENT, LocationCategory.BAR],
+    [InterestCategory.GAMING]: [LocationCategory.ENTERTAINMENT, LocationCategory.TECH],
+};
+
+// Place categories that suit common traits (traits have no finer-grained category to go by)
+const TRAIT_AFFINITY: Record<string, LocationCategory[]> = {
+    adventurous: [LocationCategory.OUTDOOR, LocationCategory.PARK, LocationCategory.ATTRACTION, LocationCategory.SPORTS],
+    outdoorsy: [LocationCategory.OUTDOOR, LocationCategory.PARK],
+    active: [LocationCategory.FITNESS, LocationCategory.SPORTS, LocationCategory.PARK, LocationCategory.OUTDOOR],
+    athletic: [LocationCategory.FITNESS, LocationCategory.SPORTS],
+    social: [LocationCategory.BAR, LocationCategory.RESTAURANT, LocationCategory.ENTERTAINMENT, LocationCategory.MUSIC],
+    outgoing: [LocationCategory.BAR, LocationCategory.ENTERTAINMENT, LocationCategory.MUSIC],
+    extroverted: [LocationCategory.BAR, LocationCategory.ENTERTAINMENT, LocationCategory.MUSIC],
+    introverted: [LocationCategory.CAFE, LocationCategory.PARK, LocationCategory.MUSEUM],
+    relaxed: [LocationCategory.CAFE, LocationCategory.PARK],
+    curious: [LocationCategory.MUSEUM, LocationCategory.ATTRACTION, LocationCategory.EDUCATION],
+    analytical: [LocationCategory.MUSEUM, LocationCategory.EDUCATION, LocationCategory.TECH],
+    intellectual: [LocationCategory.MUSEUM, LocationCategory.EDUCATION],
+    creative: [LocationCategory.ART, LocationCategory.MUSIC, LocationCategory.MUSEUM],
+    artistic: [LocationCategory.ART, LocationCategory.MUSEUM],
+    innovative: [LocationCategory.TECH, LocationCategory.ART],
+    entrepreneurial: [LocationCategory.WORK, LocationCategory.CAFE],
+    foodie: [LocationCategory.RESTAURANT, LocationCategory.CAFE],
+    stylish: [LocationCategory.SHOPPING, LocationCategory.SHOP],
+};
+
+// Words too generic to count as a mention
+const STOP_WORDS = new Set(['and', 'the', 'for', 'with', 'of', 'in', 'on', 'at', 'to', 'a', 'an']);
+
+/**
+ * Split text into lowercase words with a crude plural/suffix stem, so "museums" matches "museum"
+ */
+function words(text: string): string[] {
+    return text
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+        .map(word => word.replace(/(ies|es|s)$/, match => (match === 'ies' ? 'y' : '')));
+}
+
+/**
+ * Strength of the match between a trait or interest and a place
+ * @param term The trait or interest
+ * @param placeWords Words of the place's name, category and description
+ * @param category The place's category
+ * @param affinity Place categories that suit the term
+ * @returns 1 for a mention, 0.6 for a suitable category, otherwise 0
+ */
+function matchStrength(term: string, placeWords: Set<string>, category: string, affinity: LocationCategory[] = []): number {
+    const termWords = words(term);
+    if (termWords.length > 0 && termWords.every(word => placeWords.has(word))) {
+        return MENTION_MATCH;
+    }
+    return affinity.includes(category as LocationCategory) ? CATEGORY_MATCH : 0;
+}
+
+/**
+ * Find the best matching term
+ * @returns The term and its strength, or undefined when nothing matches
+ */
+function bestMatch(terms: string[], strength: (term: string) => number): { term: string; strength: number } | undefined {
+    let best: { term: string; strength: number } | undefined;
+
+    for (const term of terms) {
+        const value = strength(term);
+        if (value > 0 && (!best || value > best.strength)) {
+            best = { term, strength: value };
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Explain a match in words
+ */
+function explain(interest: string | undefined, trait: string | undefined, rating: number | undefined): string {
+    if (interest && trait) return `Matches your interest in ${interest} and your ${trait} side.`;
+    if (interest) return `Matches your interest in ${interest}.`;
+    if (trait) return `Suits your ${trait} side.`;
+    return rating && rating >= 4.5 ? 'A highly rated spot nearby.' : 'A popular spot nearby.';
+}
+
+/**
+ * Score a location against a persona
+ * @param location The recommended location
+ * @param persona The persona it was recommended for
+ * @param budget The requested budget, if any
+ * @returns The location with relevanceScore and recommendationContext filled in
+ */
+export function scoreLocation(location: Location, persona: PartialEnhancedPersona, budget?: Budget): Location {
+    const category = location.category.toLowerCase();
+    const placeWords = new Set(words(`${location.name} ${category} ${location.description}`));
+
+    const interest = bestMatch(persona.interests, term => matchStrength(
+        term,
+        placeWords,
+        category,
+        persona.interestCategories?.[term] ? INTEREST_AFFINITY[persona.interestCategories[term]] : undefined
+    ));
+    const trait = bestMatch(persona.traits, term => matchStrength(
+        term,
+        placeWords,
+        category,
+        TRAIT_AFFINITY[term.toLowerCase()]
+    ));
+
+    const ratingShare = location.rating !== undefined
+        ? Math.min(1, Math.max(0, (location.rating - 1) / 4))
+        : UNRATED;
+
+    const breakdown: RelevanceBreakdown = {
+        interest: Math.round(INTEREST_POINTS * (interest?.strength ?? 0)),
+        trait: Math.round(TRAIT_POINTS * (trait?.strength ?? 0)),
+        rating: Math.round(RATING_POINTS * ratingShare),
+    };
+    if (budget && location.priceLevel !== undefined) {
+        breakdown.budget = budgetPenalty(location.priceLevel, budget);
+    }
+
+    const recommendationContext: LocationRecommendationContext = {
+        interest: interest?.term,
+        trait: trait?.term,
+        relevance: explain(interest?.term, trait?.term, location.rating),
+        breakdown,
+    };
+
+    return {
+        ...location,
+        relevanceScore: Math.max(0, breakdown.interest + breakdown.trait + breakdown.rating + (breakdown.budget ?? 0)),
+        recommendationContext,
+    };
+}
+
+/**
+ * Order locations from most to least relevant. Unscored locations keep their place after
+ * scored ones, and ties keep their original order.
+ * @param locations Locations to order
+ * @returns A new, sorted array
+ */
+export function sortByRelevance<T extends Pick<Location, 'relevanceScore'>>(locations: T[]): T[] {
+    return [...locations].sort((a, b) => (b.relevanceScore ?? -1) - (a.relevanceScore ?? -1));
+}
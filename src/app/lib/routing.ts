@@ -0,0 +1,173 @@
+import { Coordinates, Location } from '../types/location';
+import { OptimizedRoute, RouteLeg, RouteMetric } from '../types/itinerary';
+import { haversineKm, isCoordinates } from './geo';
+import { estimateLeg } from './itinerary';
+
+/**
+ * Route optimization without the Maps JS SDK: a nearest-neighbour tour improved with 2-opt
+ * over a straight-line distance or estimated travel-time matrix. Good enough for the
+ * handful of stops in a day out, and deterministic, so routes can be tested and exported.
+ */
+
+// Ids used in legs for fixed points that are not locations
+export const ROUTE_START_ID = 'start';
+export const ROUTE_END_ID = 'end';
+
+export interface RouteOptimizationOptions {
+    start?: Coordinates; // Fixed starting point, e.g. a hotel
+    end?: Coordinates; // Fixed finishing point (ignored for round trips)
+    roundTrip?: boolean; // Return to the start (or the first stop) at the end
+    metric?: RouteMetric; // Defaults to distance
+}
+
+/**
+ * Whether a request body holds a list of locations that can be put on a route
+ */
+export function isRoutableLocationList(value: unknown): value is Location[] {
+    return Array.isArray(value) && value.every(location =>
+        typeof location?.id === 'string' &&
+        typeof location.name === 'string' &&
+        typeof location.category === 'string' &&
+        isCoordinates(location.coordinates)
+    );
+}
+
+// Node of the route graph: a location or a fixed endpoint
+interface RouteNode {
+    id: string;
+    coordinates: Coordinates;
+}
+
+type CostMatrix = number[][];
+
+/**
+ * Pairwise travel costs between points
+ * @param points The points
+ * @param metric Straight-line kilometres or estimated travel minutes
+ */
+export function costMatrix(points: Coordinates[], metric: RouteMetric = 'distance'): CostMatrix {
+    return points.map(from => points.map(to => (
+        metric === 'time' ? estimateLeg(from, to).durationMinutes : haversineKm(from, to)
+    )));
+}
+
+/**
+ * Total cost of visiting nodes in order
+ * @param closed Whether the route returns to its first node
+ */
+function sequenceCost(sequence: number[], matrix: CostMatrix, closed: boolean): number {
+    let cost = 0;
+    for (let i = 1; i < sequence.length; i++) {
+        cost += matrix[sequence[i - 1]][sequence[i]];
+    }
+    return closed && sequence.length > 1 ? cost + matrix[sequence[sequence.length - 1]][sequence[0]] : cost;
+}
+
+/**
+ * Greedy tour: from the first node, always go to the closest unvisited one
+ */
+function nearestNeighbour(first: number, others: number[], matrix: CostMatrix): number[] {
+    const sequence = [first];
+    const unvisited = new Set(others);
+
+    while (unvisited.size > 0) {
+        const current = sequence[sequence.length - 1];
+        let next = -1;
+        for (const candidate of unvisited) {
+            if (next === -1 || matrix[current][candidate] < matrix[current][next]) next = candidate;
+        }
+        sequence.push(next);
+        unvisited.delete(next);
+    }
+
+    return sequence;
+}
+
+/**
+ * Improve a route by reversing segments while that makes it cheaper
+ * @param sequence Node indices in visiting order
+ * @param matrix Travel costs
+ * @param closed Whether the route returns to its first node
+ * @param fixedFirst Keep the first node in place
+ * @param fixedLast Keep the last node in place
+ */
+function twoOpt(sequence: number[], matrix: CostMatrix, closed: boolean, fixedFirst: boolean, fixedLast: boolean): number[] {
+    let best = sequence;
+    let bestCost = sequenceCost(best, matrix, closed);
+    const first = fixedFirst ? 1 : 0;
+    const last = fixedLast ? best.length - 2 : best.length - 1;
+
+    let improved = true;
+    while (improved) {
+        improved = false;
+        for (let i = first; i < last; i++) {
+            for (let k = i + 1; k <= last; k++) {
+                const candidate = [...best.slice(0, i), ...best.slice(i, k + 1).reverse(), ...best.slice(k + 1)];
+                const cost = sequenceCost(candidate, matrix, closed);
+                // Ignore floating-point noise so the loop always ends
+                if (cost < bestCost - 1e-9) {
+                    best = candidate;
+                    bestCost = cost;
+                    improved = true;
+                }
+            }
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Compute a good order to visit locations in
+ * @param locations The places to visit
+ * @param options Fixed start/end points, round trip and metric
+ * @returns The visiting order, path, per-leg estimates and totals
+ */
+export function optimizeRoute(locations: Location[], options: RouteOptimizationOptions = {}): OptimizedRoute {
+    const { start, roundTrip = false, metric = 'distance' } = options;
+    const end = roundTrip ? undefined : options.end;
+
+    const nodes: RouteNode[] = [
+        ...(start ? [{ id: ROUTE_START_ID, coordinates: start }] : []),
+        ...locations.map(location => ({ id: location.id, coordinates: location.coordinates })),
+        ...(end ? [{ id: ROUTE_END_ID, coordinates: end }] : []),
+    ];
+    const matrix = costMatrix(nodes.map(node => node.coordinates), metric);
+
+    const startIndex = start ? 0 : undefined;
+    const endIndex = end ? nodes.length - 1 : undefined;
+    const stopIndices = nodes.map((_, index) => index).filter(index => index !== startIndex && index !== endIndex);
+
+    // Build a greedy route, trying every stop as the first one when no start is fixed
+    const withEnd = (sequence: number[]) => (endIndex === undefined ? sequence : [...sequence, endIndex]);
+    const candidates = startIndex !== undefined
+        ? [withEnd(nearestNeighbour(startIndex, stopIndices, matrix))]
+        : stopIndices.map(first => withEnd(nearestNeighbour(first, stopIndices.filter(index => index !== first), matrix)));
+
+    const greedy = candidates.reduce<number[]>((best, sequence) => (
+        best.length === 0 || sequenceCost(sequence, matrix, roundTrip) < sequenceCost(best, matrix, roundTrip) ? sequence : best
+    ), []);
+
+    // A round trip is the same tour from any node, so its first node can stay put
+    const sequence = twoOpt(greedy, matrix, roundTrip, startIndex !== undefined || roundTrip, endIndex !== undefined);
+    const visited = roundTrip && sequence.length > 1 ? [...sequence, sequence[0]] : sequence;
+
+    const legs: RouteLeg[] = visited.slice(1).map((to, index) => {
+        const from = visited[index];
+        return {
+            from: nodes[from].id,
+            to: nodes[to].id,
+            ...estimateLeg(nodes[from].coordinates, nodes[to].coordinates),
+        };
+    });
+
+    return {
+        order: sequence.filter(index => index !== startIndex && index !== endIndex).map(index => nodes[index].id),
+        path: visited.map(index => nodes[index].coordinates),
+        legs,
+        roundTrip,
+        metric,
+        totalDistanceKm: Math.round(legs.reduce((total, leg) => total + leg.distanceKm, 0) * 10) / 10,
+        totalDurationMinutes: legs.reduce((total, leg) => total + leg.durationMinutes, 0),
+    };
+}
@@ -0,0 +1,356 @@
+import { OpenAIPersonaResponse } from '../types/api';
+import { CityContext, Location, LocationCategory } from '../types/location';
+import { ErrorCode } from '../types/errors';
+import { InterestCategory, TraitCategory } from '../types/persona';
+import { AppError } from './errors';
+import { haversineKm } from './geo';
+import { MAX_PRICE_LEVEL, MIN_PRICE_LEVEL } from './budget';
+
+/**
+ * Runtime schemas for structured LLM output. Validators coerce harmless variations
+ * (numeric strings, comma-separated lists, plural categories) and report everything else
+ * as issues that can be fed back to the model for repair.
+ */
+
+export interface SchemaIssue {
+    path: string; // e.g. "locations[2].coordinates.lat"
+    message: string;
+}
+
+export type SchemaResult<T> =
+    | { success: true; data: T; issues: SchemaIssue[] } // issues lists items that were dropped
+    | { success: false; issues: SchemaIssue[] };
+
+// A location candidate as produced by the model, before an id is assigned
+export type LocationCandidate = Omit<Location, 'id'>;
+
+/**
+ * Thrown when model output still fails validation after all repair attempts
+ */
+export class LLMValidationError extends AppError {
+    readonly issues: SchemaIssue[];
+
+    constructor(what: string, issues: SchemaIssue[]) {
+        super(
+            ErrorCode.LLM_INVALID_OUTPUT,
+            `The AI model returned an invalid ${what}. Please try again.`,
+            { upstream: 'llm', cause: new Error(formatIssues(issues)) }
+        );
+        this.name = 'LLMValidationError';
+        this.issues = issues;
+    }
+}
+
+/**
+ * Format issues as a compact, model-readable list
+ */
+export function formatIssues(issues: SchemaIssue[]): string {
+    return issues.map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join('; ');
+}
+
+const MAX_LIST_ITEMS = 10;
+const MIN_RATING = 1;
+const MAX_RATING = 5;
+const OUT_OF_AREA_FACTOR = 2; // How far beyond the city radius a location may lie
+
+// Categories we ask the model for, plus common variants it returns instead
+const CATEGORY_ALIASES: Record<string, LocationCategory> = {
+    restaurants: LocationCategory.RESTAURANT,
+    food: LocationCategory.RESTAURANT,
+    cafes: LocationCategory.CAFE,
+    coffee: LocationCategory.CAFE,
+    bars: LocationCategory.BAR,
+    parks: LocationCategory.PARK,
+    museums: LocationCategory.MUSEUM,
+    shops: LocationCategory.SHOP,
+    store: LocationCategory.SHOP,
+    stores: LocationCategory.SHOP,
+    attractions: LocationCategory.ATTRACTION,
+    landmark: LocationCategory.ATTRACTION,
+};
+
+const CATEGORY_VALUES = new Set<string>(Object.values(LocationCategory));
+const TRAIT_CATEGORY_VALUES = new Set<string>(Object.values(TraitCategory));
+const INTEREST_CATEGORY_VALUES = new Set<string>(Object.values(InterestCategory));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown): number | undefined => {
+    const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+    return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+};
+
+/**
+ * Parse a price level given as a number or as dollar signs ("$$")
+ * @returns 0-4, or undefined if missing or out of range
+ */
+function parsePriceLevel(value: unknown): number | undefined {
+    const level = typeof value === 'string' && /^\$+$/.test(value.trim()) ? value.trim().length : toNumber(value);
+    return level !== undefined && Number.isInteger(level) && level >= MIN_PRICE_LEVEL && level <= MAX_PRICE_LEVEL
+        ? level
+        : undefined;
+}
+
+/**
+ * Read a required non-empty string field
+ */
+function requireString(record: Record<string, unknown>, key: string, path: string, issues: SchemaIssue[]): string {
+    const value = record[key];
+    if (typeof value !== 'string' || !value.trim()) {
+        issues.push({ path: `${path}${key}`, message: 'must be a non-empty string' });
+        return '';
+    }
+    return value.trim();
+}
+
+/**
+ * Read a list of strings, accepting a comma-separated string as well
+ */
+function requireStringList(record: Record<string, unknown>, key: string, issues: SchemaIssue[]): string[] {
+    const value = record[key];
+    const items = typeof value === 'string' ? value.split(',') : value;
+
+    if (!Array.isArray(items)) {
+        issues.push({ path: key, message: 'must be an array of strings' });
+        return [];
+    }
+
+    const seen = new Set<string>();
+    const list = items
+        .filter((item): item is string => typeof item === 'string')
+        .map(item => item.trim())
+        .filter(item => item && !seen.has(item.toLowerCase()) && seen.add(item.toLowerCase()));
+
+    if (list.length === 0) {
+        issues.push({ path: key, message: 'must contain at least one entry' });
+    }
+
+    return list.slice(0, MAX_LIST_ITEMS);
+}
+
+/**
+ * Read an optional list of strings; anything unusable yields undefined
+ */
+function optionalStringList(record: Record<string, unknown>, key: string): string[] | undefined {
+    const value = record[key];
+    const items = typeof value === 'string' ? value.split(',') : value;
+    if (!Array.isArray(items)) return undefined;
+
+    const list = items
+        .filter((item): item is string => typeof item === 'string')
+        .map(item => item.trim())
+        .filter(Boolean)
+        .slice(0, MAX_LIST_ITEMS);
+
+    return list.length > 0 ? list : undefined;
+}
+
+/**
+ * Read a map of item to category for the given items. Categories are matched case-insensitively;
+ * entries for unknown items or with unknown categories are dropped.
+ */
+function parseCategoryMap<C extends string>(value: unknown, items: string[], categories: Set<string>): Record<string, C> {
+    if (!isRecord(value)) return {};
+
+    const lookup = new Map(Object.entries(value).map(([item, category]) => [item.trim().toLowerCase(), category]));
+    const result: Record<string, C> = {};
+
+    for (const item of items) {
+        const category = lookup.get(item.toLowerCase());
+        if (typeof category === 'string' && categories.has(category.trim().toLowerCase())) {
+            result[item] = category.trim().toLowerCase() as C;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Read the confidence score, accepting a 0-1 fraction as well as 0-100
+ */
+function requireConfidence(record: Record<string, unknown>, issues: SchemaIssue[]): number {
+    const value = toNumber(record.confidence);
+
+    if (value === undefined || value < 0 || value > 100) {
+        issues.push({ path: 'confidence', message: 'must be a number between 0 and 100' });
+        return 0;
+    }
+
+    return Math.round(value <= 1 && !Number.isInteger(value) ? value * 100 : value);
+}
+
+/**
+ * Validate a persona payload
+ * @param input Parsed JSON from the model
+ * @returns The coerced persona, or the issues found
+ */
+export function validatePersona(input: unknown): SchemaResult<OpenAIPersonaResponse> {
+    if (!isRecord(input)) {
+        return { success: false, issues: [{ path: '', message: 'response must be a JSON object' }] };
+    }
+
+    const issues: SchemaIssue[] = [];
+    const traits = requireStringList(input, 'traits', issues);
+    const interests = requireStringList(input, 'interests', issues);
+    const persona: OpenAIPersonaResponse = {
+        name: requireString(input, 'name', '', issues),
+        handle: typeof input.handle === 'string' ? input.handle.trim().replace(/^@/, '') : '',
+        bio: requireString(input, 'bio', '', issues),
+        traits,
+        interests,
+        confidence: requireConfidence(input, issues),
+        // Uncategorized items are still shown, so categories are best-effort
+        traitCategories: parseCategoryMap<TraitCategory>(input.traitCategories, traits, TRAIT_CATEGORY_VALUES),
+        interestCategories: parseCategoryMap<InterestCategory>(input.interestCategories, interests, INTEREST_CATEGORY_VALUES),
+        locationPreferences: optionalStringList(input, 'locationPreferences'),
+        activityPreferences: optionalStringList(input, 'activityPreferences'),
+        timePreferences: optionalStringList(input, 'timePreferences'),
+    };
+
+    return issues.length > 0 ? { success: false, issues } : { success: true, data: persona, issues };
+}
+
+/**
+ * Normalize a category to a LocationCategory value
+ */
+function parseCategory(value: unknown): string | undefined {
+    if (typeof value !== 'string') return undefined;
+
+    const category = value.trim().toLowerCase();
+    if (CATEGORY_VALUES.has(category)) return category;
+    return CATEGORY_ALIASES[category];
+}
+
+/**
+ * Parse coordinates from {lat, lng}, {latitude, longitude} or top-level lat/lng fields
+ */
+function parseCoordinates(record: Record<string, unknown>, path: string, issues: SchemaIssue[]) {
+    const source = isRecord(record.coordinates) ? record.coordinates : record;
+    const lat = toNumber(source.lat ?? source.latitude);
+    const lng = toNumber(source.lng ?? source.lon ?? source.longitude);
+
+    if (lat === undefined || lat < -90 || lat > 90) {
+        issues.push({ path: `${path}coordinates.lat`, message: 'must be a number between -90 and 90' });
+    }
+    if (lng === undefined || lng < -180 || lng > 180) {
+        issues.push({ path: `${path}coordinates.lng`, message: 'must be a number between -180 and 180' });
+    }
+
+    return lat !== undefined && lng !== undefined ? { lat, lng } : undefined;
+}
+
+/**
+ * Accept only absolute http(s) URLs to real sites (Google Maps links are not official websites)
+ */
+export function isValidWebsite(value: string): boolean {
+    try {
+        const url = new URL(value);
+        return (url.protocol === 'http:' || url.protocol === 'https:')
+            && url.hostname.includes('.')
+            && !(url.hostname.includes('google.') && url.pathname.startsWith('/maps'))
+            && url.hostname !== 'maps.google.com'
+            && url.hostname !== 'goo.gl';
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Validate a single location candidate
+ * @param input Parsed location object
+ * @param path Path prefix for issues, e.g. "locations[0]."
+ * @param city City the location must lie in
+ * @param issues Collected issues
+ * @returns The coerced candidate, or null if it is invalid
+ */
+function validateLocation(
+    input: unknown,
+    path: string,
+    city: CityContext,
+    issues: SchemaIssue[]
+): LocationCandidate | null {
+    if (!isRecord(input)) {
+        issues.push({ path: path.replace(/\.$/, ''), message: 'must be an object' });
+        return null;
+    }
+
+    const itemIssues: SchemaIssue[] = [];
+    const name = requireString(input, 'name', path, itemIssues);
+    const address = requireString(input, 'address', path, itemIssues);
+    const description = typeof input.description === 'string' ? input.description.trim() : '';
+
+    const category = parseCategory(input.category);
+    if (!category) {
+        itemIssues.push({
+            path: `${path}category`,
+            message: `must be one of: ${[...CATEGORY_VALUES].join(', ')} (got ${JSON.stringify(input.category)})`,
+        });
+    }
+
+    const coordinates = parseCoordinates(input, path, itemIssues);
+    if (coordinates && itemIssues.length === 0) {
+        const distanceKm = haversineKm(coordinates, city.center);
+        if (distanceKm > city.radiusKm * OUT_OF_AREA_FACTOR) {
+            itemIssues.push({
+                path: `${path}coordinates`,
+                message: `is ${Math.round(distanceKm)}km from ${city.name}, outside the ${city.radiusKm}km search area`,
+            });
+        }
+    }
+
+    let rating: number | undefined;
+    if (input.rating !== undefined && input.rating !== null) {
+        rating = toNumber(input.rating);
+        if (rating === undefined || rating < MIN_RATING || rating > MAX_RATING) {
+            itemIssues.push({ path: `${path}rating`, message: `must be a number between ${MIN_RATING} and ${MAX_RATING}` });
+        }
+    }
+
+    // An unusable website is dropped rather than rejecting the whole location
+    const website = typeof input.website === 'string' && isValidWebsite(input.website.trim())
+        ? input.website.trim()
+        : undefined;
+
+    // Likewise an unusable price level, which is estimated from the category later
+    const priceLevel = parsePriceLevel(input.priceLevel);
+
+    if (itemIssues.length > 0 || !coordinates || !category) {
+        issues.push(...itemIssues);
+        return null;
+    }
+
+    return { name, address, description, category, coordinates, rating, website, priceLevel };
+}
+
+/**
+ * Validate a location recommendations payload. Invalid items are dropped and reported;
+ * the payload only fails as a whole when its shape is wrong or no item is usable.
+ * @param input Parsed JSON from the model ({ locations: [...] } or a bare array)
+ * @param city City the locations must lie in
+ * @returns The valid candidates plus issues for dropped items, or the issues found
+ */
+export function validateLocations(input: unknown, city: CityContext): SchemaResult<LocationCandidate[]> {
+    const items = Array.isArray(input) ? input : isRecord(input) ? input.locations : undefined;
+
+    if (!Array.isArray(items)) {
+        return {
+            success: false,
+            issues: [{ path: 'locations', message: 'response must be a JSON object with a "locations" array' }],
+        };
+    }
+
+    const issues: SchemaIssue[] = [];
+    const locations = items
+        .map((item, index) => validateLocation(item, `locations[${index}].`, city, issues))
+        .filter((location): location is LocationCandidate => location !== null);
+
+    if (locations.length === 0) {
+        if (issues.length === 0) {
+            issues.push({ path: 'locations', message: 'must contain at least one location' });
+        }
+        return { success: false, issues };
+    }
+
+    return { success: true, data: locations, issues };
+}
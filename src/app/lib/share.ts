@@ -0,0 +1,203 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SharedResult, SharedResultInput } from '../types/share';
+import { isCoordinates } from './geo';
+import { isRoutableLocationList } from './routing';
+import { isPersonaList, MAX_GROUP_SIZE } from './group';
+import { validatePersona } from './schemas';
+import { PartialEnhancedPersona } from '../types/persona';
+
+/**
+ * Permalinks for generated results: snapshots of a persona and its places stored under a
+ * short random id, so they survive a refresh and can be sent to friends.
+ */
+
+// Upper bounds that keep a snapshot to a sensible size
+export const MAX_SHARED_LOCATIONS = 50;
+export const MAX_SHARED_BYTES = 256 * 1024;
+
+const SHARE_ID_LENGTH = 10;
+const SHARE_ID_ALPHABET = 'abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No look-alike characters
+const SHARE_ID_PATTERN = new RegExp(`^[${SHARE_ID_ALPHABET}]{${SHARE_ID_LENGTH}}$`);
+
+/**
+ * Storage behind permalinks. Snapshots are immutable once stored.
+ */
+export interface ShareStore {
+    get(id: string): Promise<SharedResult | undefined>;
+    put(result: SharedResult): Promise<void>;
+    has(id: string): Promise<boolean>;
+}
+
+/**
+ * In-memory store, used in tests and when nothing needs to survive a restart
+ */
+export class MemoryShareStore implements ShareStore {
+    private readonly results = new Map<string, SharedResult>();
+
+    async get(id: string): Promise<SharedResult | undefined> {
+        return this.results.get(id);
+    }
+
+    async put(result: SharedResult): Promise<void> {
+        this.results.set(result.id, result);
+    }
+
+    async has(id: string): Promise<boolean> {
+        return this.results.has(id);
+    }
+}
+
+/**
+ * File-system store: one JSON file per snapshot (the default)
+ */
+export class FileShareStore implements ShareStore {
+    constructor(private readonly directory: string) {}
+
+    private filePath(id: string): string {
+        return path.join(this.directory, `${id}.json`);
+    }
+
+    async get(id: string): Promise<SharedResult | undefined> {
+        // Ids become file names, so never read anything that is not one
+        if (!isShareId(id)) return undefined;
+        try {
+            return JSON.parse(await fs.readFile(this.filePath(id), 'utf8')) as SharedResult;
+        } catch {
+            return undefined;
+        }
+    }
+
+    async put(result: SharedResult): Promise<void> {
+        await fs.mkdir(this.directory, { recursive: true });
+        // "wx" fails instead of overwriting an existing snapshot
+        await fs.writeFile(this.filePath(result.id), JSON.stringify(result), { encoding: 'utf8', flag: 'wx' });
+    }
+
+    async has(id: string): Promise<boolean> {
+        return (await this.get(id)) !== undefined;
+    }
+}
+
+/**
+ * A new random share id, e.g. "k3TzQ8pWmb"
+ */
+export function createShareId(): string {
+    return Array.from(randomBytes(SHARE_ID_LENGTH), byte => SHARE_ID_ALPHABET[byte % SHARE_ID_ALPHABET.length]).join('');
+}
+
+/**
+ * Whether a value looks like a share id
+ */
+export function isShareId(value: unknown): value is string {
+    return typeof value === 'string' && SHARE_ID_PATTERN.test(value);
+}
+
+/**
+ * Whether a value is a persona that can be shared: the persona schema, except that the bio may
+ * have been cleared by an edit and merged group personas have no confidence score
+ */
+function isSharedPersona(value: unknown): value is PartialEnhancedPersona {
+    if (!isPersonaList([value])) return false;
+
+    const persona = value as PartialEnhancedPersona;
+    const result = validatePersona(persona);
+    return result.success || result.issues.every(issue =>
+        (issue.path === 'bio' && typeof persona.bio === 'string') ||
+        (issue.path === 'confidence' && persona.confidence === undefined)
+    );
+}
+
+/**
+ * Check a share request body
+ * @returns An error message, or undefined when the snapshot can be stored
+ */
+export function validateSharedResult(input: Partial<SharedResultInput>): string | undefined {
+    const { persona, group, locations, city, centerCoordinates, radiusKm } = input;
+
+    if (!isSharedPersona(persona)) {
+        return 'Invalid request. Please provide the persona to share.';
+    }
+    if (group !== undefined && (!Array.isArray(group) || !group.every(isSharedPersona) || group.length > MAX_GROUP_SIZE)) {
+        return 'Invalid group. Please provide the personas of the group members.';
+    }
+    if (!isRoutableLocationList(locations) || locations.length === 0) {
+        return 'Invalid request. Please provide the locations to share.';
+    }
+    if (locations.length > MAX_SHARED_LOCATIONS) {
+        return `Too many locations. Please share at most ${MAX_SHARED_LOCATIONS} places.`;
+    }
+    if (typeof city !== 'string' || !city.trim()) {
+        return 'Invalid request. Please provide the city.';
+    }
+    if (centerCoordinates !== undefined && !isCoordinates(centerCoordinates)) {
+        return 'Invalid map center. Please provide { lat, lng } coordinates.';
+    }
+    if (radiusKm !== undefined && (typeof radiusKm !== 'number' || !(radiusKm > 0))) {
+        return 'Invalid radius. Please provide a positive number of kilometres.';
+    }
+    if (Buffer.byteLength(JSON.stringify(input)) > MAX_SHARED_BYTES) {
+        return 'These results are too large to share.';
+    }
+    return undefined;
+}
+
+/**
+ * Store a snapshot under a new id
+ * @param input Persona, places and map settings (already validated)
+ * @param store Where to keep it
+ * @returns The stored snapshot
+ */
+export async function saveSharedResult(input: SharedResultInput, store: ShareStore = shareStore()): Promise<SharedResult> {
+    // Collisions are very unlikely, but never hand out an id twice
+    let id = createShareId();
+    while (await store.has(id)) {
+        id = createShareId();
+    }
+
+    const result: SharedResult = {
+        id,
+        createdAt: new Date().toISOString(),
+        persona: input.persona,
+        group: input.group,
+        locations: input.locations,
+        city: input.city.trim(),
+        centerCoordinates: input.centerCoordinates,
+        radiusKm: input.radiusKm,
+    };
+    await store.put(result);
+    return result;
+}
+
+/**
+ * Look up a shared snapshot
+ * @returns The snapshot, or undefined for unknown or malformed ids
+ */
+export async function loadSharedResult(id: string, store: ShareStore = shareStore()): Promise<SharedResult | undefined> {
+    return isShareId(id) ? store.get(id) : undefined;
+}
+
+/**
+ * Create the store configured by SHARE_DIR
+ */
+function createShareStore(): ShareStore {
+    return new FileShareStore(process.env.SHARE_DIR || path.join(process.cwd(), '.data', 'shares'));
+}
+
+// Lazy-loaded singleton instance - only created when used
+let storeInstance: ShareStore | null = null;
+export const shareStore = () => {
+    if (!storeInstance) {
+        storeInstance = createShareStore();
+    }
+    return storeInstance;
+};
+
+/**
+ * Replace the store used for permalinks (e.g. with a database-backed one, or in tests)
+ * @param store The store to use from now on
+ */
+export const setShareStore = (store: ShareStore) => {
+    storeInstance = store;
+};
@@ -0,0 +1,89 @@
+import { AxiosInstance } from 'axios';
+import { PipelineProgressHandler } from '../../types/api';
+import { PersonaGenerationContext, PROFILE_SOURCE_LABELS } from '../../types/persona';
+import { ProfileSource, MAX_POSTS, isNotFoundError } from './types';
+import { httpClient } from '../http';
+
+interface BlueskyProfile {
+    did: string;
+    handle: string;
+    displayName?: string;
+    description?: string;
+    avatar?: string;
+}
+
+interface BlueskyFeedItem {
+    post: {
+        author: { did: string };
+        record: { text?: string };
+    };
+    reason?: unknown; // Present for reposts
+}
+
+/**
+ * Bluesky profiles, read from the public AppView JSON API (no authentication required)
+ */
+export class BlueskyProfileSource implements ProfileSource {
+    readonly type = 'bluesky' as const;
+    readonly label = PROFILE_SOURCE_LABELS.bluesky;
+    readonly upstream = 'bluesky' as const;
+    private readonly baseUrl: string = 'https://public.api.bsky.app/xrpc';
+
+    constructor(private readonly http: AxiosInstance = httpClient()) {}
+
+    normalizeIdentifier(identifier: string): string | null {
+        let handle = identifier
+            .trim()
+            .replace(/^https?:\/\/bsky\.app\/profile\//i, '')
+            .replace(/^@/, '')
+            .split(/[/?#]/)[0]
+            .toLowerCase();
+
+        // Bare usernames live on the default bsky.social PDS
+        if (handle && !handle.includes('.') && !handle.startsWith('did:')) {
+            handle = `${handle}.bsky.social`;
+        }
+
+        return /^(did:[a-z]+:[a-z0-9._:-]+|[a-z0-9-]+(\.[a-z0-9-]+)+)$/.test(handle) ? handle : null;
+    }
+
+    async fetchContext(handle: string, onProgress?: PipelineProgressHandler): Promise<PersonaGenerationContext | null> {
+        onProgress?.({ type: 'search', strategy: 1, totalStrategies: 1 });
+
+        let profile: BlueskyProfile;
+        try {
+            const response = await this.http.get(`${this.baseUrl}/app.bsky.actor.getProfile`, {
+                params: { actor: handle },
+                timeout: 15000,
+            });
+            profile = response.data;
+        } catch (error) {
+            if (isNotFoundError(error)) return null;
+            throw error;
+        }
+
+        const feedResponse = await this.http.get(`${this.baseUrl}/app.bsky.feed.getAuthorFeed`, {
+            params: { actor: profile.did, limit: MAX_POSTS, filter: 'posts_no_replies' },
+            timeout: 15000,
+        });
+
+        // Only keep the user's own posts, not reposts
+        const posts = ((feedResponse.data?.feed || []) as BlueskyFeedItem[])
+            .filter(item => !item.reason && item.post.author.did === profile.did)
+            .map(item => item.post.record.text?.trim() || '')
+            .filter(text => text.length > 0);
+
+        if (posts.length === 0 && !profile.description) {
+            return null;
+        }
+
+        return {
+            recentTweets: posts,
+            bio: profile.description || `Bluesky user @${profile.handle}`,
+            handle: profile.handle,
+            name: profile.displayName || profile.handle.split('.')[0],
+            profileImageUrl: profile.avatar,
+            source: this.type,
+        };
+    }
+}
@@ -0,0 +1,94 @@
+import { AxiosInstance } from 'axios';
+import { PipelineProgressHandler } from '../../types/api';
+import { PersonaGenerationContext, PROFILE_SOURCE_LABELS } from '../../types/persona';
+import { ProfileSource, MAX_POSTS, isNotFoundError } from './types';
+import { httpClient } from '../http';
+
+interface GitHubUser {
+    login: string;
+    name: string | null;
+    bio: string | null;
+    avatar_url: string;
+    company: string | null;
+    location: string | null;
+    blog: string | null;
+}
+
+interface GitHubRepo {
+    name: string;
+    description: string | null;
+    language: string | null;
+    topics?: string[];
+    fork: boolean;
+}
+
+/**
+ * GitHub profiles. Public repositories stand in for posts: their descriptions,
+ * languages and topics say a lot about what someone spends time on.
+ */
+export class GitHubProfileSource implements ProfileSource {
+    readonly type = 'github' as const;
+    readonly label = PROFILE_SOURCE_LABELS.github;
+    readonly upstream = 'github' as const;
+    private readonly baseUrl: string = 'https://api.github.com';
+
+    constructor(private readonly http: AxiosInstance = httpClient()) {}
+
+    normalizeIdentifier(identifier: string): string | null {
+        const login = identifier
+            .trim()
+            .replace(/^https?:\/\/(www\.)?github\.com\//i, '')
+            .replace(/^@/, '')
+            .split(/[/?#]/)[0];
+
+        return /^[A-Za-z0-9](?:[A-Za-z0-9-]{0,38})$/.test(login) ? login : null;
+    }
+
+    async fetchContext(login: string, onProgress?: PipelineProgressHandler): Promise<PersonaGenerationContext | null> {
+        onProgress?.({ type: 'search', strategy: 1, totalStrategies: 1 });
+
+        const headers: Record<string, string> = { Accept: 'application/vnd.github+json' };
+        // Optional token raises the unauthenticated rate limit of 60 requests/hour
+        if (process.env.GITHUB_TOKEN) {
+            headers.Authorization = `Bearer ${process.env.GITHUB_TOKEN}`;
+        }
+
+        let user: GitHubUser;
+        try {
+            const response = await this.http.get(`${this.baseUrl}/users/${login}`, { headers, timeout: 15000 });
+            user = response.data;
+        } catch (error) {
+            if (isNotFoundError(error)) return null;
+            throw error;
+        }
+
+        const reposResponse = await this.http.get(`${this.baseUrl}/users/${login}/repos`, {
+            params: { sort: 'updated', per_page: MAX_POSTS },
+            headers,
+            timeout: 15000,
+        });
+
+        const posts = ((reposResponse.data || []) as GitHubRepo[])
+            .filter(repo => !repo.fork && (repo.description || repo.topics?.length))
+            .map(repo => {
+                const details = [repo.language, ...(repo.topics || [])].filter(Boolean).join(', ');
+                return [`${repo.name}:`, repo.description, details && `(${details})`].filter(Boolean).join(' ');
+            });
+
+        const bioParts = [user.bio, user.company && `Works at ${user.company}`, user.location && `Based in ${user.location}`]
+            .filter(Boolean);
+
+        if (posts.length === 0 && bioParts.length === 0) {
+            return null;
+        }
+
+        return {
+            recentTweets: posts,
+            bio: bioParts.join('. ') || `GitHub user ${user.login}`,
+            handle: user.login,
+            name: user.name || user.login,
+            profileImageUrl: user.avatar_url,
+            source: this.type,
+        };
+    }
+}
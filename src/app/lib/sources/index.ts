@@ -0,0 +1,45 @@
+import { ProfileSourceType } from '../../types/persona';
+import { ProfileSource } from './types';
+import { XProfileSource } from './x';
+import { BlueskyProfileSource } from './bluesky';
+import { MastodonProfileSource } from './mastodon';
+import { GitHubProfileSource } from './github';
+
+export type { ProfileSource } from './types';
+export { XProfileSource, BlueskyProfileSource, MastodonProfileSource, GitHubProfileSource };
+
+export const PROFILE_SOURCE_TYPES: ProfileSourceType[] = ['x', 'bluesky', 'mastodon', 'github'];
+
+// Lazy-loaded singleton instances - only created when used
+const sourceInstances: Partial<Record<ProfileSourceType, ProfileSource>> = {};
+
+/**
+ * Get the profile source for a network
+ * @param type The network to read profiles from
+ * @returns The profile source, or null for unknown networks
+ */
+export const profileSource = (type: string): ProfileSource | null => {
+    if (!PROFILE_SOURCE_TYPES.includes(type as ProfileSourceType)) {
+        return null;
+    }
+
+    const sourceType = type as ProfileSourceType;
+    if (!sourceInstances[sourceType]) {
+        switch (sourceType) {
+            case 'x':
+                sourceInstances[sourceType] = new XProfileSource();
+                break;
+            case 'bluesky':
+                sourceInstances[sourceType] = new BlueskyProfileSource();
+                break;
+            case 'mastodon':
+                sourceInstances[sourceType] = new MastodonProfileSource();
+                break;
+            case 'github':
+                sourceInstances[sourceType] = new GitHubProfileSource();
+                break;
+        }
+    }
+
+    return sourceInstances[sourceType] || null;
+};
@@ -0,0 +1,186 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIPv4 } from 'net';
+import { AxiosInstance } from 'axios';
+import { PipelineProgressHandler } from '../../types/api';
+import { PersonaGenerationContext, PROFILE_SOURCE_LABELS } from '../../types/persona';
+import { ProfileSource, MAX_POSTS, stripHtml, isNotFoundError } from './types';
+import { httpClient } from '../http';
+import { AppError } from '../errors';
+import { ErrorCode } from '../../types/errors';
+
+interface MastodonAccount {
+    id: string;
+    username: string;
+    acct: string;
+    display_name: string;
+    note: string; // HTML
+    avatar: string;
+}
+
+interface MastodonStatus {
+    content: string; // HTML
+    spoiler_text?: string;
+}
+
+// Special-use names that resolve to the local machine or a private network
+const PRIVATE_HOST_SUFFIXES = ['localhost', 'local', 'internal', 'localdomain', 'home.arpa'];
+
+/**
+ * Whether an instance host is a public DNS name. The host comes from the user and is
+ * fetched server-side, so IP literals, ports, userinfo and private names are refused.
+ */
+export function isPublicHostname(host: string): boolean {
+    // Plain dotted labels only: rules out ports, userinfo and IPv6 literals
+    if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(host)) return false;
+
+    // A top-level domain starts with a letter; numeric ones make the host an IPv4 literal
+    const labels = host.split('.');
+    if (!/^[a-z]/.test(labels[labels.length - 1])) return false;
+
+    return !PRIVATE_HOST_SUFFIXES.some(suffix => host === suffix || host.endsWith(`.${suffix}`));
+}
+
+// Loopback, private, link-local, shared (CGNAT) and unique local ranges, plus "this network"
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16]] as const) {
+    PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10]] as const) {
+    PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether a resolved IP address is on the local machine or a private network
+ */
+export function isPrivateAddress(address: string): boolean {
+    // IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) reach the IPv4 host
+    const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPrivateAddress(mapped[1]);
+
+    return isIPv4(address)
+        ? PRIVATE_ADDRESSES.check(address, 'ipv4')
+        : PRIVATE_ADDRESSES.check(address, 'ipv6');
+}
+
+// Resolves a host name to every address it points at
+export type HostResolver = (host: string) => Promise<string[]>;
+
+const resolveHost: HostResolver = async host => (await lookup(host, { all: true })).map(entry => entry.address);
+
+// Redirects are not followed: an instance could otherwise send the request to an internal URL
+const REQUEST_OPTIONS = { timeout: 15000, maxRedirects: 0 };
+
+/**
+ * Mastodon (and other Fediverse servers implementing the Mastodon API) profiles,
+ * read from the instance's public JSON API
+ */
+export class MastodonProfileSource implements ProfileSource {
+    readonly type = 'mastodon' as const;
+    readonly label = PROFILE_SOURCE_LABELS.mastodon;
+    readonly upstream = 'mastodon' as const;
+
+    /**
+     * @param http HTTP client for the instance API
+     * @param resolve DNS resolver used to check that the instance is not on a private network
+     */
+    constructor(
+        private readonly http: AxiosInstance = httpClient(),
+        private readonly resolve: HostResolver = resolveHost
+    ) {}
+
+    normalizeIdentifier(identifier: string): string | null {
+        const value = identifier.trim();
+
+        // Profile URL, e.g. https://mastodon.social/@user
+        const urlMatch = value.match(/^https?:\/\/([^/]+)\/@([A-Za-z0-9_.-]+)/i);
+        // Account address, e.g. @user@mastodon.social
+        const acctMatch = value.replace(/^@/, '').match(/^([A-Za-z0-9_.-]+)@([^@]+)$/);
+
+        const [username, host] = urlMatch
+            ? [urlMatch[2], urlMatch[1]]
+            : acctMatch ? [acctMatch[1], acctMatch[2]] : [];
+        if (!username || !host || !isPublicHostname(host.toLowerCase())) {
+            return null;
+        }
+
+        return `${username}@${host.toLowerCase()}`;
+    }
+
+    async fetchContext(acct: string, onProgress?: PipelineProgressHandler): Promise<PersonaGenerationContext | null> {
+        onProgress?.({ type: 'search', strategy: 1, totalStrategies: 1 });
+
+        const [username, instance] = acct.split('@');
+        await this.assertPublicInstance(instance);
+        const baseUrl = `https://${instance}/api/v1`;
+
+        let account: MastodonAccount;
+        try {
+            const response = await this.get(`${baseUrl}/accounts/lookup`, { acct: username });
+            account = response.data;
+        } catch (error) {
+            if (isNotFoundError(error)) return null;
+            throw error;
+        }
+
+        const statusesResponse = await this.get(`${baseUrl}/accounts/${encodeURIComponent(account.id)}/statuses`, {
+            limit: MAX_POSTS,
+            exclude_replies: true,
+            exclude_reblogs: true,
+        });
+
+        const posts = ((statusesResponse.data || []) as MastodonStatus[])
+            .map(status => [status.spoiler_text, stripHtml(status.content)].filter(Boolean).join(' — ').trim())
+            .filter(text => text.length > 0);
+
+        const bio = stripHtml(account.note || '');
+
+        if (posts.length === 0 && !bio) {
+            return null;
+        }
+
+        return {
+            recentTweets: posts,
+            bio: bio || `Mastodon user @${acct}`,
+            handle: acct,
+            name: account.display_name || account.username,
+            profileImageUrl: account.avatar,
+            source: this.type,
+        };
+    }
+
+    /**
+     * Refuse instances that are not public DNS names or that resolve to a private address
+     * @throws AppError (VALIDATION) for a refused instance
+     */
+    private async assertPublicInstance(instance: string | undefined): Promise<void> {
+        const invalid = () => new AppError(
+            ErrorCode.VALIDATION,
+            `Invalid Mastodon instance "${instance}". Please use a public server address.`
+        );
+        if (!instance || !isPublicHostname(instance)) throw invalid();
+
+        let addresses: string[];
+        try {
+            addresses = await this.resolve(instance);
+        } catch {
+            throw new AppError(ErrorCode.VALIDATION, `Could not find the Mastodon instance "${instance}". Please check the server address.`);
+        }
+        if (addresses.length === 0 || addresses.some(isPrivateAddress)) throw invalid();
+    }
+
+    /**
+     * GET from the instance API without following redirects
+     * @throws AppError (VALIDATION) when the instance answers with a redirect
+     */
+    private async get(url: string, params: Record<string, unknown>) {
+        try {
+            return await this.http.get(url, { params, ...REQUEST_OPTIONS });
+        } catch (error) {
+            const status = (error as { response?: { status?: number } })?.response?.status;
+            if (status !== undefined && status >= 300 && status < 400) {
+                throw new AppError(ErrorCode.VALIDATION, 'The Mastodon instance redirected the request. Please use the server\'s own address.');
+            }
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,55 @@
+import { PipelineProgressHandler } from '../../types/api';
+import { PersonaGenerationContext, ProfileSourceType } from '../../types/persona';
+import { UpstreamSource } from '../../types/errors';
+
+/**
+ * A social network that can supply the context for persona generation
+ */
+export interface ProfileSource {
+    readonly type: ProfileSourceType;
+    readonly label: string; // Human-readable network name, e.g. "Bluesky"
+    readonly upstream: UpstreamSource; // Service actually called, reported with errors
+
+    /**
+     * Normalize a user-entered identifier (strip @, expand short handles, parse profile URLs)
+     * @param identifier Raw identifier as typed by the user
+     * @returns Normalized identifier, or null if it is not valid for this network
+     */
+    normalizeIdentifier(identifier: string): string | null;
+
+    /**
+     * Fetch posts, bio, avatar and name for a profile
+     * @param identifier Normalized identifier
+     * @param onProgress Optional progress callback
+     * @returns Persona generation context, or null when the profile has no usable content
+     */
+    fetchContext(identifier: string, onProgress?: PipelineProgressHandler): Promise<PersonaGenerationContext | null>;
+}
+
+// Maximum number of posts passed on to persona generation
+export const MAX_POSTS = 30;
+
+/**
+ * Convert an HTML fragment (Mastodon statuses, bios) into plain text
+ */
+export function stripHtml(html: string): string {
+    return html
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/p>\s*<p>/gi, '\n\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;|&apos;/g, "'")
+        .replace(/&nbsp;/g, ' ')
+        .trim();
+}
+
+/**
+ * Whether an error is an HTTP "not found" style response
+ */
+export function isNotFoundError(error: unknown): boolean {
+    const status = (error as { response?: { status?: number } })?.response?.status;
+    return status === 400 || status === 404 || status === 410;
+}
@@ -0,0 +1,45 @@
+import { exaClient } from '../exa';
+import { PipelineProgressHandler } from '../../types/api';
+import { PersonaGenerationContext, PROFILE_SOURCE_LABELS } from '../../types/persona';
+import { ProfileSource } from './types';
+
+/**
+ * X (formerly Twitter) profiles, found through Exa search
+ */
+export class XProfileSource implements ProfileSource {
+    readonly type = 'x' as const;
+    readonly label = PROFILE_SOURCE_LABELS.x;
+    readonly upstream = 'exa' as const;
+
+    normalizeIdentifier(identifier: string): string | null {
+        // Accept profile URLs as well as bare handles
+        const handle = identifier
+            .trim()
+            .replace(/^https?:\/\/(www\.)?(x|twitter)\.com\//i, '')
+            .replace(/^@/, '')
+            .split(/[/?#]/)[0];
+
+        return /^[A-Za-z0-9_]{1,15}$/.test(handle) ? handle : null;
+    }
+
+    async fetchContext(handle: string, onProgress?: PipelineProgressHandler): Promise<PersonaGenerationContext | null> {
+        // Search for X profile data using Exa
+        const searchResult = await exaClient().searchXProfile(handle, onProgress);
+
+        // Extract relevant information - pass the requested handle for better accuracy
+        const profileInfo = exaClient().extractProfileInfo(searchResult, handle);
+
+        if (!profileInfo || !profileInfo.tweets || profileInfo.tweets.length === 0) {
+            return null;
+        }
+
+        return {
+            recentTweets: profileInfo.tweets,
+            bio: profileInfo.bio,
+            handle,
+            name: profileInfo.name,
+            profileImageUrl: profileInfo.profileImageUrl,
+            source: this.type,
+        };
+    }
+}
@@ -1,153 +1,756 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import HandleForm from '../components/HandleForm';
-import PersonaCard from '../components/PersonaCard';
+import PersonaCard, { GroupPersonaCard } from '../components/PersonaCard';
 import LocationMap, { PlacePhotosContext } from '../components/LocationMap';
 import LocationList from '../components/LocationList';
-import LoadingState from '../components/LoadingState';
+import LoadingState, { LoadingStep } from '../components/LoadingState';
+import ItineraryTimeline from '../components/ItineraryTimeline';
+import RouteControls from '../components/RouteControls';
+import { ApiError } from '../components/ErrorNotice';
 import { Persona } from '@/components/PersonaCard';
 import { Location } from '@/components/LocationList';
-import { GeneratePersonaResponse, GenerateLocationsResponse } from './types/api';
+import {
+  GenerateItineraryResponse,
+  GenerateLocationsResponse,
+  GeneratePersonaResponse,
+  GroupMemberFailure,
+  PipelineEvent,
+  PlaceFilters,
+  ReplaceLocationResponse,
+  ShareResponse,
+} from './types/api';
+import { Itinerary, RouteOptions, RouteSummary, TravelMode } from './types/itinerary';
+import { ManualPersonaInput, PersonaEdits, ProfileSourceType } from './types/persona';
+import { DEFAULT_CITY_NAME, FeedbackVerdict, PlaceFeedback } from './types/location';
+import { ErrorCode } from './types/errors';
+import { sortByRelevance } from './lib/relevance';
+import { saveDownload } from './lib/download';
+import { mergePersonas } from './lib/group';
+import { applyPersonaEdits, diffPersona, hasPersonaEdits } from './lib/persona';
+import { recordFeedback } from './lib/feedback';
+import { orderLocations } from './lib/export';
+
+// Give up if no progress event arrives within this window
+const STALL_TIMEOUT_MS = 45000;
+
+// Number of extra recommendations fetched by "Show more"
+const SHOW_MORE_COUNT = 5;
+
+// Number of places the locations API accepts per request
+const LOCATION_COUNT_RANGE = { min: 3, max: 20 };
+
+// Pipeline stages shown in the loading progress indicator
+const PIPELINE_STEPS: Omit<LoadingStep, 'status'>[] = [
+  { id: 'city', label: 'Finding your city' },
+  { id: 'search', label: 'Searching for your profile' },
+  { id: 'profile', label: 'Reading your posts and bio' },
+  { id: 'persona', label: 'Building your persona' },
+  { id: 'locations', label: 'Picking places for you' },
+  { id: 'verify', label: 'Verifying places on Google Maps' },
+];
+
+// Progress steps for personas from pasted text or the questionnaire, which are not streamed
+const MANUAL_STEPS: Omit<LoadingStep, 'status'>[] = [
+  { id: 'persona', label: 'Building your persona' },
+  { id: 'locations', label: 'Picking places for you' },
+];
+
+// Progress steps for group outings, which are not streamed
+const GROUP_STEPS: Omit<LoadingStep, 'status'>[] = [
+  { id: 'persona', label: 'Building everyone\'s persona' },
+  { id: 'locations', label: 'Finding places for the whole group' },
+];
+
+// What the last search was for, so it can be retried
+type LastSubmit = { location: string; filters: PlaceFilters } & (
+  | { source: ProfileSourceType; identifiers: string[] }
+  | { manual: ManualPersonaInput }
+);
 
 export default function Home() {
   // State variables
   const [persona, setPersona] = useState<Persona | null>(null);
+  const [generatedPersona, setGeneratedPersona] = useState<Persona | null>(null); // Before the user's edits
+  const [personaEdits, setPersonaEdits] = useState<PersonaEdits | null>(null);
+  const [isRegenerating, setIsRegenerating] = useState<boolean>(false);
+  const [regenerateError, setRegenerateError] = useState<string | null>(null);
+  const [group, setGroup] = useState<Persona[]>([]); // Members of a group outing; persona is then their merged persona
+  const [groupFailures, setGroupFailures] = useState<GroupMemberFailure[]>([]);
   const [locations, setLocations] = useState<Location[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
   const [selectedLocationId, setSelectedLocationId] = useState<string | null>(null);
-  const [currentLocation, setCurrentLocation] = useState<string>('');
+  const [currentLocation, setCurrentLocation] = useState<string>(DEFAULT_CITY_NAME);
   const [userCoordinates, setUserCoordinates] = useState<{ lat: number; lng: number } | null>(null);
   const [searchRadius, setSearchRadius] = useState<number>(10); // Default 10km
   const [placePhotos, setPlacePhotos] = useState<Record<string, string>>({});
+  const [steps, setSteps] = useState<LoadingStep[]>([]);
+  const [isLoadingMore, setIsLoadingMore] = useState<boolean>(false);
+  const [showMoreError, setShowMoreError] = useState<string | null>(null);
+  const [itinerary, setItinerary] = useState<Itinerary | null>(null);
+  const [isPlanning, setIsPlanning] = useState<boolean>(false);
+  const [planError, setPlanError] = useState<string | null>(null);
+  const [isExportingCalendar, setIsExportingCalendar] = useState<boolean>(false);
+  const [calendarError, setCalendarError] = useState<string | null>(null);
+  const [travelMode, setTravelMode] = useState<TravelMode>('driving');
+  const [routeOptions, setRouteOptions] = useState<RouteOptions>({ avoidHighways: false, avoidTolls: false });
+  const [route, setRoute] = useState<RouteSummary | null>(null);
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [isSharing, setIsSharing] = useState<boolean>(false);
+  const [shareError, setShareError] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<PlaceFeedback[]>([]); // Likes and dislikes, kept across refinements
+  const [isRefining, setIsRefining] = useState<boolean>(false);
+  const [refineError, setRefineError] = useState<string | null>(null);
+  const [slotOrder, setSlotOrder] = useState<string[] | null>(null); // Display order pinned when a place is replaced
+  const [replacingId, setReplacingId] = useState<string | null>(null);
+  const [replaceError, setReplaceError] = useState<{ locationId: string; message: string } | null>(null);
+  const eventSourceRef = useRef<EventSource | null>(null);
+  const lastSubmitRef = useRef<LastSubmit | null>(null);
 
-// Handle form submission
-const handleSubmit = async (xHandle: string, location: string) => {
-  setIsLoading(true);
-  setError(null);
-  setPersona(null);
-  setLocations([]);
-  setSelectedLocationId(null);
-  setCurrentLocation("Toronto, ON, Canada"); // Always set to Toronto
-  setPlacePhotos({});
-
-  // Setup a timeout to abort if request takes too long
-  const timeoutDuration = 45000; // 45 seconds (increased from 30)
-  const timeoutId = setTimeout(() => {
-    if (isLoading) {
-      setIsLoading(false);
-      setError("Request timed out. Please try again later.");
+  // Short city label for headings, e.g. "Toronto" from "Toronto, ON, Canada"
+  const cityLabel = currentLocation.split(',')[0].trim() || 'Your City';
+
+  // Most relevant places first, in the same order as the list so map numbers match;
+  // a replaced place keeps its slot, and places added since follow in relevance order
+  const rankedLocations = useMemo(() => {
+    const sorted = sortByRelevance(locations);
+    return slotOrder ? orderLocations(sorted, slotOrder) : sorted;
+  }, [locations, slotOrder]);
+
+  // Group members' profile images, for markers and list avatars
+  const memberImages = useMemo(() => (group.length > 1
+    ? Object.fromEntries(group.flatMap(member => (member.profileImageUrl ? [[member.handle, member.profileImageUrl]] : [])))
+    : undefined), [group]);
+
+  // Close any open progress stream when the page unmounts
+  useEffect(() => {
+    return () => eventSourceRef.current?.close();
+  }, []);
+
+  // Mark one step with a new status, completing every step before it
+  const updateStep = (id: string, status: LoadingStep['status'], detail?: string) => {
+    setSteps(prevSteps => {
+      const index = prevSteps.findIndex(step => step.id === id);
+      return prevSteps.map((step, i) => {
+        if (i === index) return { ...step, status, detail: detail ?? step.detail };
+        if (i < index && step.status !== 'done') return { ...step, status: 'done' };
+        return step;
+      });
+    });
+  };
+
+  // Clear every result before a new search
+  const resetResults = (location: string) => {
+    setIsLoading(true);
+    setError(null);
+    setPersona(null);
+    setGeneratedPersona(null);
+    setPersonaEdits(null);
+    setRegenerateError(null);
+    setGroup([]);
+    setGroupFailures([]);
+    setLocations([]);
+    setSelectedLocationId(null);
+    setCurrentLocation(location);
+    setUserCoordinates(null);
+    setPlacePhotos({});
+    setShowMoreError(null);
+    setItinerary(null);
+    setPlanError(null);
+    setCalendarError(null);
+    setRoute(null);
+    setShareUrl(null);
+    setShareError(null);
+    setFeedback([]);
+    setRefineError(null);
+    setSlotOrder(null);
+    setReplaceError(null);
+    eventSourceRef.current?.close();
+  };
+
+  // Handle form submission by streaming pipeline progress from the server (several handles plan a group outing)
+  const handleSubmit = (source: ProfileSourceType, identifiers: string[], location: string, filters: PlaceFilters) => {
+    lastSubmitRef.current = { source, identifiers, location, filters };
+    resetResults(location);
+    setSteps(PIPELINE_STEPS.map(step => ({ ...step, status: 'pending' })));
+
+    if (identifiers.length > 1) {
+      void handleGroupSubmit(source, identifiers, location, filters);
+      return;
     }
-  }, timeoutDuration);
-
-  // Helper function to retry fetch operations
-  const retryFetch = async (url: string, options: any, maxRetries = 2): Promise<Response> => {
-    let lastError;
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      try {
-        if (attempt > 0) {
-          console.log(`Retry attempt ${attempt} for ${url}`);
-          // Add a small delay before retrying
-          await new Promise(resolve => setTimeout(resolve, attempt * 1000));
+
+    const params = new URLSearchParams({ source, identifier: identifiers[0], location });
+    if (filters.budget) params.set('budget', filters.budget);
+    if (filters.visit) {
+      params.set('visitStart', filters.visit.start);
+      if (filters.visit.end) params.set('visitEnd', filters.visit.end);
+      if (filters.hideClosed) params.set('hideClosed', 'true');
+    }
+    const eventSource = new EventSource(`/api/stream?${params.toString()}`);
+    eventSourceRef.current = eventSource;
+
+    let finished = false;
+    let activeStep = 'city';
+    let candidateCount = 0;
+    let stallTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = (failure?: ApiError) => {
+      if (finished) return;
+      finished = true;
+      clearTimeout(stallTimer);
+      eventSource.close();
+      if (failure) {
+        setError(failure);
+        updateStep(activeStep, 'error');
+      }
+      setIsLoading(false);
+    };
+
+    // Abort if the server goes quiet for too long between stages
+    const resetStallTimer = () => {
+      clearTimeout(stallTimer);
+      stallTimer = setTimeout(() => finish({
+        message: 'Request timed out. Please try again later.',
+        code: ErrorCode.TIMEOUT,
+        retryable: true,
+      }), STALL_TIMEOUT_MS);
+    };
+
+    const setActiveStep = (id: string, detail?: string) => {
+      activeStep = id;
+      updateStep(id, 'active', detail);
+    };
+
+    const handleEvent = (event: PipelineEvent) => {
+      resetStallTimer();
+
+      switch (event.type) {
+        case 'city':
+          setCurrentLocation(event.city.name);
+          setUserCoordinates(event.city.center);
+          setSearchRadius(event.city.radiusKm);
+          setActiveStep('search');
+          break;
+        case 'search':
+          setActiveStep('search', `Strategy ${event.strategy} of ${event.totalStrategies}`);
+          break;
+        case 'profile':
+          updateStep('profile', 'done', `${event.postCount} posts found`);
+          setActiveStep('persona');
+          break;
+        case 'persona': {
+          const streamedPersona = { ...event.persona };
+          // Validate that persona data doesn't contain default placeholders
+          if (streamedPersona.source === 'x' && streamedPersona.bio.includes("user x bio")) {
+            streamedPersona.bio = `X user @${streamedPersona.handle} - Twitter content creator`;
+          }
+          setPersona(streamedPersona);
+          setGeneratedPersona(streamedPersona);
+          setActiveStep('locations');
+          break;
         }
-        const response = await fetch(url, options);
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error(`API error response (attempt ${attempt}):`, errorText);
-          throw new Error(`API error: ${response.status}`);
+        case 'locations':
+          candidateCount = event.count;
+          updateStep('locations', 'done', `${event.count} candidates`);
+          setActiveStep('verify');
+          break;
+        case 'location':
+          setLocations(prevLocations => [...prevLocations, event.location]);
+          setActiveStep('verify', `${event.index + 1} of ${candidateCount} places ready`);
+          break;
+        case 'done':
+          updateStep('verify', 'done', `${event.total} places ready`);
+          finish();
+          break;
+        case 'error': {
+          const { error: message, code, retryable, upstream, retryAfterSeconds } = event;
+          finish({ message, code, retryable, upstream, retryAfterSeconds });
+          break;
         }
-        return response;
-      } catch (err) {
-        console.error(`Fetch error (attempt ${attempt}):`, err);
-        lastError = err;
-        // Continue to next retry attempt
       }
+    };
+
+    for (const type of ['city', 'search', 'profile', 'persona', 'locations', 'location', 'done']) {
+      eventSource.addEventListener(type, e => handleEvent(JSON.parse((e as MessageEvent).data)));
     }
-    throw lastError; // Throw the last error if all retries fail
+
+    // Named "error" events carry pipeline errors; bare ones mean the connection dropped
+    eventSource.addEventListener('error', e => {
+      const data = (e as MessageEvent).data;
+      if (data) {
+        handleEvent(JSON.parse(data));
+      } else {
+        finish({
+          message: 'Connection to the server was lost. Please try again.',
+          code: ErrorCode.NETWORK,
+          retryable: true,
+        });
+      }
+    });
+
+    resetStallTimer();
   };
 
-  try {
-    // Step 1: Generate persona from X handle
-    const personaResponse = await Promise.race([
-      retryFetch('/api/persona', {
+  // Group outings: generate every member's persona, then places that balance the whole group
+  const handleGroupSubmit = async (source: ProfileSourceType, identifiers: string[], location: string, filters: PlaceFilters) => {
+    setSteps(GROUP_STEPS.map(step => ({ ...step, status: 'pending' })));
+    let activeStep = 'persona';
+
+    const fail = (data: { error?: string } & Partial<ApiError>, fallback: string) => {
+      const { error: message, code, retryable, upstream, retryAfterSeconds } = data;
+      setError({ message: message || fallback, code, retryable, upstream, retryAfterSeconds });
+      updateStep(activeStep, 'error');
+    };
+
+    try {
+      updateStep('persona', 'active');
+      const personaResponse = await fetch('/api/persona', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          members: identifiers.map(identifier => ({ source, identifier })),
+        }),
+      });
+
+      const personaData: GeneratePersonaResponse = await personaResponse.json();
+      const members = personaData.personas;
+      if (!personaData.success || !members?.length) {
+        fail(personaData, 'Could not build personas for your group.');
+        return;
+      }
+
+      // With a single member left, recommend for them alone
+      setGroup(members.length > 1 ? members : []);
+      setGroupFailures(personaData.failed ?? []);
+      setPersona(members.length > 1 ? mergePersonas(members) : members[0]);
+      setGeneratedPersona(members.length > 1 ? null : members[0]);
+      updateStep('persona', 'done', `${members.length} of ${identifiers.length} members`);
+
+      activeStep = 'locations';
+      updateStep('locations', 'active');
+      const locationsResponse = await fetch('/api/locations', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ xHandle }),
-      }),
-      new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Persona request timed out')), timeoutDuration)
-      )
-    ]) as Response;
-
-    let personaData: GeneratePersonaResponse;
+        body: JSON.stringify({
+          ...(members.length > 1 ? { group: members } : { persona: members[0] }),
+          location,
+          ...filters,
+        }),
+      });
+
+      const data: GenerateLocationsResponse = await locationsResponse.json();
+      if (!data.success || !data.locations) {
+        fail(data, 'No places found for your group.');
+        return;
+      }
+
+      if (data.city) {
+        setCurrentLocation(data.city.name);
+        setUserCoordinates(data.city.center);
+        setSearchRadius(data.city.radiusKm);
+      }
+      setLocations(data.locations);
+      updateStep('locations', 'done', `${data.locations.length} places ready`);
+    } catch (err) {
+      console.error('Error planning group outing:', err);
+      fail({ code: ErrorCode.NETWORK, retryable: true }, 'Connection to the server was lost. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Personas from pasted text or the questionnaire: no profile lookup, straight to persona and places
+  const handleManualSubmit = async (input: ManualPersonaInput, location: string, filters: PlaceFilters) => {
+    lastSubmitRef.current = { manual: input, location, filters };
+    resetResults(location);
+    setSteps(MANUAL_STEPS.map(step => ({ ...step, status: 'pending' })));
+    let activeStep = 'persona';
+
+    const fail = (data: { error?: string } & Partial<ApiError>, fallback: string) => {
+      const { error: message, code, retryable, upstream, retryAfterSeconds } = data;
+      setError({ message: message || fallback, code, retryable, upstream, retryAfterSeconds });
+      updateStep(activeStep, 'error');
+    };
+
     try {
-      personaData = await personaResponse.json();
-    } catch (error) {
-      console.error('Failed to parse JSON response:', error);
-      throw new Error('Invalid response format from API');
+      updateStep('persona', 'active');
+      const personaResponse = await fetch('/api/persona', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ manual: input }),
+      });
+
+      const personaData: GeneratePersonaResponse = await personaResponse.json();
+      const generated = personaData.persona;
+      if (!personaData.success || !generated) {
+        fail(personaData, 'Could not build your persona.');
+        return;
+      }
+
+      setPersona(generated);
+      setGeneratedPersona(generated);
+      updateStep('persona', 'done');
+
+      activeStep = 'locations';
+      updateStep('locations', 'active');
+      const locationsResponse = await fetch('/api/locations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ persona: generated, location, ...filters }),
+      });
+
+      const data: GenerateLocationsResponse = await locationsResponse.json();
+      if (!data.success || !data.locations) {
+        fail(data, 'No places found for you.');
+        return;
+      }
+
+      if (data.city) {
+        setCurrentLocation(data.city.name);
+        setUserCoordinates(data.city.center);
+        setSearchRadius(data.city.radiusKm);
+      }
+      setLocations(data.locations);
+      updateStep('locations', 'done', `${data.locations.length} places ready`);
+    } catch (err) {
+      console.error('Error generating persona from manual input:', err);
+      fail({ code: ErrorCode.NETWORK, retryable: true }, 'Connection to the server was lost. Please try again.');
+    } finally {
+      setIsLoading(false);
     }
+  };
+
+  // Re-run the last submission after a retryable error
+  const handleRetry = () => {
+    const lastSubmit = lastSubmitRef.current;
+    if (!lastSubmit) return;
 
-    if (!personaData.success || !personaData.persona) {
-      throw new Error(personaData.error || 'Failed to generate persona');
+    if ('manual' in lastSubmit) {
+      void handleManualSubmit(lastSubmit.manual, lastSubmit.location, lastSubmit.filters);
+    } else {
+      handleSubmit(lastSubmit.source, lastSubmit.identifiers, lastSubmit.location, lastSubmit.filters);
     }
+  };
+
+  // Append fresh recommendations, excluding every place already on the map
+  const handleShowMore = async () => {
+    if (!persona) return;
+
+    setIsLoadingMore(true);
+    setShowMoreError(null);
 
-    // Validate that persona data doesn't contain default placeholders
-    if (personaData.persona.bio.includes("user x bio")) {
-      personaData.persona.bio = `X user @${personaData.persona.handle} - Twitter content creator`;
+    try {
+      const response = await fetch('/api/locations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...(group.length > 1 ? { group } : { persona }),
+          location: currentLocation,
+          count: SHOW_MORE_COUNT,
+          exclude: locations.map(location => location.name),
+          ...lastSubmitRef.current?.filters,
+        }),
+      });
+
+      const data: GenerateLocationsResponse = await response.json();
+      const moreLocations = data.locations;
+      if (!data.success || !moreLocations) {
+        throw new Error(data.error || 'No more places found.');
+      }
+
+      // Guard against places that came back under an already-shown name
+      setLocations(prevLocations => {
+        const seenNames = new Set(prevLocations.map(location => location.name.toLowerCase().trim()));
+        return [
+          ...prevLocations,
+          ...moreLocations.filter(location => !seenNames.has(location.name.toLowerCase().trim())),
+        ];
+      });
+    } catch (err) {
+      console.error('Error loading more locations:', err);
+      setShowMoreError(err instanceof Error ? err.message : 'Failed to load more places. Please try again.');
+    } finally {
+      setIsLoadingMore(false);
     }
+  };
 
-    // Set persona
-    setPersona(personaData.persona);
+  // Replace the recommendations with places picked for an edited (or reset) persona
+  const regenerateLocations = async (target: Persona) => {
+    setIsRegenerating(true);
+    setRegenerateError(null);
 
-    // Step 2: Get location recommendations based on persona
-    const locationsResponse = await Promise.race([
-      retryFetch('/api/locations', {
+    try {
+      const response = await fetch('/api/locations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          persona: target,
+          location: currentLocation,
+          ...lastSubmitRef.current?.filters,
+        }),
+      });
+
+      const data: GenerateLocationsResponse = await response.json();
+      if (!data.success || !data.locations) {
+        throw new Error(data.error || 'No places found for your edited persona.');
+      }
+
+      setLocations(data.locations);
+      setSlotOrder(null);
+      setSelectedLocationId(null);
+      setShowMoreError(null);
+      setItinerary(null);
+      setPlanError(null);
+      setRoute(null);
+      setShareUrl(null);
+    } catch (err) {
+      console.error('Error regenerating locations:', err);
+      setRegenerateError(err instanceof Error ? err.message : 'Failed to update your places. Please try again.');
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  // Keep the user's changes as a diff against the generated persona, then pick places for it
+  const handlePersonaEdit = (edited: Persona) => {
+    const base = generatedPersona ?? edited;
+    const edits = diffPersona(base, edited);
+    const updated = applyPersonaEdits(base, edits);
+    setPersonaEdits(hasPersonaEdits(edits) ? edits : null);
+    setPersona(updated);
+    void regenerateLocations(updated);
+  };
+
+  // Drop every edit and go back to the places for the generated persona
+  const handlePersonaReset = () => {
+    if (!generatedPersona) return;
+    setPersonaEdits(null);
+    setPersona(generatedPersona);
+    void regenerateLocations(generatedPersona);
+  };
+
+  // Like or dislike a place; rating it the same way again takes the rating back
+  const handleRate = (location: Location, verdict: FeedbackVerdict) => {
+    setFeedback(prevFeedback => recordFeedback(prevFeedback, location, verdict));
+  };
+
+  // Keep liked places and replace the rest with places shaped by every rating so far
+  const handleRefine = async () => {
+    if (!persona || feedback.length === 0) return;
+
+    const likedNames = new Set(feedback.filter(item => item.verdict === 'like').map(item => item.name.toLowerCase().trim()));
+    const liked = locations.filter(location => likedNames.has(location.name.toLowerCase().trim()));
+    const count = Math.min(LOCATION_COUNT_RANGE.max, Math.max(LOCATION_COUNT_RANGE.min, locations.length - liked.length));
+
+    setIsRefining(true);
+    setRefineError(null);
+
+    try {
+      const response = await fetch('/api/locations/refine', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...(group.length > 1 ? { group } : { persona }),
+          location: currentLocation,
+          feedback,
+          count,
+          exclude: locations.map(location => location.name),
+          ...lastSubmitRef.current?.filters,
+        }),
+      });
+
+      const data: GenerateLocationsResponse = await response.json();
+      const refinedLocations = data.locations;
+      if (!data.success || !refinedLocations) {
+        throw new Error(data.error || 'No new places found for your feedback.');
+      }
+
+      setLocations([...liked, ...refinedLocations]);
+      setSlotOrder(null);
+      setSelectedLocationId(null);
+      setShowMoreError(null);
+      setItinerary(null);
+      setPlanError(null);
+      setRoute(null);
+      setShareUrl(null);
+    } catch (err) {
+      console.error('Error refining locations:', err);
+      setRefineError(err instanceof Error ? err.message : 'Failed to refine your places. Please try again.');
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  // Swap one place for an alternative in the same slot, keeping every other pick
+  const handleReplace = async (location: Location, sameCategory: boolean) => {
+    if (!persona) return;
+
+    setReplacingId(location.id);
+    setReplaceError(null);
+
+    try {
+      const response = await fetch('/api/locations/replace', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          persona: personaData.persona,
-          location: "Toronto, ON, Canada", // Always use Toronto
+          ...(group.length > 1 ? { group } : { persona }),
+          location: currentLocation,
+          replace: { name: location.name, address: location.address, category: location.category },
+          current: locations.map(({ name, address }) => ({ name, address })),
+          sameCategory,
+          ...lastSubmitRef.current?.filters,
         }),
-      }),
-      new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Locations request timed out')), timeoutDuration)
-      )
-    ]) as Response;
+      });
+
+      const data: ReplaceLocationResponse = await response.json();
+      const replacement = data.location;
+      if (!data.success || !replacement) {
+        throw new Error(data.error || 'No alternative found.');
+      }
+
+      // The map re-plans the route for the new set of places
+      setSlotOrder(rankedLocations.map(ranked => (ranked.id === location.id ? replacement.id : ranked.id)));
+      setLocations(prevLocations => prevLocations.map(existing => (existing.id === location.id ? replacement : existing)));
+      if (selectedLocationId === location.id) setSelectedLocationId(replacement.id);
+      setItinerary(null);
+      setPlanError(null);
+      setShareUrl(null);
+    } catch (err) {
+      console.error('Error replacing location:', err);
+      setReplaceError({
+        locationId: location.id,
+        message: err instanceof Error ? err.message : 'Failed to replace this place. Please try again.',
+      });
+    } finally {
+      setReplacingId(null);
+    }
+  };
+
+  // Schedule the recommended places between a start and end time
+  const handlePlan = async (start: string, end: string) => {
+    setIsPlanning(true);
+    setPlanError(null);
+    setCalendarError(null);
 
-    let locationsData: GenerateLocationsResponse;
     try {
-      locationsData = await locationsResponse.json();
-    } catch (error) {
-      console.error('Failed to parse JSON response:', error);
-      throw new Error('Invalid response format from API');
+      const response = await fetch('/api/itinerary', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          locations,
+          start,
+          end,
+          timePreferences: persona?.timePreferences,
+        }),
+      });
+
+      const data: GenerateItineraryResponse = await response.json();
+      if (!data.success || !data.itinerary) {
+        throw new Error(data.error || 'Could not plan your day.');
+      }
+
+      setItinerary(data.itinerary);
+    } catch (err) {
+      console.error('Error planning itinerary:', err);
+      setPlanError(err instanceof Error ? err.message : 'Failed to plan your day. Please try again.');
+    } finally {
+      setIsPlanning(false);
     }
+  };
+
+  // Download the planned day as calendar events
+  const handleAddToCalendar = async () => {
+    if (!itinerary) return;
+
+    setIsExportingCalendar(true);
+    setCalendarError(null);
+
+    try {
+      const response = await fetch('/api/calendar', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          locations,
+          itinerary,
+          name: `${cityLabel} day out`,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Could not create your calendar file.');
+      }
 
-    if (!locationsData.success || !locationsData.locations) {
-      throw new Error(locationsData.error || 'Failed to generate locations');
+      await saveDownload(response, 'day-out.ics');
+    } catch (err) {
+      console.error('Error exporting calendar:', err);
+      setCalendarError(err instanceof Error ? err.message : 'Failed to create your calendar file. Please try again.');
+    } finally {
+      setIsExportingCalendar(false);
     }
+  };
+
+  // Store a snapshot of the results and copy its permalink
+  const handleShare = async () => {
+    if (!persona) return;
 
-    // Set locations
-    setLocations(locationsData.locations);
+    setIsSharing(true);
+    setShareError(null);
 
-    // Set Toronto coordinates
-    setUserCoordinates({ lat: 43.6532, lng: -79.3832 });
+    try {
+      const response = await fetch('/api/share', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          persona,
+          group: group.length > 1 ? group : undefined,
+          locations,
+          city: currentLocation,
+          centerCoordinates: userCoordinates ?? undefined,
+          radiusKm: searchRadius,
+        }),
+      });
+
+      const data: ShareResponse = await response.json();
+      if (!data.success || !data.path) {
+        throw new Error(data.error || 'Could not create a share link.');
+      }
 
-  } catch (err) {
-    console.error('Error in generation process:', err);
-    const errorMessage = err instanceof Error ? 
-      (err.message.includes('timed out') ? 'Request timed out. Please try again later.' : err.message) 
-      : 'An unknown error occurred';
-    setError(errorMessage);
-  } finally {
-    clearTimeout(timeoutId); // Clear the timeout
-    setIsLoading(false);
-  }
-};
+      const url = `${window.location.origin}${data.path}`;
+      setShareUrl(url);
+      // Copying is a convenience; the link is shown either way
+      await navigator.clipboard?.writeText(url).catch(() => undefined);
+    } catch (err) {
+      console.error('Error sharing results:', err);
+      setShareError(err instanceof Error ? err.message : 'Failed to create a share link. Please try again.');
+    } finally {
+      setIsSharing(false);
+    }
+  };
 
   // Handle location selection
   const handleLocationSelect = (locationId: string) => {
@@ -158,9 +761,9 @@ const handleSubmit = async (xHandle: string, location: string) => {
       <main className="min-h-screen bg-background py-4 transition-colors duration-200">
         <div className="container mx-auto px-4">
           <header className="mb-6 text-center">
-            <h1 className="text-3xl font-bold mb-2 text-primary transition-colors duration-200">X Persona Toronto Finder</h1>
+            <h1 className="text-3xl font-bold mb-2 text-primary transition-colors duration-200">Social Persona City Finder</h1>
             <p className="text-primary transition-colors duration-200">
-              Discover places in Toronto tailored to your X personality
+              Discover places in your city tailored to your social media personality
             </p>
           </header>
 
@@ -172,17 +775,44 @@ const handleSubmit = async (xHandle: string, location: string) => {
                 {/* Handle Form */}
                 <HandleForm
                     onSubmit={handleSubmit}
+                    onManualSubmit={handleManualSubmit}
                     isLoading={isLoading}
-                    defaultLocation="Toronto, ON, Canada"
+                    defaultLocation={DEFAULT_CITY_NAME}
                 />
 
                 {/* Persona Card (when data is available) */}
                 {(persona || isLoading || error) && (
                     <div className="mt-6">
-                      <PersonaCard
-                          persona={persona}
-                          isLoading={isLoading}
-                          error={error}
+                      {group.length > 1 && !error ? (
+                          <GroupPersonaCard members={group} failures={groupFailures} />
+                      ) : (
+                          <PersonaCard
+                              persona={persona}
+                              isLoading={isLoading && !persona}
+                              error={error}
+                              onRetry={handleRetry}
+                              onEdit={isLoading ? undefined : handlePersonaEdit}
+                              edits={personaEdits}
+                              onResetEdits={handlePersonaReset}
+                              isUpdating={isRegenerating}
+                          />
+                      )}
+                    </div>
+                )}
+
+                {/* Day plan over the recommended places */}
+                {locations.length > 0 && !isLoading && (
+                    <div className="mt-6">
+                      <ItineraryTimeline
+                          itinerary={itinerary}
+                          onPlan={handlePlan}
+                          isPlanning={isPlanning}
+                          error={planError}
+                          selectedLocationId={selectedLocationId}
+                          onLocationSelect={handleLocationSelect}
+                          onAddToCalendar={handleAddToCalendar}
+                          isExportingCalendar={isExportingCalendar}
+                          calendarError={calendarError}
                       />
                     </div>
                 )}
@@ -190,32 +820,89 @@ const handleSubmit = async (xHandle: string, location: string) => {
 
               {/* Right Column - Location List */}
               <div className="lg:col-span-2">
-                {isLoading ? (
-                    <LoadingState message="Generating your personalized Toronto recommendations..." />
+                {isLoading && locations.length === 0 ? (
+                    <LoadingState
+                        message={`Generating your personalized ${cityLabel} recommendations...`}
+                        steps={steps}
+                    />
                 ) : locations.length > 0 ? (
                     <div className="space-y-4">
-                      <h2 className="text-2xl font-bold text-primary transition-colors duration-200">Your Toronto Recommendations</h2>
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <h2 className="text-2xl font-bold text-primary transition-colors duration-200">Your {cityLabel} Recommendations</h2>
+                        {persona && !isLoading && (
+                            <div className="flex flex-wrap gap-2">
+                              {feedback.length > 0 && (
+                                  <button
+                                      type="button"
+                                      onClick={handleRefine}
+                                      disabled={isRefining || isRegenerating}
+                                      title="Replace the places you haven't liked, leaning toward what you liked"
+                                      className="px-4 py-2 rounded-md border border-border bg-card-bg text-primary text-sm font-medium hover:bg-blue-50 dark:hover:bg-blue-900 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                                  >
+                                    {isRefining ? 'Refining...' : `✨ Refine (${feedback.length} rated)`}
+                                  </button>
+                              )}
+                              <button
+                                  type="button"
+                                  onClick={handleShare}
+                                  disabled={isSharing}
+                                  className="px-4 py-2 rounded-md border border-border bg-card-bg text-primary text-sm font-medium hover:bg-blue-50 dark:hover:bg-blue-900 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                              >
+                                {isSharing ? 'Creating link...' : '🔗 Share'}
+                              </button>
+                            </div>
+                        )}
+                      </div>
+                      {shareUrl && (
+                          <p className="text-sm text-primary transition-colors duration-200">
+                            Share link: <a href={shareUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 break-all">{shareUrl}</a>
+                          </p>
+                      )}
+                      {refineError && (
+                          <p className="text-sm text-red-600 dark:text-red-400 transition-colors duration-200">{refineError}</p>
+                      )}
+                      {regenerateError && (
+                          <p className="text-sm text-red-600 dark:text-red-400 transition-colors duration-200">{regenerateError}</p>
+                      )}
+                      {shareError && (
+                          <p className="text-sm text-red-600 dark:text-red-400 transition-colors duration-200">{shareError}</p>
+                      )}
                       {/* Location List */}
                       <LocationList
-                          locations={locations}
+                          locations={rankedLocations}
                           selectedLocationId={selectedLocationId}
                           onLocationSelect={handleLocationSelect}
                           profileImage={persona?.profileImageUrl}
+                          onShowMore={isLoading || isRegenerating || isRefining ? undefined : handleShowMore}
+                          isLoadingMore={isLoadingMore}
+                          showMoreError={showMoreError}
+                          route={route}
+                          exportName={`${cityLabel} recommendations`}
+                          memberImages={memberImages}
+                          feedback={feedback}
+                          onRate={isLoading ? undefined : handleRate}
+                          onReplace={isLoading || isRefining || isRegenerating ? undefined : handleReplace}
+                          replacingId={replacingId}
+                          replaceError={replaceError}
                       />
+                      {/* Remaining places are still being verified */}
+                      {isLoading && (
+                          <LoadingState message="Finding more places..." steps={steps} />
+                      )}
                     </div>
                 ) : persona ? (
                     <div className="bg-card-bg rounded-lg shadow-md p-6 flex items-center justify-center h-full border border-border transition-colors duration-200">
                       <p className="text-primary opacity-80 text-center transition-colors duration-200">
-                        Waiting for Toronto recommendations...
+                        Waiting for {cityLabel} recommendations...
                       </p>
                     </div>
                 ) : (
                     <div className="bg-card-bg rounded-lg shadow-md p-6 border border-border transition-colors duration-200">
                       <h2 className="text-xl font-bold mb-4 text-primary transition-colors duration-200">How It Works</h2>
                       <ol className="list-decimal pl-5 space-y-2 text-primary">
-                        <li>Enter your X handle (e.g., @username)</li>
-                        <li>We'll analyze your X profile to understand your preferences</li>
-                        <li>Get personalized location recommendations in Toronto</li>
+                        <li>Pick a network (X, Bluesky, Mastodon or GitHub) and enter your handle, or paste a bio or answer a few questions instead</li>
+                        <li>We'll analyze your public profile to understand your preferences</li>
+                        <li>Get personalized location recommendations in your city</li>
                         <li>View an optimized route between the recommended locations</li>
                       </ol>
                       <div className="mt-4 p-3 bg-blue-500 bg-opacity-10 dark:bg-blue-900 dark:bg-opacity-20 rounded-md text-sm border border-blue-300 dark:border-blue-800">
@@ -223,7 +910,7 @@ const handleSubmit = async (xHandle: string, location: string) => {
                           <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 text-blue-500" viewBox="0 0 20 20" fill="currentColor">
                             <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
                           </svg>
-                          Your privacy is important - we don't store your data or X handle.
+                          Your privacy is important - we don't store your data or handle unless you share your results.
                         </p>
                       </div>
                     </div>
@@ -234,14 +921,30 @@ const handleSubmit = async (xHandle: string, location: string) => {
             {/* Map now at the bottom - only show when we have locations */}
             {locations.length > 0 && (
               <div className="rounded-lg overflow-hidden shadow-lg mb-6 border border-border">
-                <h2 className="text-2xl font-bold mb-2 text-primary transition-colors duration-200 p-4">Toronto Map</h2>
+                <div className="flex flex-wrap items-center justify-between gap-2 p-4">
+                  <h2 className="text-2xl font-bold text-primary transition-colors duration-200">{cityLabel} Map</h2>
+                  <RouteControls
+                      travelMode={travelMode}
+                      onTravelModeChange={setTravelMode}
+                      routeOptions={routeOptions}
+                      onRouteOptionsChange={setRouteOptions}
+                  />
+                </div>
                 <div style={{ height: '600px' }}>
                   <LocationMap
-                    locations={locations}
+                    locations={rankedLocations}
                     selectedLocationId={selectedLocationId}
                     onLocationSelect={handleLocationSelect}
                     profileImage={persona?.profileImageUrl}
-                    centerCoordinates={{ lat: 43.6532, lng: -79.3832 }} // Toronto coordinates
+                    memberImages={memberImages}
+                    centerCoordinates={userCoordinates || undefined}
+                    radiusKm={searchRadius}
+                    cityName={currentLocation}
+                    travelMode={travelMode}
+                    routeOptions={routeOptions}
+                    onRouteChange={setRoute}
+                    feedback={feedback}
+                    onRate={isLoading ? undefined : handleRate}
                   />
                 </div>
               </div>
@@ -251,8 +954,8 @@ const handleSubmit = async (xHandle: string, location: string) => {
           {/* Footer */}
           <footer className="mt-10 text-center text-primary text-sm pb-4 transition-colors duration-200">
             <p>
-              This application uses your public X profile to generate Toronto recommendations.
-              We do not store any of your data.
+              This application uses your public social profile to generate city recommendations.
+              We do not store any of your data unless you create a share link.
             </p>
           </footer>
         </div>
@@ -0,0 +1,47 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import SharedResultView from '@/components/SharedResultView';
+import { loadSharedResult } from '@/app/lib/share';
+import { SharedResult } from '@/app/types/share';
+
+interface SharedResultPageProps {
+    params: Promise<{ id: string }>;
+}
+
+// Link previews: "Ada's Toronto recommendations" and the first few places
+function describe(result: SharedResult): { title: string; description: string } {
+    const city = result.city.split(',')[0].trim();
+    const names = result.locations.slice(0, 3).map(location => location.name);
+    const more = result.locations.length > names.length ? ` and ${result.locations.length - names.length} more` : '';
+
+    return {
+        title: `${result.persona.name}'s ${city} recommendations`,
+        description: `${names.join(', ')}${more}, picked for ${result.persona.name}'s persona.`,
+    };
+}
+
+export async function generateMetadata({ params }: SharedResultPageProps): Promise<Metadata> {
+    const result = await loadSharedResult((await params).id);
+    if (!result) {
+        return { title: 'Shared results not found' };
+    }
+
+    const { title, description } = describe(result);
+    const images = result.persona.profileImageUrl ? [result.persona.profileImageUrl] : undefined;
+
+    return {
+        title,
+        description,
+        openGraph: { title, description, type: 'website', url: `/r/${result.id}`, images },
+        twitter: { card: 'summary', title, description, images },
+    };
+}
+
+export default async function SharedResultPage({ params }: SharedResultPageProps) {
+    const result = await loadSharedResult((await params).id);
+    if (!result) {
+        notFound();
+    }
+
+    return <SharedResultView result={result} />;
+}
@@ -1,55 +1,193 @@
 /**
  * API Request and Response Types
  */
+import { Budget, CityContext, Coordinates, Location, PlaceFeedback, VisitWindow } from './location';
+import { EnhancedPersona, ManualPersonaInput, PartialEnhancedPersona, ProfileSourceType } from './persona';
+import { CalendarSlot, ExportFormat, Itinerary, OptimizedRoute, RouteMetric } from './itinerary';
+import { SharedResultInput } from './share';
+import { ApiErrorDetails } from './errors';
 
 // Persona API
 export interface GeneratePersonaRequest {
-    xHandle: string;
+    source?: ProfileSourceType; // Defaults to 'x'
+    identifier?: string; // Handle, account address or profile URL on the source network
+    xHandle?: string; // Legacy alias for { source: 'x', identifier }
+    members?: GroupMemberRequest[]; // Several profiles for a group outing, instead of source/identifier
+    manual?: ManualPersonaInput; // Pasted text or questionnaire answers, instead of a profile
+    refresh?: boolean; // Bypass cached profile and persona data
 }
 
-export interface GeneratePersonaResponse {
+// One member of a group outing
+export interface GroupMemberRequest {
+    source?: ProfileSourceType; // Defaults to 'x'
+    identifier: string;
+}
+
+// A member whose persona could not be generated
+export interface GroupMemberFailure {
+    identifier: string;
+    error: string;
+}
+
+// Failed responses carry a typed error code alongside the message
+export interface GeneratePersonaResponse extends Partial<ApiErrorDetails> {
     success: boolean;
-    persona?: {
-        name: string;
-        handle: string;
-        bio: string;
-        traits: string[];
-        interests: string[];
-        profileImageUrl?: string;
-    };
+    persona?: EnhancedPersona;
+    personas?: EnhancedPersona[]; // Group requests: one persona per member that could be generated
+    failed?: GroupMemberFailure[]; // Group requests: members that were left out
+    cache?: PipelineCacheReport;
     error?: string;
 }
 
+// Filters chosen with a search, sent with every request for places that follows from it
+export interface PlaceFilters {
+    budget?: Budget;
+    visit?: VisitWindow;
+    hideClosed?: boolean;
+}
+
 // Locations API
 export interface GenerateLocationsRequest {
-    persona: {
-        name: string;
-        handle: string;
-        bio: string;
-        traits: string[];
-        interests: string[];
-    };
+    persona?: PartialEnhancedPersona; // Categorized preferences are used when present; required without a group
+    group?: PartialEnhancedPersona[]; // Members of a group outing: places balance everyone's interests
+    location: string;
+    count?: number; // Number of recommendations (3-20, defaults to 5)
+    exclude?: string[]; // Names of places already shown, for "load more" requests
+    budget?: Budget; // Drops places priced above the budget and ranks those within it first
+    visit?: VisitWindow; // Flags each place as open or closed during the visit
+    hideClosed?: boolean; // Drop places that are closed for the whole visit instead of flagging them
+    refresh?: boolean; // Bypass cached recommendations
+}
+
+export interface GenerateLocationsResponse extends Partial<ApiErrorDetails> {
+    success: boolean;
+    locations?: Location[]; // Each flagged as verified or unverified against Google Places
+    city?: CityContext; // The city the recommendations were resolved to
+    cache?: PipelineCacheReport;
+    error?: string;
+}
+
+// Refine API: a replacement set of places shaped by the user's likes and dislikes
+export interface RefineLocationsRequest {
+    persona?: PartialEnhancedPersona; // Required without a group
+    group?: PartialEnhancedPersona[];
+    location: string;
+    feedback: PlaceFeedback[]; // Every rating so far in the session
+    count?: number; // Number of replacement places (3-20, defaults to 5)
+    exclude?: string[]; // Names of places still shown, which must not come back
+    budget?: Budget;
+    visit?: VisitWindow;
+    hideClosed?: boolean;
+    refresh?: boolean; // Bypass cached recommendations
+}
+
+// Replace API: one alternative for a single recommendation, keeping the rest
+export interface ReplaceLocationRequest {
+    persona?: PartialEnhancedPersona; // Required without a group
+    group?: PartialEnhancedPersona[];
     location: string;
+    replace: Pick<Location, 'name' | 'address' | 'category'>; // The place to swap out
+    current: Pick<Location, 'name' | 'address'>[]; // Every place shown; the alternative differs from all of them
+    sameCategory?: boolean; // Keep the category of the replaced place
+    budget?: Budget;
+    visit?: VisitWindow;
+    hideClosed?: boolean; // The alternative must be open during the visit
+    refresh?: boolean; // Bypass cached recommendations
+}
+
+export interface ReplaceLocationResponse extends Partial<ApiErrorDetails> {
+    success: boolean;
+    location?: Location; // The alternative, verified and scored like any other recommendation
+    error?: string;
+}
+
+// Itinerary API
+export interface GenerateItineraryRequest {
+    locations: Location[]; // Places to schedule, with their opening hours when known
+    start: string; // Local "YYYY-MM-DDTHH:mm"
+    end: string; // Local "YYYY-MM-DDTHH:mm", at most 24 hours after start
+    timePreferences?: string[]; // The persona's time preferences, e.g. "night owl"
 }
 
-export interface GenerateLocationsResponse {
+export interface GenerateItineraryResponse extends Partial<ApiErrorDetails> {
     success: boolean;
-    locations?: Array<{
-        id: string;
-        name: string;
-        address: string;
-        description: string;
-        category: string;
-        coordinates: {
-            lat: number;
-            lng: number;
-        };
-        rating?: number;
-        website?: string;
-    }>;
+    itinerary?: Itinerary;
     error?: string;
 }
 
+// Route API
+export interface OptimizeRouteRequest {
+    locations: Location[];
+    start?: Coordinates; // Fixed starting point
+    end?: Coordinates; // Fixed finishing point (not allowed with roundTrip)
+    roundTrip?: boolean; // Return to the start at the end
+    metric?: RouteMetric; // Optimize straight-line distance (default) or estimated travel time
+}
+
+export interface OptimizeRouteResponse extends Partial<ApiErrorDetails> {
+    success: boolean;
+    route?: OptimizedRoute;
+    error?: string;
+}
+
+export interface ExportRequest {
+    format: ExportFormat;
+    locations: Location[];
+    name?: string; // Title of the exported document, e.g. "Toronto recommendations"
+    order?: string[]; // Location ids in visiting order, e.g. the route shown on the map; optimized when omitted
+}
+
+export interface CalendarExportRequest {
+    locations: Location[];
+    slots?: CalendarSlot[]; // User-chosen visit times; take precedence over the itinerary
+    itinerary?: Pick<Itinerary, 'stops'>; // A planned day, as returned by /api/itinerary
+    name?: string; // Calendar name, e.g. "Toronto day out"
+}
+
+// Share API
+export type ShareRequest = SharedResultInput;
+
+export interface ShareResponse extends Partial<ApiErrorDetails> {
+    success: boolean;
+    id?: string;
+    path?: string; // Permalink path, e.g. "/r/k3TzQ8pWmb"
+    error?: string;
+}
+
+// Cache metadata for a cached pipeline step
+export interface CacheInfo {
+    hit: boolean;
+    storedAt: string; // ISO timestamp of when the value was computed
+    expiresAt: string;
+}
+
+export interface PipelineCacheReport {
+    profile?: CacheInfo;
+    persona?: CacheInfo;
+    locations?: CacheInfo;
+}
+
+// Streaming pipeline (Server-Sent Events)
+export type PipelineStage =
+    | 'search'      // Exa search strategies
+    | 'profile'     // Profile info extracted from search results
+    | 'persona'     // Persona generated by OpenAI
+    | 'locations'   // Candidate locations generated by OpenAI
+    | 'verify'      // Each location verified against Google Places
+    | 'done';
+
+export type PipelineEvent =
+    | { type: 'search'; strategy: number; totalStrategies: number }
+    | { type: 'profile'; name: string; postCount: number }
+    | { type: 'persona'; persona: NonNullable<GeneratePersonaResponse['persona']> }
+    | { type: 'city'; city: CityContext }
+    | { type: 'locations'; count: number }
+    | { type: 'location'; location: Location; index: number }
+    | { type: 'done'; city: CityContext; total: number; cache?: PipelineCacheReport }
+    | ({ type: 'error'; stage: PipelineStage; error: string } & ApiErrorDetails);
+
+export type PipelineProgressHandler = (event: PipelineEvent) => void;
+
 // Exa API Response Types
 export interface ExaSearchResult {
     requestId: string;
@@ -76,10 +214,4 @@ export interface ExaResult {
 
 
 // OpenAI API Types
-export interface OpenAIPersonaResponse {
-    name: string;
-    handle: string;
-    bio: string;
-    traits: string[];
-    interests: string[];
-}
+export type OpenAIPersonaResponse = Omit<EnhancedPersona, 'profileImageUrl' | 'source'>;
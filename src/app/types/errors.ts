@@ -0,0 +1,37 @@
+/**
+ * Error taxonomy shared by the API routes and the UI
+ */
+
+export enum ErrorCode {
+    VALIDATION = 'VALIDATION', // The request itself is invalid
+    PROFILE_NOT_FOUND = 'PROFILE_NOT_FOUND',
+    LOCATION_NOT_FOUND = 'LOCATION_NOT_FOUND', // The requested city could not be resolved
+    NO_RESULTS = 'NO_RESULTS', // The pipeline ran but found no suitable places
+    UPSTREAM_RATE_LIMITED = 'UPSTREAM_RATE_LIMITED',
+    UPSTREAM_AUTH = 'UPSTREAM_AUTH', // Missing or rejected API key for an upstream service
+    UPSTREAM_UNAVAILABLE = 'UPSTREAM_UNAVAILABLE', // Upstream service errored or could not be reached
+    LLM_INVALID_OUTPUT = 'LLM_INVALID_OUTPUT', // Model output failed schema validation after repairs
+    TIMEOUT = 'TIMEOUT',
+    NETWORK = 'NETWORK', // The browser lost its connection to our server
+    INTERNAL = 'INTERNAL',
+}
+
+// External services an error can originate from
+export type UpstreamSource = 'exa' | 'llm' | 'google-maps' | 'bluesky' | 'mastodon' | 'github';
+
+export const UPSTREAM_LABELS: Record<UpstreamSource, string> = {
+    exa: 'Exa search',
+    llm: 'The AI model',
+    'google-maps': 'Google Maps',
+    bluesky: 'Bluesky',
+    mastodon: 'Mastodon',
+    github: 'GitHub',
+};
+
+// Error fields included in failed API responses and stream error events
+export interface ApiErrorDetails {
+    code: ErrorCode;
+    retryable: boolean; // Whether the same request may succeed if retried
+    upstream?: UpstreamSource;
+    retryAfterSeconds?: number; // Suggested wait before retrying (also sent as Retry-After)
+}
@@ -0,0 +1,99 @@
+/**
+ * Itinerary Types
+ */
+import { Coordinates } from './location';
+
+// How a leg between two stops is expected to be travelled
+export type TravelMode = 'walking' | 'transit' | 'bicycling' | 'driving';
+
+export const TRAVEL_MODE_LABELS: Record<TravelMode, string> = {
+    walking: 'Walking',
+    transit: 'Transit',
+    bicycling: 'Cycling',
+    driving: 'Driving',
+};
+
+export const TRAVEL_MODE_ICONS: Record<TravelMode, string> = {
+    walking: '🚶',
+    transit: '🚆',
+    bicycling: '🚲',
+    driving: '🚗',
+};
+
+// Directions preferences (honoured for driving and cycling)
+export interface RouteOptions {
+    avoidHighways: boolean;
+    avoidTolls: boolean;
+}
+
+// The journey from the previous stop (absent for the first stop)
+export interface ItineraryLeg {
+    mode: TravelMode;
+    distanceKm: number;
+    durationMinutes: number;
+}
+
+// One scheduled visit, in the city's local time ("YYYY-MM-DDTHH:mm")
+export interface ItineraryStop {
+    locationId: string;
+    name: string;
+    category: string;
+    arrival: string;
+    departure: string;
+    dwellMinutes: number;
+    waitMinutes: number; // Free time before the visit, e.g. waiting for the place to open
+    travel?: ItineraryLeg;
+}
+
+// A place that could not be fitted into the day
+export interface SkippedStop {
+    locationId: string;
+    name: string;
+    reason: string;
+}
+
+export interface Itinerary {
+    start: string;
+    end: string;
+    stops: ItineraryStop[];
+    skipped: SkippedStop[];
+    totalTravelMinutes: number;
+    totalDistanceKm: number;
+}
+
+// A route through the recommended places, in visiting order
+export interface RouteSummary {
+    mode: TravelMode;
+    order: string[]; // Location ids
+    legs: ItineraryLeg[]; // legs[i] runs from order[i] to order[i + 1]
+}
+
+// What a route is optimized for
+export type RouteMetric = 'distance' | 'time';
+
+// A leg of an optimized route, between two points of its path
+export interface RouteLeg extends ItineraryLeg {
+    from: string; // Location id, or "start"/"end" for fixed points
+    to: string;
+}
+
+// A visiting order computed on the server
+export interface OptimizedRoute {
+    order: string[]; // Location ids in visiting order
+    path: Coordinates[]; // Every point visited, including fixed start/end points and the return of a round trip
+    legs: RouteLeg[];
+    roundTrip: boolean;
+    metric: RouteMetric;
+    totalDistanceKm: number;
+    totalDurationMinutes: number;
+}
+
+// File formats that recommendations and their route can be exported as
+export type ExportFormat = 'gpx' | 'kml' | 'geojson';
+
+// A user-chosen time for visiting a place, in the city's local time ("YYYY-MM-DDTHH:mm")
+export interface CalendarSlot {
+    locationId: string;
+    start: string;
+    end: string;
+}
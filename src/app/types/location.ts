@@ -8,6 +8,24 @@ export interface Coordinates {
     lng: number;
 }
 
+// Geographic bounding box
+export interface Bounds {
+    northeast: Coordinates;
+    southwest: Coordinates;
+}
+
+// Resolved city that recommendations are scoped to
+export interface CityContext {
+    name: string; // Display name, e.g. "Toronto, ON, Canada"
+    center: Coordinates;
+    bounds?: Bounds;
+    radiusKm: number; // Search radius around the center
+}
+
+// City used when no location is given; the first gazetteer entry, kept here so the client
+// doesn't bundle the gazetteer
+export const DEFAULT_CITY_NAME = 'Toronto, ON, Canada';
+
 // Location category enum
 export enum LocationCategory {
     RESTAURANT = 'restaurant',
@@ -41,16 +59,71 @@ export interface Location {
     photos?: string[];
     website?: string;
     phone?: string;
-    openingHours?: string[];
-    priceLevel?: number; // 1-4 scale
+    openingHours?: string[]; // Google's weekday_text lines, e.g. "Monday: 9:00 AM – 5:00 PM"
+    schedule?: WeeklySchedule; // openingHours parsed into time ranges
+    utcOffsetMinutes?: number; // The place's current offset from UTC, for "open now" checks
+    openDuringVisit?: boolean; // Whether the place is open during the requested visit window (unset when unknown)
+    priceLevel?: number; // Google's 0-4 scale (0 = free); estimated from the category when Google has none
     relevanceScore?: number; // Calculated relevance to persona (0-100)
+    recommendationContext?: LocationRecommendationContext; // Why the place was scored as it was
+    placeId?: string; // Google Place ID when resolved through Places
+    verified?: boolean; // Whether the place was confirmed against Google Places
+}
+
+// Opening time range in minutes since local midnight; close exceeds 1440 when a range runs past midnight
+export interface OpeningPeriod {
+    open: number;
+    close: number;
+}
+
+// Opening periods for each weekday, indexed like Date.getDay() (0 = Sunday). A day with no periods is closed.
+export type WeeklySchedule = OpeningPeriod[][];
+
+// A planned visit in the city's local time ("YYYY-MM-DDTHH:mm", no time zone)
+export interface VisitWindow {
+    start: string;
+    end?: string; // Defaults to two hours after start
 }
 
 // Location recommendation context
 export interface LocationRecommendationContext {
-    trait: string;
-    interest: string;
-    relevance: string;
+    trait?: string; // Best matching persona trait, if any matched
+    interest?: string; // Best matching persona interest, if any matched
+    relevance: string; // Human-readable explanation of the match
+    breakdown: RelevanceBreakdown;
+    members?: MemberMatch[]; // For group outings: how the place suits each member, best first
+}
+
+// How well a place suits one member of a group outing
+export interface MemberMatch {
+    handle: string;
+    name: string;
+    score: number; // Relevance to this member alone (0-100)
+    interest?: string; // Best matching interest of the member
+    trait?: string; // Best matching trait of the member
+    satisfied: boolean; // Whether one of the member's interests or traits matches the place
+}
+
+// Points contributed to the relevance score by each factor (they sum to the score, floored at 0)
+export interface RelevanceBreakdown {
+    interest: number; // Up to 50
+    trait: number; // Up to 30
+    rating: number; // Up to 20
+    budget?: number; // Penalty (zero or negative) for a price outside the requested budget
+}
+
+// Spending level a user asks recommendations to fit
+export type Budget = 'cheap' | 'moderate' | 'splurge';
+
+// A user's verdict on a recommended place
+export type FeedbackVerdict = 'like' | 'dislike';
+
+// A rated place, described by the fields that are fed back into the location prompt
+export interface PlaceFeedback {
+    name: string;
+    category: string;
+    description: string;
+    verdict: FeedbackVerdict;
 }
 
 // Location recommendation with context
@@ -85,4 +158,5 @@ export interface GooglePlacesResult {
     opening_hours?: {
         weekday_text: string[];
     };
+    utc_offset?: number; // Minutes
 }
@@ -10,6 +10,7 @@ export interface Persona {
     traits: string[];
     interests: string[];
     profileImageUrl?: string;
+    source?: ProfileSourceType;
 }
 
 // Trait categories that might be identified
@@ -40,14 +41,41 @@ export enum InterestCategory {
     GAMING = 'gaming',
 }
 
-// Type for persona generation context from X data
+// Social networks a persona can be generated from
+export type ProfileSourceType = 'x' | 'bluesky' | 'mastodon' | 'github';
+
+// Display names for each profile source
+export const PROFILE_SOURCE_LABELS: Record<ProfileSourceType, string> = {
+    x: 'X',
+    bluesky: 'Bluesky',
+    mastodon: 'Mastodon',
+    github: 'GitHub',
+};
+
+// Type for persona generation context from social profile data
 export interface PersonaGenerationContext {
-    recentTweets: string[];
+    recentTweets: string[]; // Recent posts (tweets, skeets, toots or repository activity)
     bio: string;
     handle?: string; // Added handle field for better name fallbacks
+    name?: string; // Display name from the profile, if known
+    profileImageUrl?: string;
+    source?: ProfileSourceType;
     followingTopics?: string[];
     interactionTopics?: string[];
     profileDescription?: string;
+    questionnaire?: string[]; // Preference questionnaire answers, as "Question? Answer" lines
+    selfDescribed?: boolean; // Written by the user instead of read from a profile (source is then unused)
+}
+
+// Answers to the preference questionnaire, keyed by question id
+export type PreferenceAnswers = Record<string, string>;
+
+// What a user tells us about themselves instead of a profile handle
+export interface ManualPersonaInput {
+    name?: string;
+    bio?: string; // Pasted bio or a few sentences about themselves
+    posts?: string[]; // Pasted sample posts
+    answers?: PreferenceAnswers;
 }
 
 // Enhanced persona with additional metadata
@@ -60,6 +88,47 @@ export interface EnhancedPersona extends Persona {
     timePreferences?: string[]; // e.g., "morning person", "night owl"
 }
 
+// A persona whose enhanced fields may be missing (older clients, personas cached before they existed)
+export type PartialEnhancedPersona = Persona & Partial<Omit<EnhancedPersona, keyof Persona>>;
+
+// Changes a user made to a generated persona, kept so they can be shown and reset
+export interface PersonaEdits {
+    name?: string; // Set when the name was changed
+    bio?: string; // Set when the bio was changed
+    addedTraits: string[];
+    removedTraits: string[];
+    addedInterests: string[];
+    removedInterests: string[];
+}
+
+// Display names for each trait category
+export const TRAIT_CATEGORY_LABELS: Record<TraitCategory, string> = {
+    [TraitCategory.PERSONALITY]: 'Personality',
+    [TraitCategory.COMMUNICATION]: 'Communication',
+    [TraitCategory.LIFESTYLE]: 'Lifestyle',
+    [TraitCategory.VALUES]: 'Values',
+    [TraitCategory.PREFERENCES]: 'Preferences',
+};
+
+// Display names for each interest category
+export const INTEREST_CATEGORY_LABELS: Record<InterestCategory, string> = {
+    [InterestCategory.TECHNOLOGY]: 'Technology',
+    [InterestCategory.ARTS]: 'Arts',
+    [InterestCategory.SCIENCE]: 'Science',
+    [InterestCategory.SPORTS]: 'Sports',
+    [InterestCategory.FOOD]: 'Food',
+    [InterestCategory.TRAVEL]: 'Travel',
+    [InterestCategory.ENTERTAINMENT]: 'Entertainment',
+    [InterestCategory.POLITICS]: 'Politics',
+    [InterestCategory.BUSINESS]: 'Business',
+    [InterestCategory.EDUCATION]: 'Education',
+    [InterestCategory.HEALTH]: 'Health',
+    [InterestCategory.FASHION]: 'Fashion',
+    [InterestCategory.ENVIRONMENT]: 'Environment',
+    [InterestCategory.MUSIC]: 'Music',
+    [InterestCategory.GAMING]: 'Gaming',
+};
+
 // Categorized persona traits for recommendation purposes
 export interface CategorizedPersonaTraits {
     foodPreferences: string[];
@@ -0,0 +1,21 @@
+/**
+ * Shared Result Types
+ */
+import { Coordinates, Location } from './location';
+import { PartialEnhancedPersona } from './persona';
+
+// What the person sharing saw: persona, places and map settings
+export interface SharedResultInput {
+    persona: PartialEnhancedPersona; // The merged persona for group outings
+    group?: PartialEnhancedPersona[]; // Members of a group outing
+    locations: Location[];
+    city: string; // e.g. "Toronto, ON, Canada"
+    centerCoordinates?: Coordinates;
+    radiusKm?: number;
+}
+
+// A stored snapshot behind a permalink
+export interface SharedResult extends SharedResultInput {
+    id: string;
+    createdAt: string; // ISO timestamp
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { ApiErrorDetails, ErrorCode } from '@/app/types/errors';
+
+// An error as received from the API (code details are absent for unexpected failures)
+export interface ApiError extends Partial<ApiErrorDetails> {
+    message: string;
+}
+
+interface ErrorNoticeProps {
+    error: ApiError;
+    onRetry?: () => void;
+}
+
+// Title and follow-up advice for each error code
+const ERROR_COPY: Record<ErrorCode, { title: string; hint: string }> = {
+    [ErrorCode.VALIDATION]: {
+        title: 'Check your input',
+        hint: 'Please correct the highlighted value and submit again.',
+    },
+    [ErrorCode.PROFILE_NOT_FOUND]: {
+        title: 'Profile not found',
+        hint: 'Check the spelling of the handle and make sure the account is public, or try a different network.',
+    },
+    [ErrorCode.LOCATION_NOT_FOUND]: {
+        title: 'City not found',
+        hint: 'Try the full city name with its country, e.g. "Toronto, ON, Canada".',
+    },
+    [ErrorCode.NO_RESULTS]: {
+        title: 'No places found',
+        hint: 'Try a different city, or a profile with more public posts.',
+    },
+    [ErrorCode.UPSTREAM_RATE_LIMITED]: {
+        title: 'Too many requests',
+        hint: 'One of our data providers is busy. Please wait a moment before trying again.',
+    },
+    [ErrorCode.UPSTREAM_AUTH]: {
+        title: 'Service not configured',
+        hint: 'The server could not authenticate with a data provider. Please let the site owner know.',
+    },
+    [ErrorCode.UPSTREAM_UNAVAILABLE]: {
+        title: 'Service unavailable',
+        hint: 'A data provider is having trouble right now. Trying again in a little while usually helps.',
+    },
+    [ErrorCode.LLM_INVALID_OUTPUT]: {
+        title: 'The AI got confused',
+        hint: 'The model returned something we could not use. Trying again usually fixes this.',
+    },
+    [ErrorCode.TIMEOUT]: {
+        title: 'Request timed out',
+        hint: 'This is taking longer than usual. Please try again.',
+    },
+    [ErrorCode.NETWORK]: {
+        title: 'Connection lost',
+        hint: 'Check your internet connection and try again.',
+    },
+    [ErrorCode.INTERNAL]: {
+        title: 'Something went wrong',
+        hint: 'Please try again later.',
+    },
+};
+
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry }) => {
+    const copy = ERROR_COPY[error.code ?? ErrorCode.INTERNAL];
+    const [secondsLeft, setSecondsLeft] = useState<number>(error.retryAfterSeconds ?? 0);
+
+    // Count down the suggested wait before the retry button is enabled
+    useEffect(() => {
+        setSecondsLeft(error.retryAfterSeconds ?? 0);
+        if (!error.retryAfterSeconds) return;
+
+        const interval = setInterval(() => {
+            setSecondsLeft(prevSeconds => {
+                if (prevSeconds <= 1) {
+                    clearInterval(interval);
+                    return 0;
+                }
+                return prevSeconds - 1;
+            });
+        }, 1000);
+
+        return () => clearInterval(interval);
+    }, [error]);
+
+    return (
+        <div className="bg-red-50 dark:bg-red-900 dark:bg-opacity-20 border border-red-200 dark:border-red-800 rounded-lg p-6 transition-colors duration-200" role="alert">
+            <h3 className="text-lg font-medium text-red-800 dark:text-red-300 transition-colors duration-200">{copy.title}</h3>
+            <p className="mt-2 text-sm text-red-700 dark:text-red-300 transition-colors duration-200">{error.message}</p>
+            <p className="mt-4 text-sm text-red-700 dark:text-red-300 transition-colors duration-200">{copy.hint}</p>
+
+            {error.retryable && onRetry && (
+                <button
+                    type="button"
+                    onClick={onRetry}
+                    disabled={secondsLeft > 0}
+                    className="mt-4 px-4 py-2 rounded-md bg-red-600 hover:bg-red-700 text-white text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                    {secondsLeft > 0 ? `Try again in ${secondsLeft}s` : 'Try again'}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default ErrorNotice;
@@ -0,0 +1,41 @@
+'use client';
+
+import React from 'react';
+import { FeedbackVerdict } from '@/app/types/location';
+
+interface FeedbackButtonsProps {
+    verdict?: FeedbackVerdict; // The current rating, if any
+    onRate: (verdict: FeedbackVerdict) => void; // Rating with the current verdict again takes it back
+}
+
+const BUTTONS: { verdict: FeedbackVerdict; icon: string; label: string; activeClassName: string }[] = [
+    { verdict: 'like', icon: '👍', label: 'Like', activeClassName: 'bg-green-100 border-green-500 text-green-800' },
+    { verdict: 'dislike', icon: '👎', label: 'Dislike', activeClassName: 'bg-red-100 border-red-500 text-red-800' },
+];
+
+/**
+ * Thumbs up/down controls for one recommended place
+ */
+const FeedbackButtons: React.FC<FeedbackButtonsProps> = ({ verdict, onRate }) => (
+    <div className="inline-flex gap-1" role="group" aria-label="Rate this place">
+        {BUTTONS.map(button => (
+            <button
+                key={button.verdict}
+                type="button"
+                aria-pressed={verdict === button.verdict}
+                title={button.label}
+                onClick={(e) => {
+                    e.stopPropagation(); // Don't select the place
+                    onRate(button.verdict);
+                }}
+                className={`px-2 py-0.5 rounded-full border text-sm transition-colors duration-200 ${
+                    verdict === button.verdict ? button.activeClassName : 'border-border hover:bg-card-bg'
+                }`}
+            >
+                {button.icon}
+            </button>
+        ))}
+    </div>
+);
+
+export default FeedbackButtons;
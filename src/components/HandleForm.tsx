@@ -2,16 +2,51 @@
 
 import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
+import { ManualPersonaInput, PreferenceAnswers, ProfileSourceType, PROFILE_SOURCE_LABELS } from '@/app/types/persona';
+import { Budget } from '@/app/types/location';
+import { PlaceFilters } from '@/app/types/api';
+import { BUDGET_LABELS, BUDGETS } from '@/app/lib/budget';
+import { DEFAULT_VISIT_MINUTES, resolveVisitWindow } from '@/app/lib/opening-hours';
+import { MAX_GROUP_SIZE } from '@/app/lib/group';
+import { PREFERENCE_QUESTIONS, validateManualPersonaInput } from '@/app/lib/manual-persona';
+
+// Ways to describe who the recommendations are for
+type InputMode = 'profile' | 'text' | 'questionnaire';
+
+const INPUT_MODE_LABELS: Record<InputMode, string> = {
+    profile: 'Profile',
+    text: 'Paste text',
+    questionnaire: 'Questionnaire',
+};
+
+// Input hints for each supported network
+const SOURCE_HINTS: Record<ProfileSourceType, { prefix?: string; placeholder: string; example: string }> = {
+    x: { prefix: '@', placeholder: 'username', example: 'You can enter with or without the @ symbol (e.g., "dao_toronto" or "@dao_toronto")' },
+    bluesky: { prefix: '@', placeholder: 'name.bsky.social', example: 'Your full handle, e.g. "jay.bsky.team" (".bsky.social" is added if omitted)' },
+    mastodon: { placeholder: 'user@mastodon.social', example: 'Your account address including the server, e.g. "Gargron@mastodon.social"' },
+    github: { placeholder: 'username', example: 'Your GitHub username or profile URL, e.g. "octocat"' },
+};
 
 interface HandleFormProps {
-    onSubmit: (xHandle: string, location: string) => void; // Updated to match the function signature in Home component
+    onSubmit: (source: ProfileSourceType, identifiers: string[], location: string, filters: PlaceFilters) => void; // Several identifiers plan a group outing
+    onManualSubmit: (input: ManualPersonaInput, location: string, filters: PlaceFilters) => void; // Pasted text or questionnaire, no profile lookup
     isLoading: boolean;
     defaultLocation?: string;
 }
 
-const HandleForm: React.FC<HandleFormProps> = ({ onSubmit, isLoading, defaultLocation }) => {
+const HandleForm: React.FC<HandleFormProps> = ({ onSubmit, onManualSubmit, isLoading, defaultLocation }) => {
+    const [mode, setMode] = useState<InputMode>('profile');
+    const [source, setSource] = useState<ProfileSourceType>('x');
     const [xHandle, setXHandle] = useState<string>('');
+    const [name, setName] = useState<string>('');
+    const [bio, setBio] = useState<string>('');
+    const [posts, setPosts] = useState<string>('');
+    const [answers, setAnswers] = useState<PreferenceAnswers>({});
     const [location, setLocation] = useState<string>(defaultLocation || '');
+    const [budget, setBudget] = useState<Budget | undefined>(undefined);
+    const [visitStart, setVisitStart] = useState<string>(''); // Local "YYYY-MM-DDTHH:mm"
+    const [visitEnd, setVisitEnd] = useState<string>('');
+    const [hideClosed, setHideClosed] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
 
     // Update location if defaultLocation changes
@@ -21,62 +56,348 @@ const HandleForm: React.FC<HandleFormProps> = ({ onSubmit, isLoading, defaultLoc
         }
     }, [defaultLocation]);
 
+    // Budget and visit window, validated like the server does
+    const buildFilters = (): PlaceFilters | null => {
+        if (!visitStart) {
+            if (visitEnd) {
+                setError('Please choose when your visit starts');
+                return null;
+            }
+            return { budget };
+        }
+
+        const visit = { start: visitStart, ...(visitEnd ? { end: visitEnd } : {}) };
+        const invalid = resolveVisitWindow(visit);
+        if ('error' in invalid) {
+            setError(invalid.error);
+            return null;
+        }
+
+        return { budget, visit, hideClosed };
+    };
+
+    // Pasted text or questionnaire answers, validated like the server does
+    const handleManualSubmit = () => {
+        const input: ManualPersonaInput = mode === 'text'
+            ? { name, bio, posts: posts.split(/\n\s*\n/) } // Posts are separated by blank lines
+            : { name, answers };
+
+        const invalid = validateManualPersonaInput(input);
+        if (invalid) {
+            setError(invalid);
+            return;
+        }
+
+        if (!location.trim()) {
+            setError('Please enter a city');
+            return;
+        }
+
+        const filters = buildFilters();
+        if (!filters) return;
+
+        setError(null);
+        onManualSubmit(input, location.trim(), filters);
+    };
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
 
+        if (mode !== 'profile') {
+            handleManualSubmit();
+            return;
+        }
+
         // Basic validation
         if (!xHandle.trim()) {
-            setError('Please enter your X handle');
+            setError(`Please enter your ${PROFILE_SOURCE_LABELS[source]} handle`);
             return;
         }
 
         // Clear any previous errors
         setError(null);
 
-        // Remove @ symbol if user included it
-        const cleanHandle = xHandle.trim().replace(/^@/, '');
+        // Several handles separated by commas plan a group outing
+        // Remove @ symbol if user included it (Mastodon addresses keep their inner @)
+        const cleanHandles = xHandle.split(',').map(handle => handle.trim().replace(/^@/, '')).filter(Boolean);
+        if (cleanHandles.length > MAX_GROUP_SIZE) {
+            setError(`Please enter at most ${MAX_GROUP_SIZE} handles for a group`);
+            return;
+        }
+
+        if (!location.trim()) {
+            setError('Please enter a city');
+            return;
+        }
 
-        // Always use Toronto as the location
-        const torontoLocation = "Toronto, ON, Canada";
-        setLocation(torontoLocation);
-        onSubmit(cleanHandle, torontoLocation);
+        const filters = buildFilters();
+        if (!filters) return;
+
+        onSubmit(source, cleanHandles, location.trim(), filters);
     };
 
     return (
         <div className="max-w-md mx-auto p-6 bg-card-bg rounded-lg shadow-md transition-colors duration-200 border border-border">
-            <h2 className="text-xl font-bold mb-4 text-primary transition-colors duration-200">Generate Your Toronto Recommendations</h2>
+            <h2 className="text-xl font-bold mb-4 text-primary transition-colors duration-200">Generate Your City Recommendations</h2>
 
             <form onSubmit={handleSubmit}>
                 <div className="mb-4">
-                    <label htmlFor="xHandle" className="block text-sm font-medium text-primary mb-1 transition-colors duration-200">
-                        X Handle
+                    <span className="block text-sm font-medium text-primary mb-1 transition-colors duration-200">
+                        Describe yourself with
+                    </span>
+                    <div className="grid grid-cols-3 gap-1 p-1 border border-border rounded-md bg-background" role="radiogroup">
+                        {(Object.keys(INPUT_MODE_LABELS) as InputMode[]).map(option => (
+                            <button
+                                key={option}
+                                type="button"
+                                role="radio"
+                                aria-checked={mode === option}
+                                onClick={() => {
+                                    setMode(option);
+                                    setError(null);
+                                }}
+                                disabled={isLoading}
+                                className={`py-1 text-sm rounded transition-colors duration-200 ${
+                                    mode === option
+                                        ? 'bg-blue-500 dark:bg-blue-600 text-white'
+                                        : 'text-primary hover:bg-card-bg'
+                                }`}
+                            >
+                                {INPUT_MODE_LABELS[option]}
+                            </button>
+                        ))}
+                    </div>
+                    {mode !== 'profile' && (
+                        <p className="mt-1 text-xs text-primary transition-colors duration-200">
+                            No public profile needed: nothing is looked up, we only read what you enter here.
+                        </p>
+                    )}
+                </div>
+
+                {mode === 'profile' && (<>
+                    <div className="mb-4">
+                        <span className="block text-sm font-medium text-primary mb-1 transition-colors duration-200">
+                            Network
+                        </span>
+                        <div className="grid grid-cols-4 gap-1 p-1 border border-border rounded-md bg-background" role="radiogroup">
+                            {(Object.keys(PROFILE_SOURCE_LABELS) as ProfileSourceType[]).map(type => (
+                                <button
+                                    key={type}
+                                    type="button"
+                                    role="radio"
+                                    aria-checked={source === type}
+                                    onClick={() => setSource(type)}
+                                    disabled={isLoading}
+                                    className={`py-1 text-sm rounded transition-colors duration-200 ${
+                                        source === type
+                                            ? 'bg-blue-500 dark:bg-blue-600 text-white'
+                                            : 'text-primary hover:bg-card-bg'
+                                    }`}
+                                >
+                                    {PROFILE_SOURCE_LABELS[type]}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="mb-4">
+                        <label htmlFor="xHandle" className="block text-sm font-medium text-primary mb-1 transition-colors duration-200">
+                            {PROFILE_SOURCE_LABELS[source]} Handle
+                        </label>
+                        <div className="relative">
+                            {SOURCE_HINTS[source].prefix && (
+                                <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-primary">{SOURCE_HINTS[source].prefix}</span>
+                            )}
+                        <input
+                            type="text"
+                            id="xHandle"
+                            value={xHandle}
+                            onChange={(e) => setXHandle(e.target.value)}
+                            className={`${SOURCE_HINTS[source].prefix ? 'pl-7' : ''} w-full p-2 border border-border bg-background text-primary rounded-md focus:ring-blue-500 focus:border-blue-500 transition-colors duration-200`}
+                            placeholder={SOURCE_HINTS[source].placeholder}
+                            disabled={isLoading}
+                        />
+                        </div>
+                        <p className="mt-1 text-xs text-primary transition-colors duration-200">
+                            {SOURCE_HINTS[source].example}
+                        </p>
+                        <p className="mt-1 text-xs text-primary transition-colors duration-200">
+                            Planning a group outing? Separate several handles with commas.
+                        </p>
+                    </div>
+                </>)}
+
+                {mode !== 'profile' && (
+                    <div className="mb-4">
+                        <label htmlFor="name" className="block text-sm font-medium text-primary mb-1 transition-colors duration-200">
+                            Name (optional)
+                        </label>
+                        <input
+                            type="text"
+                            id="name"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            className="w-full p-2 border border-border bg-background text-primary rounded-md focus:ring-blue-500 focus:border-blue-500 transition-colors duration-200"
+                            disabled={isLoading}
+                        />
+                    </div>
+                )}
+
+                {mode === 'text' && (<>
+                    <div className="mb-4">
+                        <label htmlFor="bio" className="block text-sm font-medium text-primary mb-1 transition-colors duration-200">
+                            Bio
+                        </label>
+                        <textarea
+                            id="bio"
+                            value={bio}
+                            onChange={(e) => setBio(e.target.value)}
+                            rows={3}
+                            className="w-full p-2 border border-border bg-background text-primary rounded-md focus:ring-blue-500 focus:border-blue-500 transition-colors duration-200"
+                            placeholder="Your profile bio, or a few sentences about yourself"
+                            disabled={isLoading}
+                        />
+                    </div>
+                    <div className="mb-4">
+                        <label htmlFor="posts" className="block text-sm font-medium text-primary mb-1 transition-colors duration-200">
+                            Sample posts
+                        </label>
+                        <textarea
+                            id="posts"
+                            value={posts}
+                            onChange={(e) => setPosts(e.target.value)}
+                            rows={5}
+                            className="w-full p-2 border border-border bg-background text-primary rounded-md focus:ring-blue-500 focus:border-blue-500 transition-colors duration-200"
+                            placeholder="Paste a few of your posts"
+                            disabled={isLoading}
+                        />
+                        <p className="mt-1 text-xs text-primary transition-colors duration-200">
+                            Separate posts with a blank line.
+                        </p>
+                    </div>
+                </>)}
+
+                {mode === 'questionnaire' && PREFERENCE_QUESTIONS.map(question => (
+                    <div key={question.id} className="mb-4">
+                        <label htmlFor={`question-${question.id}`} className="block text-sm font-medium text-primary mb-1 transition-colors duration-200">
+                            {question.question}
+                        </label>
+                        {question.options ? (
+                            <select
+                                id={`question-${question.id}`}
+                                value={answers[question.id] ?? ''}
+                                onChange={(e) => setAnswers({ ...answers, [question.id]: e.target.value })}
+                                className="w-full p-2 border border-border bg-background text-primary rounded-md focus:ring-blue-500 focus:border-blue-500 transition-colors duration-200"
+                                disabled={isLoading}
+                            >
+                                <option value="">No preference</option>
+                                {question.options.map(option => (
+                                    <option key={option} value={option}>{option}</option>
+                                ))}
+                            </select>
+                        ) : (
+                            <input
+                                type="text"
+                                id={`question-${question.id}`}
+                                value={answers[question.id] ?? ''}
+                                onChange={(e) => setAnswers({ ...answers, [question.id]: e.target.value })}
+                                className="w-full p-2 border border-border bg-background text-primary rounded-md focus:ring-blue-500 focus:border-blue-500 transition-colors duration-200"
+                                placeholder={question.placeholder}
+                                disabled={isLoading}
+                            />
+                        )}
+                    </div>
+                ))}
+
+                <div className="mb-4">
+                    <label htmlFor="location" className="flex items-center text-sm font-medium text-primary mb-1 transition-colors duration-200">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 text-blue-500" viewBox="0 0 20 20" fill="currentColor">
+                            <path fillRule="evenodd" d="M5.05 4.05a7 7 0 119.9 9.9L10 18.9l-4.95-4.95a7 7 0 010-9.9zM10 11a2 2 0 100-4 2 2 0 000 4z" clipRule="evenodd" />
+                        </svg>
+                        City
                     </label>
-                    <div className="relative">
-                        <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-primary">@</span>
                     <input
                         type="text"
-                        id="xHandle"
-                        value={xHandle}
-                        onChange={(e) => setXHandle(e.target.value)}
-                        className="pl-7 w-full p-2 border border-border bg-background text-primary rounded-md focus:ring-blue-500 focus:border-blue-500 transition-colors duration-200"
-                        placeholder="username"
+                        id="location"
+                        value={location}
+                        onChange={(e) => setLocation(e.target.value)}
+                        className="w-full p-2 border border-border bg-background text-primary rounded-md focus:ring-blue-500 focus:border-blue-500 transition-colors duration-200"
+                        placeholder="Toronto, ON, Canada"
                         disabled={isLoading}
                     />
+                </div>
+
+                <div className="mb-4">
+                    <span className="block text-sm font-medium text-primary mb-1 transition-colors duration-200">
+                        Budget
+                    </span>
+                    <div className="grid grid-cols-4 gap-1 p-1 border border-border rounded-md bg-background" role="radiogroup">
+                        {[undefined, ...BUDGETS].map(option => (
+                            <button
+                                key={option ?? 'any'}
+                                type="button"
+                                role="radio"
+                                aria-checked={budget === option}
+                                onClick={() => setBudget(option)}
+                                disabled={isLoading}
+                                className={`py-1 text-sm rounded transition-colors duration-200 ${
+                                    budget === option
+                                        ? 'bg-blue-500 dark:bg-blue-600 text-white'
+                                        : 'text-primary hover:bg-card-bg'
+                                }`}
+                            >
+                                {option ? BUDGET_LABELS[option] : 'Any'}
+                            </button>
+                        ))}
                     </div>
-                    <p className="mt-1 text-xs text-primary transition-colors duration-200">
-                        You can enter with or without the @ symbol (e.g., "dao_toronto" or "@dao_toronto")
-                    </p>
                 </div>
 
                 <div className="mb-4">
-                    <div className="flex items-center">
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 text-blue-500" viewBox="0 0 20 20" fill="currentColor">
-                            <path fillRule="evenodd" d="M5.05 4.05a7 7 0 119.9 9.9L10 18.9l-4.95-4.95a7 7 0 010-9.9zM10 11a2 2 0 100-4 2 2 0 000 4z" clipRule="evenodd" />
-                        </svg>
-                        <span className="text-sm font-medium text-primary transition-colors duration-200">
-                            Location: Toronto, ON, Canada
-                        </span>
+                    <span className="block text-sm font-medium text-primary mb-1 transition-colors duration-200">
+                        When are you going? (optional)
+                    </span>
+                    <div className="grid grid-cols-2 gap-2">
+                        <div>
+                            <label htmlFor="visitStart" className="block text-xs text-primary mb-1 transition-colors duration-200">
+                                From
+                            </label>
+                            <input
+                                type="datetime-local"
+                                id="visitStart"
+                                value={visitStart}
+                                onChange={(e) => setVisitStart(e.target.value)}
+                                className="w-full p-2 border border-border bg-background text-primary rounded-md focus:ring-blue-500 focus:border-blue-500 transition-colors duration-200"
+                                disabled={isLoading}
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="visitEnd" className="block text-xs text-primary mb-1 transition-colors duration-200">
+                                Until
+                            </label>
+                            <input
+                                type="datetime-local"
+                                id="visitEnd"
+                                value={visitEnd}
+                                min={visitStart || undefined}
+                                onChange={(e) => setVisitEnd(e.target.value)}
+                                className="w-full p-2 border border-border bg-background text-primary rounded-md focus:ring-blue-500 focus:border-blue-500 transition-colors duration-200"
+                                disabled={isLoading}
+                            />
+                        </div>
                     </div>
+                    <label className="mt-2 flex items-center text-sm text-primary transition-colors duration-200">
+                        <input
+                            type="checkbox"
+                            checked={hideClosed}
+                            onChange={(e) => setHideClosed(e.target.checked)}
+                            className="mr-2"
+                            disabled={isLoading || !visitStart}
+                        />
+                        Hide places that are closed then
+                    </label>
+                    <p className="mt-1 text-xs text-primary transition-colors duration-200">
+                        Local time in the city. Without an end, the visit lasts {DEFAULT_VISIT_MINUTES / 60} hours.
+                    </p>
                 </div>
 
                 {error && (
@@ -99,7 +420,7 @@ const HandleForm: React.FC<HandleFormProps> = ({ onSubmit, isLoading, defaultLoc
                             Processing...
                         </span>
                     ) : (
-                        'Find My Toronto Spots'
+                        'Find My Spots'
                     )}
                 </button>
             </form>
@@ -0,0 +1,164 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Itinerary, TRAVEL_MODE_ICONS } from '@/app/types/itinerary';
+
+interface ItineraryTimelineProps {
+    itinerary: Itinerary | null;
+    onPlan: (start: string, end: string) => void;
+    isPlanning: boolean;
+    error?: string | null;
+    selectedLocationId: string | null;
+    onLocationSelect: (locationId: string) => void;
+    onAddToCalendar?: () => void; // Shows the calendar download when provided
+    isExportingCalendar?: boolean;
+    calendarError?: string | null;
+}
+
+// Today's date in the device's time zone, as "YYYY-MM-DD"
+const today = () => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+// "2026-10-19T09:30" -> "09:30"
+const clock = (dateTime: string) => dateTime.slice(11, 16);
+
+const inputClassName = 'w-full p-2 border border-border bg-background text-primary rounded-md focus:ring-blue-500 focus:border-blue-500 transition-colors duration-200';
+
+/**
+ * Day plan: start/end pickers and the resulting schedule, with travel between stops
+ */
+const ItineraryTimeline: React.FC<ItineraryTimelineProps> = ({
+    itinerary,
+    onPlan,
+    isPlanning,
+    error,
+    selectedLocationId,
+    onLocationSelect,
+    onAddToCalendar,
+    isExportingCalendar = false,
+    calendarError,
+}) => {
+    const [start, setStart] = useState(() => `${today()}T10:00`);
+    const [end, setEnd] = useState(() => `${today()}T20:00`);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onPlan(start, end);
+    };
+
+    return (
+        <div className="p-6 bg-card-bg rounded-lg shadow-md border border-border transition-colors duration-200">
+            <h2 className="text-xl font-bold mb-4 text-primary transition-colors duration-200">Plan Your Day</h2>
+
+            <form onSubmit={handleSubmit} className="space-y-3">
+                <div className="grid grid-cols-2 gap-2">
+                    <div>
+                        <label htmlFor="itineraryStart" className="block text-sm font-medium text-primary mb-1">Start</label>
+                        <input
+                            type="datetime-local"
+                            id="itineraryStart"
+                            value={start}
+                            onChange={(e) => setStart(e.target.value)}
+                            className={inputClassName}
+                            disabled={isPlanning}
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="itineraryEnd" className="block text-sm font-medium text-primary mb-1">End</label>
+                        <input
+                            type="datetime-local"
+                            id="itineraryEnd"
+                            value={end}
+                            onChange={(e) => setEnd(e.target.value)}
+                            className={inputClassName}
+                            disabled={isPlanning}
+                        />
+                    </div>
+                </div>
+                <button
+                    type="submit"
+                    disabled={isPlanning || !start || !end}
+                    className="w-full py-2 px-4 rounded-md border border-border bg-background text-primary font-medium hover:bg-blue-50 dark:hover:bg-blue-900 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                    {isPlanning ? 'Planning...' : itinerary ? 'Re-plan my day' : 'Plan my day'}
+                </button>
+            </form>
+
+            {error && (
+                <p className="mt-3 text-sm text-red-600 dark:text-red-400 transition-colors duration-200">{error}</p>
+            )}
+
+            {itinerary && (
+                <div className="mt-4">
+                    <p className="text-xs text-primary opacity-80 mb-3 transition-colors duration-200">
+                        {itinerary.stops.length} stops · {itinerary.totalTravelMinutes} min travelling · {itinerary.totalDistanceKm} km
+                    </p>
+
+                    <ol className="relative border-l-2 border-blue-200 dark:border-blue-800 ml-2">
+                        {itinerary.stops.map(stop => (
+                            <li key={stop.locationId} className="ml-4 pb-4">
+                                {(stop.travel || stop.waitMinutes > 0) && (
+                                    <p className="text-xs text-primary opacity-70 mb-2 transition-colors duration-200">
+                                        {[
+                                            stop.travel && `${TRAVEL_MODE_ICONS[stop.travel.mode]} ${stop.travel.durationMinutes} min · ${stop.travel.distanceKm} km`,
+                                            stop.waitMinutes > 0 && `${stop.waitMinutes} min free time`,
+                                        ].filter(Boolean).join(' · ')}
+                                    </p>
+                                )}
+                                <span className="absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full bg-blue-500" />
+                                <button
+                                    type="button"
+                                    onClick={() => onLocationSelect(stop.locationId)}
+                                    className={`w-full text-left rounded-md p-2 transition-colors duration-200 ${
+                                        selectedLocationId === stop.locationId
+                                            ? 'bg-blue-50 dark:bg-blue-800'
+                                            : 'hover:bg-background'
+                                    }`}
+                                >
+                                    <span className="block text-xs font-medium text-blue-600 dark:text-blue-300">
+                                        {clock(stop.arrival)} – {clock(stop.departure)}
+                                    </span>
+                                    <span className="block font-medium text-primary">{stop.name}</span>
+                                    <span className="block text-xs text-primary opacity-70">{stop.category} · {stop.dwellMinutes} min</span>
+                                </button>
+                            </li>
+                        ))}
+                    </ol>
+
+                    {onAddToCalendar && (
+                        <div className="mb-2">
+                            <button
+                                type="button"
+                                onClick={onAddToCalendar}
+                                disabled={isExportingCalendar}
+                                className="w-full py-2 px-4 rounded-md border border-border bg-background text-primary text-sm font-medium hover:bg-blue-50 dark:hover:bg-blue-900 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                            >
+                                {isExportingCalendar ? 'Preparing calendar...' : '📅 Add to calendar (.ics)'}
+                            </button>
+                            {calendarError && (
+                                <p className="mt-2 text-sm text-red-600 dark:text-red-400 transition-colors duration-200">{calendarError}</p>
+                            )}
+                        </div>
+                    )}
+
+                    {itinerary.skipped.length > 0 && (
+                        <div className="mt-2">
+                            <p className="text-sm font-medium text-primary mb-1">Didn&apos;t fit</p>
+                            <ul className="space-y-1">
+                                {itinerary.skipped.map(stop => (
+                                    <li key={stop.locationId} className="text-xs text-primary opacity-80">
+                                        {stop.name}: {stop.reason}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ItineraryTimeline;
@@ -1,18 +1,41 @@
 import React from 'react';
 
+export interface LoadingStep {
+    id: string;
+    label: string;
+    status: 'pending' | 'active' | 'done' | 'error';
+    detail?: string;
+}
+
 interface LoadingStateProps {
     message?: string;
     fullScreen?: boolean;
+    steps?: LoadingStep[];
 }
 
 const LoadingState: React.FC<LoadingStateProps> = ({
     message = 'Loading...',
-    fullScreen = false
+    fullScreen = false,
+    steps,
 }) => {
     const containerClasses = fullScreen
         ? 'fixed inset-0 bg-background bg-opacity-80 flex items-center justify-center z-50 transition-colors duration-200'
         : 'w-full flex flex-col items-center justify-center p-8 border border-border rounded-lg bg-card-bg transition-colors duration-200';
 
+    // Status marker for each step in the progress list
+    const getStepIcon = (status: LoadingStep['status']) => {
+        switch (status) {
+            case 'done':
+                return <span className="h-6 w-6 rounded-full bg-green-500 text-white flex items-center justify-center text-xs">✓</span>;
+            case 'active':
+                return <span className="h-6 w-6 rounded-full border-2 border-blue-500 border-t-transparent animate-spin"></span>;
+            case 'error':
+                return <span className="h-6 w-6 rounded-full bg-red-500 text-white flex items-center justify-center text-xs">!</span>;
+            default:
+                return <span className="h-6 w-6 rounded-full border-2 border-border"></span>;
+        }
+    };
+
     return (
         <div className={containerClasses}>
             <div className="flex flex-col items-center">
@@ -29,6 +52,24 @@ const LoadingState: React.FC<LoadingStateProps> = ({
                         </p>
                     )}
                 </div>
+
+                {steps && steps.length > 0 && (
+                    <ol className="mt-6 space-y-3 w-full max-w-sm">
+                        {steps.map(step => (
+                            <li key={step.id} className="flex items-start">
+                                <div className="flex-shrink-0 mr-3">{getStepIcon(step.status)}</div>
+                                <div>
+                                    <p className={`text-sm font-medium transition-colors duration-200 ${
+                                        step.status === 'pending' ? 'text-primary opacity-50' : 'text-primary'
+                                    }`}>{step.label}</p>
+                                    {step.detail && (
+                                        <p className="text-xs text-primary opacity-70 transition-colors duration-200">{step.detail}</p>
+                                    )}
+                                </div>
+                            </li>
+                        ))}
+                    </ol>
+                )}
             </div>
         </div>
     );
@@ -1,8 +1,17 @@
 'use client';
 
-import React, { useContext, useEffect } from 'react';
+import React, { useContext, useEffect, useState } from 'react';
 import Image from 'next/image';
 import { PlacePhotosContext } from './LocationMap';
+import { FeedbackVerdict, LocationRecommendationContext, PlaceFeedback, WeeklySchedule } from '@/app/types/location';
+import { estimateSpend, formatPriceLevel } from '@/app/lib/budget';
+import { EXPORT_FORMATS } from '@/app/lib/export';
+import { saveDownload } from '@/app/lib/download';
+import { memberImageFor } from '@/app/lib/group';
+import { verdictFor } from '@/app/lib/feedback';
+import { ExportFormat, RouteSummary, TRAVEL_MODE_ICONS } from '@/app/types/itinerary';
+import OpenStatusBadge from './OpenStatusBadge';
+import FeedbackButtons from './FeedbackButtons';
 
 export interface Location {
     id: string;
@@ -16,13 +25,33 @@ export interface Location {
     };
     rating?: number;
     website?: string;
+    phone?: string;
+    openingHours?: string[];
+    schedule?: WeeklySchedule;
+    utcOffsetMinutes?: number;
+    openDuringVisit?: boolean;
+    priceLevel?: number;
+    verified?: boolean;
+    relevanceScore?: number;
+    recommendationContext?: LocationRecommendationContext;
 }
 
 interface LocationListProps {
-    locations: Location[];
+    locations: Location[]; // In display order, e.g. most relevant first
     selectedLocationId: string | null;
     onLocationSelect: (locationId: string) => void;
     profileImage?: string;
+    onShowMore?: () => void; // Shows the "Show more" button when provided
+    isLoadingMore?: boolean;
+    showMoreError?: string | null;
+    route?: RouteSummary | null; // Lists places in visiting order, with travel between them
+    exportName?: string; // Title of downloaded files, e.g. "Toronto recommendations"
+    memberImages?: Record<string, string>; // Group outings: each member's profile image, keyed by handle
+    feedback?: PlaceFeedback[]; // Ratings so far; shows like/dislike controls with onRate
+    onRate?: (location: Location, verdict: FeedbackVerdict) => void;
+    onReplace?: (location: Location, sameCategory: boolean) => void; // Shows "replace this one" controls when provided
+    replacingId?: string | null; // The place being replaced
+    replaceError?: { locationId: string; message: string } | null;
 }
 
 const LocationList: React.FC<LocationListProps> = ({
@@ -30,9 +59,22 @@ const LocationList: React.FC<LocationListProps> = ({
     selectedLocationId,
     onLocationSelect,
     profileImage,
+    onShowMore,
+    isLoadingMore = false,
+    showMoreError,
+    route,
+    exportName,
+    memberImages,
+    feedback = [],
+    onRate,
+    onReplace,
+    replacingId,
+    replaceError,
 }) => {
     // Get place photos from context
     const placePhotos = useContext(PlacePhotosContext);
+    const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+    const [exportError, setExportError] = useState<string | null>(null);
     
     // Debug logging
     useEffect(() => {
@@ -54,6 +96,39 @@ const LocationList: React.FC<LocationListProps> = ({
         }
     };
 
+    // Summarize what the relevance score is made of, for the match badge tooltip
+    const describeScore = (context?: LocationRecommendationContext): string => {
+        if (!context) return 'Relevance to your persona';
+        const { interest, trait, rating, budget } = context.breakdown;
+        const budgetNote = budget ? `, budget: ${budget}` : '';
+        return `${context.relevance} Interests: ${interest}/50, traits: ${trait}/30, rating: ${rating}/20${budgetNote}`;
+    };
+
+    // Download the places and the route for other mapping apps
+    const handleExport = async (format: ExportFormat) => {
+        setExportingFormat(format);
+        setExportError(null);
+
+        try {
+            const response = await fetch('/api/export', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ format, locations, name: exportName, order: route?.order }),
+            });
+
+            if (!response.ok) {
+                const data = await response.json().catch(() => null);
+                throw new Error(data?.error || 'Failed to export your recommendations.');
+            }
+
+            await saveDownload(response, `recommendations.${EXPORT_FORMATS[format].extension}`);
+        } catch (error) {
+            setExportError(error instanceof Error ? error.message : 'Failed to export your recommendations.');
+        } finally {
+            setExportingFormat(null);
+        }
+    };
+
     if (!locations.length) {
         return (
             <div className="bg-card-bg bg-opacity-50 p-4 rounded-md text-center text-primary border border-border transition-colors duration-200">
@@ -62,6 +137,24 @@ const LocationList: React.FC<LocationListProps> = ({
         );
     }
 
+    // Rough cost of visiting every recommended place
+    const spend = estimateSpend(locations);
+
+    // Visiting order when a route is known (places not on it yet go last), otherwise by relevance
+    const routePosition = (location: Location) => {
+        const position = route?.order.indexOf(location.id) ?? -1;
+        return position >= 0 ? position : Number.MAX_SAFE_INTEGER;
+    };
+    const orderedLocations = route
+        ? [...locations].sort((a, b) => routePosition(a) - routePosition(b))
+        : locations;
+
+    // The leg from a place to the next one on the route
+    const legAfter = (location: Location) => {
+        const position = route?.order.indexOf(location.id) ?? -1;
+        return position >= 0 ? route?.legs[position] : undefined;
+    };
+
     const getCategoryEmoji = (category: string): string => {
         const categories: Record<string, string> = {
             restaurant: '🍽️',
@@ -91,112 +184,268 @@ const LocationList: React.FC<LocationListProps> = ({
         <div className="space-y-4 mt-4">
             <h2 className="text-xl font-bold text-primary transition-colors duration-200">Recommended Locations</h2>
             <p className="text-sm text-primary transition-colors duration-200">Based on your X persona profile</p>
+            <p
+                className="text-sm text-primary transition-colors duration-200"
+                title="Rough estimate in US dollars from each place's price level"
+            >
+                Estimated spend for the whole itinerary: {spend.max === 0 ? 'Free' : `$${spend.min}–$${spend.max} per person`}
+            </p>
+            <div className="flex flex-wrap items-center gap-2 text-sm text-primary transition-colors duration-200">
+                <span>Download for other map apps:</span>
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                    <button
+                        key={format}
+                        type="button"
+                        onClick={() => handleExport(format)}
+                        disabled={exportingFormat !== null}
+                        className="px-2 py-1 rounded border border-border bg-card-bg hover:bg-blue-50 dark:hover:bg-blue-900 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                    >
+                        {exportingFormat === format ? 'Exporting...' : EXPORT_FORMATS[format].label}
+                    </button>
+                ))}
+            </div>
+            {exportError && (
+                <p className="text-sm text-red-600 dark:text-red-400 transition-colors duration-200">{exportError}</p>
+            )}
 
             <div className="space-y-3">
-                {locations.map((location, index) => {
+                {orderedLocations.map((location, index) => {
                     const photoUrl = placePhotos?.[location.id];
+                    const leg = legAfter(location);
+                    // Group outings show the member each place suits best
+                    const avatar = (memberImages && memberImageFor(location, memberImages)) || profileImage;
                     console.log(`Location ${location.id} (${location.name}) photo:`, photoUrl);
                     
                     return (
-                        <div
-                            key={location.id}
-                            className={`border rounded-lg overflow-hidden shadow-sm transition-all cursor-pointer ${
-                                selectedLocationId === location.id
-                                    ? 'border-blue-500 bg-blue-50 dark:bg-blue-800'
-                                    : 'border-border hover:bg-card-bg'
-                            } transition-colors duration-200`}
-                            onClick={() => onLocationSelect(location.id)}
-                        >
-                            <div className="p-4">
-                                <div className="flex items-start">
-                                    <div className="flex-shrink-0 mr-3">
-                                        {profileImage ? (
-                                            <div className="w-10 h-10 rounded-full overflow-hidden relative">
-                                                <Image
-                                                    src={profileImage}
-                                                    alt="Profile"
-                                                    width={40}
-                                                    height={40}
-                                                    className="object-cover"
-                                                />
-                                            </div>
-                                        ) : (
-                                            <div className="w-10 h-10 bg-blue-100 dark:bg-blue-900 rounded-full flex items-center justify-center text-xl transition-colors duration-200">
-                                                {getCategoryEmoji(location.category)}
+                        <React.Fragment key={location.id}>
+                            <div
+                                className={`border rounded-lg overflow-hidden shadow-sm transition-all cursor-pointer ${
+                                    selectedLocationId === location.id
+                                        ? 'border-blue-500 bg-blue-50 dark:bg-blue-800'
+                                        : 'border-border hover:bg-card-bg'
+                                } transition-colors duration-200`}
+                                onClick={() => onLocationSelect(location.id)}
+                            >
+                                <div className="p-4">
+                                    <div className="flex items-start">
+                                        <div className="flex-shrink-0 mr-3">
+                                            {avatar ? (
+                                                <div className="w-10 h-10 rounded-full overflow-hidden relative">
+                                                    <Image
+                                                        src={avatar}
+                                                        alt="Profile"
+                                                        width={40}
+                                                        height={40}
+                                                        className="object-cover"
+                                                    />
+                                                </div>
+                                            ) : (
+                                                <div className="w-10 h-10 bg-blue-100 dark:bg-blue-900 rounded-full flex items-center justify-center text-xl transition-colors duration-200">
+                                                    {getCategoryEmoji(location.category)}
+                                                </div>
+                                            )}
+                                        </div>
+
+                                        <div className="flex-grow">
+                                            <div className="flex justify-between items-start">
+                                                <h3 className={`font-medium text-lg transition-colors duration-200 ${
+                                                    selectedLocationId === location.id 
+                                                        ? 'text-gray-900 dark:text-white' 
+                                                        : 'text-primary'
+                                                }`}>{location.name}</h3>
+                                                <div className="flex items-center gap-2 flex-shrink-0">
+                                                    {location.relevanceScore !== undefined && (
+                                                        <div
+                                                            className="bg-purple-100 dark:bg-purple-900 text-purple-800 dark:text-purple-200 px-2 py-1 rounded text-xs font-medium transition-colors duration-200"
+                                                            title={describeScore(location.recommendationContext)}
+                                                        >
+                                                            {location.relevanceScore}% match
+                                                        </div>
+                                                    )}
+                                                    {location.rating && (
+                                                        <div className="bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 px-2 py-1 rounded text-xs font-medium transition-colors duration-200">
+                                                            ★ {typeof location.rating === 'number' ? location.rating.toFixed(1) : location.rating}
+                                                        </div>
+                                                    )}
+                                                </div>
                                             </div>
-                                        )}
-                                    </div>
 
-                                    <div className="flex-grow">
-                                        <div className="flex justify-between items-start">
-                                            <h3 className={`font-medium text-lg transition-colors duration-200 ${
+                                            <p className={`text-sm mt-1 transition-colors duration-200 ${
                                                 selectedLocationId === location.id 
-                                                    ? 'text-gray-900 dark:text-white' 
+                                                    ? 'text-gray-700 dark:text-gray-700' 
                                                     : 'text-primary'
-                                            }`}>{location.name}</h3>
-                                            {location.rating && (
-                                                <div className="bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 px-2 py-1 rounded text-xs font-medium transition-colors duration-200">
-                                                    ★ {typeof location.rating === 'number' ? location.rating.toFixed(1) : location.rating}
+                                            }`}>{location.address}</p>
+
+                                            {/* Place photo - shows actual Google photo if available */}
+                                            {photoUrl && (
+                                                <div className="mt-3 mb-3 w-full h-36 relative rounded overflow-hidden">
+                                                    <img 
+                                                        src={photoUrl} 
+                                                        alt={location.name}
+                                                        className="w-full h-full object-cover"
+                                                    />
+                                                    <div className="absolute top-2 right-2 bg-white dark:bg-gray-800 bg-opacity-75 dark:bg-opacity-75 rounded-full w-8 h-8 flex items-center justify-center text-gray-700 dark:text-gray-300 text-sm font-bold transition-colors duration-200">
+                                                        {index + 1}
+                                                    </div>
                                                 </div>
                                             )}
-                                        </div>
 
-                                        <p className={`text-sm mt-1 transition-colors duration-200 ${
-                                            selectedLocationId === location.id 
-                                                ? 'text-gray-700 dark:text-gray-700' 
-                                                : 'text-primary'
-                                        }`}>{location.address}</p>
-
-                                        {/* Place photo - shows actual Google photo if available */}
-                                        {photoUrl && (
-                                            <div className="mt-3 mb-3 w-full h-36 relative rounded overflow-hidden">
-                                                <img 
-                                                    src={photoUrl} 
-                                                    alt={location.name}
-                                                    className="w-full h-full object-cover"
+                                            <div className="mt-2 flex flex-wrap gap-2">
+                                                <span className="inline-block bg-gray-100 dark:bg-gray-700 rounded-full px-3 py-1 text-xs font-medium text-gray-700 dark:text-gray-300 transition-colors duration-200">
+                                                    {getCategoryEmoji(location.category)} {location.category}
+                                                </span>
+                                                {location.priceLevel !== undefined && (
+                                                    <span
+                                                        className="inline-block bg-emerald-100 dark:bg-emerald-900 text-emerald-800 dark:text-emerald-200 rounded-full px-3 py-1 text-xs font-medium transition-colors duration-200"
+                                                        title="Price level"
+                                                    >
+                                                        {formatPriceLevel(location.priceLevel)}
+                                                    </span>
+                                                )}
+                                                {location.verified ? (
+                                                    <span
+                                                        className="inline-block bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200 rounded-full px-3 py-1 text-xs font-medium transition-colors duration-200"
+                                                        title="Confirmed against Google Places"
+                                                    >
+                                                        ✓ Verified
+                                                    </span>
+                                                ) : (
+                                                    <span
+                                                        className="inline-block bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 rounded-full px-3 py-1 text-xs font-medium transition-colors duration-200"
+                                                        title="Could not be confirmed against Google Places"
+                                                    >
+                                                        Unverified
+                                                    </span>
+                                                )}
+                                                <OpenStatusBadge
+                                                    schedule={location.schedule}
+                                                    utcOffsetMinutes={location.utcOffsetMinutes}
+                                                    openDuringVisit={location.openDuringVisit}
                                                 />
-                                                <div className="absolute top-2 right-2 bg-white dark:bg-gray-800 bg-opacity-75 dark:bg-opacity-75 rounded-full w-8 h-8 flex items-center justify-center text-gray-700 dark:text-gray-300 text-sm font-bold transition-colors duration-200">
-                                                    {index + 1}
-                                                </div>
                                             </div>
-                                        )}
 
-                                        <div className="mt-2">
-                                            <span className="inline-block bg-gray-100 dark:bg-gray-700 rounded-full px-3 py-1 text-xs font-medium text-gray-700 dark:text-gray-300 transition-colors duration-200">
-                                                {getCategoryEmoji(location.category)} {location.category}
-                                            </span>
-                                        </div>
+                                            {/* Which members of a group the place suits */}
+                                            {location.recommendationContext?.members && (
+                                                <div className="mt-2 flex flex-wrap gap-2" title={location.recommendationContext.relevance}>
+                                                    {location.recommendationContext.members.filter(member => member.satisfied).map(member => (
+                                                        <span
+                                                            key={member.handle}
+                                                            className="inline-block bg-purple-50 dark:bg-purple-900 dark:bg-opacity-40 text-purple-700 dark:text-purple-200 rounded-full px-3 py-1 text-xs transition-colors duration-200"
+                                                        >
+                                                            For {member.name}{member.interest || member.trait ? `: ${member.interest ?? member.trait}` : ''}
+                                                        </span>
+                                                    ))}
+                                                </div>
+                                            )}
 
-                                        <p className={`mt-2 text-sm transition-colors duration-200 ${
-                                            selectedLocationId === location.id 
-                                                ? 'text-gray-700 dark:text-gray-700' 
-                                                : 'text-primary'
-                                        }`}>{location.description}</p>
+                                            {/* Why this place was recommended */}
+                                            {!location.recommendationContext?.members && (location.recommendationContext?.interest || location.recommendationContext?.trait) && (
+                                                <div className="mt-2 flex flex-wrap gap-2">
+                                                    {location.recommendationContext.interest && (
+                                                        <span className="inline-block bg-purple-50 dark:bg-purple-900 dark:bg-opacity-40 text-purple-700 dark:text-purple-200 rounded-full px-3 py-1 text-xs transition-colors duration-200">
+                                                            Because you like {location.recommendationContext.interest}
+                                                        </span>
+                                                    )}
+                                                    {location.recommendationContext.trait && (
+                                                        <span className="inline-block bg-purple-50 dark:bg-purple-900 dark:bg-opacity-40 text-purple-700 dark:text-purple-200 rounded-full px-3 py-1 text-xs transition-colors duration-200">
+                                                            Because you&apos;re {location.recommendationContext.trait}
+                                                        </span>
+                                                    )}
+                                                </div>
+                                            )}
+
+                                            {location.phone && (
+                                                <p className={`text-sm mt-2 transition-colors duration-200 ${
+                                                    selectedLocationId === location.id
+                                                        ? 'text-gray-700 dark:text-gray-700'
+                                                        : 'text-primary'
+                                                }`}>☎ {location.phone}</p>
+                                            )}
+
+                                            <p className={`mt-2 text-sm transition-colors duration-200 ${
+                                                selectedLocationId === location.id 
+                                                    ? 'text-gray-700 dark:text-gray-700' 
+                                                    : 'text-primary'
+                                            }`}>{location.description}</p>
                                         
-                                        {/* Website link - only if it's a valid URL */}
-                                        {isValidWebsite(location.website) && (
-                                            <div className="mt-3">
-                                                <a 
-                                                    href={location.website}
-                                                    target="_blank"
-                                                    rel="noopener noreferrer"
-                                                    className="inline-flex items-center text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 text-sm transition-colors duration-200"
-                                                    onClick={(e) => e.stopPropagation()} // Prevent triggering parent onClick
-                                                >
-                                                    <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-                                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
-                                                    </svg>
-                                                    Visit Official Website
-                                                </a>
-                                            </div>
-                                        )}
+                                            {/* Website link - only if it's a valid URL */}
+                                            {isValidWebsite(location.website) && (
+                                                <div className="mt-3">
+                                                    <a 
+                                                        href={location.website}
+                                                        target="_blank"
+                                                        rel="noopener noreferrer"
+                                                        className="inline-flex items-center text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 text-sm transition-colors duration-200"
+                                                        onClick={(e) => e.stopPropagation()} // Prevent triggering parent onClick
+                                                    >
+                                                        <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                                                        </svg>
+                                                        Visit Official Website
+                                                    </a>
+                                                </div>
+                                            )}
+
+                                            {(onRate || onReplace) && (
+                                                <div className="mt-3 flex flex-wrap items-center gap-2">
+                                                    {onRate && (
+                                                        <FeedbackButtons
+                                                            verdict={verdictFor(feedback, location.name)}
+                                                            onRate={(verdict) => onRate(location, verdict)}
+                                                        />
+                                                    )}
+                                                    {onReplace && [false, true].map(sameCategory => (
+                                                        <button
+                                                            key={String(sameCategory)}
+                                                            type="button"
+                                                            onClick={(e) => {
+                                                                e.stopPropagation(); // Don't select the place
+                                                                onReplace(location, sameCategory);
+                                                            }}
+                                                            disabled={!!replacingId}
+                                                            className="px-2 py-0.5 rounded-full border border-border text-xs text-primary hover:bg-card-bg disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                                                        >
+                                                            {sameCategory ? `Another ${location.category}` : '🔄 Replace this one'}
+                                                        </button>
+                                                    ))}
+                                                    {replacingId === location.id && (
+                                                        <span className="text-xs text-primary opacity-70 transition-colors duration-200">Finding an alternative...</span>
+                                                    )}
+                                                </div>
+                                            )}
+                                            {replaceError?.locationId === location.id && (
+                                                <p className="mt-2 text-sm text-red-600 dark:text-red-400 transition-colors duration-200">{replaceError.message}</p>
+                                            )}
+                                        </div>
                                     </div>
                                 </div>
                             </div>
-                        </div>
+                            {leg && index < orderedLocations.length - 1 && (
+                                <div className="flex items-center gap-2 pl-8 text-xs text-primary opacity-80 transition-colors duration-200">
+                                    <span className="h-4 border-l-2 border-dashed border-blue-300 dark:border-blue-700" />
+                                    {TRAVEL_MODE_ICONS[leg.mode]} {leg.durationMinutes} min · {leg.distanceKm} km
+                                </div>
+                            )}
+                        </React.Fragment>
                     );
                 })}
             </div>
+
+            {onShowMore && (
+                <div className="flex flex-col items-center pt-2">
+                    <button
+                        type="button"
+                        onClick={onShowMore}
+                        disabled={isLoadingMore}
+                        className="px-4 py-2 rounded-md border border-border bg-card-bg text-primary font-medium hover:bg-blue-50 dark:hover:bg-blue-900 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                    >
+                        {isLoadingMore ? 'Finding more places...' : 'Show more'}
+                    </button>
+                    {showMoreError && (
+                        <p className="mt-2 text-sm text-red-600 dark:text-red-400 transition-colors duration-200">{showMoreError}</p>
+                    )}
+                </div>
+            )}
         </div>
     );
 };
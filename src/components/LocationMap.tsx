@@ -3,6 +3,12 @@
 import React, { useCallback, useEffect, useState, useMemo } from 'react';
 import { GoogleMap, useJsApiLoader, Marker, InfoWindow, DirectionsRenderer, Libraries } from '@react-google-maps/api';
 import { Location } from './LocationList';
+import { RouteOptions, RouteSummary, TravelMode } from '@/app/types/itinerary';
+import { FeedbackVerdict, PlaceFeedback } from '@/app/types/location';
+import OpenStatusBadge from './OpenStatusBadge';
+import FeedbackButtons from './FeedbackButtons';
+import { memberImageFor } from '@/app/lib/group';
+import { verdictFor } from '@/app/lib/feedback';
 
 // Define libraries as a constant array outside of the component
 // This prevents the LoadScript component from reloading
@@ -11,12 +17,25 @@ const libraries: Libraries = ['places'];
 // Create a photos context to share photos between components
 export const PlacePhotosContext = React.createContext<Record<string, string>>({});
 
+// Travel modes that follow roads, where highways and tolls can be avoided
+const ROAD_MODES: TravelMode[] = ['driving', 'bicycling'];
+
+const DEFAULT_ROUTE_OPTIONS: RouteOptions = { avoidHighways: false, avoidTolls: false };
+
 interface LocationMapProps {
     locations: Location[];
     selectedLocationId: string | null;
     onLocationSelect: (locationId: string) => void;
     profileImage?: string;
+    memberImages?: Record<string, string>; // Group outings: each member's profile image, keyed by handle
     centerCoordinates?: { lat: number; lng: number };
+    radiusKm?: number;
+    cityName?: string;
+    travelMode?: TravelMode;
+    routeOptions?: RouteOptions;
+    onRouteChange?: (route: RouteSummary | null) => void; // Notified with visiting order and per-leg times
+    feedback?: PlaceFeedback[]; // Ratings so far; shows like/dislike controls with onRate
+    onRate?: (location: Location, verdict: FeedbackVerdict) => void;
 }
 
 const LocationMap: React.FC<LocationMapProps> = ({
@@ -24,7 +43,15 @@ const LocationMap: React.FC<LocationMapProps> = ({
     selectedLocationId,
     onLocationSelect,
     profileImage,
+    memberImages,
     centerCoordinates,
+    radiusKm = 10,
+    cityName,
+    travelMode = 'driving',
+    routeOptions = DEFAULT_ROUTE_OPTIONS,
+    onRouteChange,
+    feedback = [],
+    onRate,
 }) => {
     // Use useMemo to create a stable reference to the libraries array
     const libraries = useMemo(() => ['places'], []) as any;
@@ -37,9 +64,10 @@ const LocationMap: React.FC<LocationMapProps> = ({
 
     // Rest of your component remains the same
     const [map, setMap] = useState<google.maps.Map | null>(null);
-    const [mapCenter, setMapCenter] = useState<{ lat: number; lng: number } | null>({ lat: 43.6532, lng: -79.3832 }); // Toronto coordinates
+    const [mapCenter, setMapCenter] = useState<{ lat: number; lng: number } | null>(centerCoordinates || null);
     const [circle, setCircle] = useState<google.maps.Circle | null>(null);
-    const [directions, setDirections] = useState<google.maps.DirectionsResult | null>(null);
+    const [directions, setDirections] = useState<google.maps.DirectionsResult[]>([]);
+    const [routeOrder, setRouteOrder] = useState<string[] | null>(null);
     const [placePhotos, setPlacePhotos] = useState<Record<string, string>>({});
 
     // Helper function to check if a website URL is valid
@@ -60,14 +88,12 @@ const LocationMap: React.FC<LocationMapProps> = ({
     // Calculate center coordinates from locations if not provided
     useEffect(() => {
         if (locations.length > 0 && !centerCoordinates && !mapCenter) {
-            const bounds = new google.maps.LatLngBounds();
-            locations.forEach((location) => {
-                bounds.extend(location.coordinates);
-            });
+            const lats = locations.map(location => location.coordinates.lat);
+            const lngs = locations.map(location => location.coordinates.lng);
 
             const center = {
-                lat: (bounds.getNorthEast().lat() + bounds.getSouthWest().lat()) / 2,
-                lng: (bounds.getNorthEast().lng() + bounds.getSouthWest().lng()) / 2,
+                lat: (Math.max(...lats) + Math.min(...lats)) / 2,
+                lng: (Math.max(...lngs) + Math.min(...lngs)) / 2,
             };
 
             setMapCenter(center);
@@ -76,55 +102,84 @@ const LocationMap: React.FC<LocationMapProps> = ({
         }
     }, [locations, centerCoordinates, mapCenter]);
 
-    // Generate routes between locations - Restored implementation
+    // Markers are numbered in visiting order once a route is known
+    const stopNumber = (location: Location, index: number) => {
+        const position = routeOrder?.indexOf(location.id) ?? -1;
+        return position >= 0 ? position + 1 : index + 1;
+    };
+
+    // Generate routes between locations in the selected travel mode
     useEffect(() => {
-        if (map && locations.length >= 2 && window.google?.maps?.DirectionsService) {
-            try {
-                console.log("Attempting to generate directions");
-                const directionsService = new window.google.maps.DirectionsService();
-                
-                // Create waypoints from all locations except first and last
-                const waypoints = locations.slice(1, locations.length - 1).map(location => ({
-                    location: new google.maps.LatLng(location.coordinates.lat, location.coordinates.lng),
-                    stopover: true
-                }));
-                
-                const origin = new google.maps.LatLng(
-                    locations[0].coordinates.lat, 
-                    locations[0].coordinates.lng
-                );
-                
-                const destination = new google.maps.LatLng(
-                    locations[locations.length - 1].coordinates.lat, 
-                    locations[locations.length - 1].coordinates.lng
-                );
-                
-                console.log("Route parameters:", {
-                    origin: `${origin.lat()},${origin.lng()}`,
-                    destination: `${destination.lat()},${destination.lng()}`,
-                    waypoints: waypoints.map(wp => `${wp.location.lat()},${wp.location.lng()}`),
-                });
-                
-                directionsService.route({
-                    origin: origin,
-                    destination: destination,
-                    waypoints: waypoints,
-                    optimizeWaypoints: true,
-                    travelMode: google.maps.TravelMode.DRIVING
-                }, (result, status) => {
-                    console.log("Directions result:", status);
-                    if (status === google.maps.DirectionsStatus.OK) {
-                        console.log("Setting directions");
-                        setDirections(result);
-                    } else {
-                        console.error(`Error fetching directions: ${status}`);
-                    }
-                });
-            } catch (error) {
-                console.error("Error setting up directions:", error);
-            }
+        if (!map || locations.length < 2 || !window.google?.maps?.DirectionsService) {
+            setDirections([]);
+            setRouteOrder(null);
+            onRouteChange?.(null);
+            return;
         }
-    }, [map, locations]);
+
+        let cancelled = false;
+        const directionsService = new window.google.maps.DirectionsService();
+        const toLatLng = (location: Location) => new google.maps.LatLng(location.coordinates.lat, location.coordinates.lng);
+        const request = {
+            travelMode: travelMode.toUpperCase() as google.maps.TravelMode,
+            // Avoidance only applies to road routes
+            avoidHighways: ROAD_MODES.includes(travelMode) && routeOptions.avoidHighways,
+            avoidTolls: ROAD_MODES.includes(travelMode) && routeOptions.avoidTolls,
+        };
+
+        const route = (origin: Location, destination: Location, waypoints: Location[] = []) =>
+            directionsService.route({
+                ...request,
+                origin: toLatLng(origin),
+                destination: toLatLng(destination),
+                waypoints: waypoints.map(location => ({ location: toLatLng(location), stopover: true })),
+                optimizeWaypoints: waypoints.length > 1,
+            });
+
+        // Transit directions don't support waypoints, so each leg is requested on its own
+        // in list order; other modes get one request with optimized waypoint order
+        const requestRoute = async (): Promise<{ results: google.maps.DirectionsResult[]; ordered: Location[] }> => {
+            if (travelMode === 'transit') {
+                const results = await Promise.all(locations.slice(1).map((location, index) => route(locations[index], location)));
+                return { results, ordered: locations };
+            }
+
+            const middle = locations.slice(1, -1);
+            const result = await route(locations[0], locations[locations.length - 1], middle);
+            const waypointOrder = result.routes[0]?.waypoint_order ?? middle.map((_, index) => index);
+            return {
+                results: [result],
+                ordered: [locations[0], ...waypointOrder.map(index => middle[index]), locations[locations.length - 1]],
+            };
+        };
+
+        requestRoute()
+            .then(({ results, ordered }) => {
+                if (cancelled) return;
+
+                const legs = results.flatMap(result => result.routes[0]?.legs ?? []).map(leg => ({
+                    mode: travelMode,
+                    distanceKm: Math.round((leg.distance?.value ?? 0) / 100) / 10,
+                    durationMinutes: Math.round((leg.duration?.value ?? 0) / 60),
+                }));
+                const order = ordered.map(location => location.id);
+
+                setDirections(results);
+                setRouteOrder(order);
+                onRouteChange?.({ mode: travelMode, order, legs });
+            })
+            .catch(error => {
+                if (cancelled) return;
+                console.error(`Error fetching ${travelMode} directions:`, error);
+                setDirections([]);
+                setRouteOrder(null);
+                onRouteChange?.(null);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [map, locations, travelMode, routeOptions.avoidHighways, routeOptions.avoidTolls, onRouteChange]);
 
     // Fetch place photos when map and locations are available
     useEffect(() => {
@@ -168,7 +223,7 @@ const LocationMap: React.FC<LocationMapProps> = ({
                             console.log(`No photos found for ${location.name}, trying category search`);
                             // For example, just search for the category + location
                             const categoryRequest = {
-                                query: `${location.category} in Toronto`,
+                                query: cityName ? `${location.category} in ${cityName}` : location.category,
                                 fields: ['photos']
                             };
                             
@@ -193,37 +248,39 @@ const LocationMap: React.FC<LocationMapProps> = ({
                 });
             });
         }
-    }, [map, locations]);
+    }, [map, locations, cityName]);
 
     const onLoad = useCallback((map: google.maps.Map) => {
         console.log("Map loaded");
-        // Create a circle for Toronto with 10km radius
-        const torontoCircle = new google.maps.Circle({
+        const cityCenter = centerCoordinates || mapCenter;
+
+        // Create a circle showing the city's search radius
+        const cityCircle = cityCenter ? new google.maps.Circle({
             strokeColor: '#2563EB',
             strokeOpacity: 0.8,
             strokeWeight: 2,
             fillColor: '#3B82F6',
             fillOpacity: 0.1,
             map,
-            center: { lat: 43.6532, lng: -79.3832 }, // Toronto
-            radius: 10000, // 10km in meters
-        });
-        setCircle(torontoCircle);
+            center: cityCenter,
+            radius: radiusKm * 1000, // km to meters
+        }) : null;
+        setCircle(cityCircle);
 
-        // Fit map to show all markers or default to Toronto area
+        // Fit map to show all markers or default to the city area
         if (locations.length > 0) {
             const bounds = new google.maps.LatLngBounds();
             locations.forEach((location) => {
                 bounds.extend(location.coordinates);
             });
             map.fitBounds(bounds);
-        } else {
-            map.setCenter({ lat: 43.6532, lng: -79.3832 });
+        } else if (cityCenter) {
+            map.setCenter(cityCenter);
             map.setZoom(12);
         }
 
         setMap(map);
-    }, [locations]);
+    }, [locations, centerCoordinates, mapCenter, radiusKm]);
 
     const onUnmount = useCallback(() => {
         setMap(null);
@@ -270,10 +327,11 @@ const LocationMap: React.FC<LocationMapProps> = ({
 
     // Custom marker with larger size and profile image
     const createCustomMarker = (location: Location, isSelected: boolean): google.maps.Symbol | google.maps.Icon => {
-        // Use profile image for all markers if available
-        if (profileImage) {
+        // Use profile image for all markers if available; group outings show the member each place suits best
+        const markerImage = (memberImages && memberImageFor(location, memberImages)) || profileImage;
+        if (markerImage) {
             return {
-                url: profileImage,
+                url: markerImage,
                 scaledSize: new google.maps.Size(isSelected ? 70 : 60, isSelected ? 70 : 60),
                 origin: new google.maps.Point(0, 0),
                 anchor: new google.maps.Point(35, 35),
@@ -334,7 +392,7 @@ const LocationMap: React.FC<LocationMapProps> = ({
                 <div className="h-[600px]">
                     <GoogleMap
                         mapContainerStyle={{ width: '100%', height: '100%' }}
-                        center={mapCenter || { lat: 43.6532, lng: -79.3832 }} // Default to Toronto
+                        center={mapCenter}
                         zoom={12}
                         onLoad={onLoad}
                         onUnmount={onUnmount}
@@ -353,10 +411,11 @@ const LocationMap: React.FC<LocationMapProps> = ({
                             ]
                         }}
                     >
-                        {/* Render directions if available */}
-                        {directions && (
+                        {/* Render directions if available (one renderer per transit leg) */}
+                        {directions.map((result, index) => (
                             <DirectionsRenderer
-                                directions={directions}
+                                key={index}
+                                directions={result}
                                 options={{
                                     suppressMarkers: true, // Don't show default markers
                                     polylineOptions: {
@@ -366,7 +425,7 @@ const LocationMap: React.FC<LocationMapProps> = ({
                                     }
                                 }}
                             />
-                        )}
+                        ))}
                         
                         {/* Render custom markers */}
                         {locations.map((location, index) => (
@@ -377,7 +436,7 @@ const LocationMap: React.FC<LocationMapProps> = ({
                                 icon={createCustomMarker(location, selectedLocationId === location.id)}
                                 animation={selectedLocationId === location.id ? google.maps.Animation.BOUNCE : undefined}
                                 label={{
-                                    text: (index + 1).toString(),
+                                    text: stopNumber(location, index).toString(),
                                     color: 'white',
                                     fontWeight: 'bold'
                                 }}
@@ -401,6 +460,9 @@ const LocationMap: React.FC<LocationMapProps> = ({
                                                 </div>
                                             )}
                                             <p className="text-sm text-gray-700 my-2">{location.description}</p>
+                                            {location.recommendationContext?.members && (
+                                                <p className="text-xs text-purple-700 my-2">{location.recommendationContext.relevance}</p>
+                                            )}
                                             <div className="mt-2 flex items-center justify-between">
                                                 <span className="inline-block bg-gray-100 rounded-full px-3 py-1 text-xs font-medium text-gray-700">
                                                     {location.category}
@@ -411,6 +473,15 @@ const LocationMap: React.FC<LocationMapProps> = ({
                                                     </span>
                                                 )}
                                             </div>
+                                            {(location.schedule || location.openDuringVisit !== undefined) && (
+                                                <div className="mt-2 flex flex-wrap gap-2">
+                                                    <OpenStatusBadge
+                                                        schedule={location.schedule}
+                                                        utcOffsetMinutes={location.utcOffsetMinutes}
+                                                        openDuringVisit={location.openDuringVisit}
+                                                    />
+                                                </div>
+                                            )}
                                             {isValidWebsite(location.website) && (
                                                 <div className="mt-3">
                                                     <a 
@@ -426,8 +497,16 @@ const LocationMap: React.FC<LocationMapProps> = ({
                                                     </a>
                                                 </div>
                                             )}
+                                            {onRate && (
+                                                <div className="mt-2">
+                                                    <FeedbackButtons
+                                                        verdict={verdictFor(feedback, location.name)}
+                                                        onRate={(verdict) => onRate(location, verdict)}
+                                                    />
+                                                </div>
+                                            )}
                                             <div className="mt-2 text-xs text-gray-600">
-                                                Location #{index + 1} in Toronto
+                                                Location #{stopNumber(location, index)}{cityName ? ` in ${cityName}` : ''}
                                             </div>
                                         </div>
                                     </InfoWindow>
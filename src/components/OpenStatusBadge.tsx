@@ -0,0 +1,58 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { WeeklySchedule } from '@/app/types/location';
+import { describeOpenStatus, localTimeAt, openStatusAt } from '@/app/lib/opening-hours';
+
+interface OpenStatusBadgeProps {
+    schedule?: WeeklySchedule;
+    utcOffsetMinutes?: number;
+    openDuringVisit?: boolean;
+}
+
+// How often the "open now" status is re-evaluated
+const REFRESH_INTERVAL_MS = 60000;
+
+const badgeClassName = 'inline-block rounded-full px-3 py-1 text-xs font-medium transition-colors duration-200';
+
+/**
+ * "Open now · closes 22:00" / "Opens at 11:00" badge, in the place's local time, plus a
+ * warning when the place is closed during the requested visit
+ */
+const OpenStatusBadge: React.FC<OpenStatusBadgeProps> = ({ schedule, utcOffsetMinutes, openDuringVisit }) => {
+    const [now, setNow] = useState(() => new Date());
+
+    // Keep the status current while the page stays open
+    useEffect(() => {
+        if (!schedule) return;
+        const interval = setInterval(() => setNow(new Date()), REFRESH_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [schedule]);
+
+    if (!schedule && openDuringVisit === undefined) {
+        return null;
+    }
+
+    const status = schedule ? openStatusAt(schedule, localTimeAt(utcOffsetMinutes, now)) : null;
+
+    return (
+        <>
+            {status && (
+                <span
+                    className={`${badgeClassName} ${status.open
+                        ? 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200'
+                        : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
+                >
+                    {describeOpenStatus(status)}
+                </span>
+            )}
+            {openDuringVisit === false && (
+                <span className={`${badgeClassName} bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200`}>
+                    Closed during your visit
+                </span>
+            )}
+        </>
+    );
+};
+
+export default OpenStatusBadge;
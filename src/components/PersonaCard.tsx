@@ -1,24 +1,234 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import Image from 'next/image';
+import { PartialEnhancedPersona, PersonaEdits, PROFILE_SOURCE_LABELS } from '@/app/types/persona';
+import { CategoryGroup, confidenceLabel, describePersonaEdits, groupInterests, groupTraits } from '@/app/lib/persona';
+import ErrorNotice, { ApiError } from './ErrorNotice';
+import { GroupMemberFailure } from '@/app/types/api';
 
-export interface Persona {
-    name: string;
-    handle: string;
-    bio: string;
-    traits: string[];
-    interests: string[];
-    profileImageUrl?: string;
-}
+// Enhanced fields are optional so personas from older responses still render
+export type Persona = PartialEnhancedPersona;
 
 interface PersonaCardProps {
     persona: Persona | null;
     isLoading: boolean;
-    error?: string | null;
+    error?: ApiError | null;
+    onRetry?: () => void; // Offered for retryable errors
+    onEdit?: (edited: Persona) => void; // Enables inline editing; called with the saved persona
+    edits?: PersonaEdits | null; // Changes from the generated persona, shown with a reset button
+    onResetEdits?: () => void;
+    isUpdating?: boolean; // Recommendations are being regenerated from an edit
+}
+
+// Bar colour for each confidence level
+const CONFIDENCE_COLORS = {
+    Low: 'bg-amber-500',
+    Medium: 'bg-blue-500',
+    High: 'bg-green-500',
+};
+
+const ConfidenceIndicator: React.FC<{ confidence: number }> = ({ confidence }) => {
+    const label = confidenceLabel(confidence);
+
+    return (
+        <div className="mt-3" title="How well the profile data supports this persona">
+            <div className="flex justify-between text-xs text-primary opacity-70 transition-colors duration-200">
+                <span>{label} confidence</span>
+                <span>{confidence}%</span>
+            </div>
+            <div className="mt-1 h-1.5 w-full bg-border rounded-full overflow-hidden transition-colors duration-200">
+                <div className={`h-full rounded-full ${CONFIDENCE_COLORS[label]}`} style={{ width: `${confidence}%` }} />
+            </div>
+        </div>
+    );
+};
+
+interface GroupedChipsProps {
+    title: string;
+    groups: CategoryGroup[];
+    chipClassName: string;
+}
+
+// Chips grouped under category labels; a single uncategorized group is shown without a label
+const GroupedChips: React.FC<GroupedChipsProps> = ({ title, groups, chipClassName }) => {
+    const showLabels = !(groups.length === 1 && groups[0].label === 'Other');
+
+    return (
+        <div>
+            <h3 className="font-medium text-primary transition-colors duration-200">{title}</h3>
+            <div className="mt-2 space-y-2">
+                {groups.map(group => (
+                    <div key={group.label}>
+                        {showLabels && (
+                            <p className="text-xs uppercase tracking-wide text-primary opacity-60 mb-1 transition-colors duration-200">{group.label}</p>
+                        )}
+                        <div className="flex flex-wrap gap-2">
+                            {group.items.map(item => (
+                                <span key={item} className={`${chipClassName} px-3 py-1 rounded-full text-sm transition-colors duration-200`}>
+                                    {item}
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+interface ChipEditorProps {
+    title: string;
+    items: string[];
+    onChange: (items: string[]) => void;
+    chipClassName: string;
+}
+
+// Removable chips with an input to add more
+const ChipEditor: React.FC<ChipEditorProps> = ({ title, items, onChange, chipClassName }) => {
+    const [newItem, setNewItem] = useState('');
+
+    const addItem = () => {
+        const item = newItem.trim();
+        if (item && !items.some(existing => existing.toLowerCase() === item.toLowerCase())) {
+            onChange([...items, item]);
+        }
+        setNewItem('');
+    };
+
+    return (
+        <div>
+            <h3 className="font-medium text-primary transition-colors duration-200">{title}</h3>
+            <div className="mt-2 flex flex-wrap gap-2">
+                {items.map(item => (
+                    <span key={item} className={`${chipClassName} pl-3 pr-1 py-1 rounded-full text-sm flex items-center transition-colors duration-200`}>
+                        {item}
+                        <button
+                            type="button"
+                            onClick={() => onChange(items.filter(existing => existing !== item))}
+                            className="ml-1 px-1 rounded-full hover:bg-black/10"
+                            aria-label={`Remove ${item}`}
+                        >
+                            ×
+                        </button>
+                    </span>
+                ))}
+            </div>
+            <div className="mt-2 flex gap-2">
+                <input
+                    type="text"
+                    value={newItem}
+                    onChange={(e) => setNewItem(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                            e.preventDefault();
+                            addItem();
+                        }
+                    }}
+                    placeholder={`Add to ${title.toLowerCase()}`}
+                    className="flex-1 px-3 py-1 text-sm border border-border rounded-md bg-background text-primary transition-colors duration-200"
+                />
+                <button
+                    type="button"
+                    onClick={addItem}
+                    disabled={!newItem.trim()}
+                    className="px-3 py-1 text-sm rounded-md border border-border text-primary hover:bg-card-bg disabled:opacity-50 transition-colors duration-200"
+                >
+                    Add
+                </button>
+            </div>
+        </div>
+    );
+};
+
+interface PersonaEditorProps {
+    persona: Persona;
+    onSave: (edited: Persona) => void;
+    onCancel: () => void;
 }
 
-const PersonaCard: React.FC<PersonaCardProps> = ({ persona, isLoading, error }) => {
+// Inline form for the name, bio, traits and interests of a persona
+const PersonaEditor: React.FC<PersonaEditorProps> = ({ persona, onSave, onCancel }) => {
+    const [name, setName] = useState(persona.name);
+    const [bio, setBio] = useState(persona.bio);
+    const [traits, setTraits] = useState(persona.traits);
+    const [interests, setInterests] = useState(persona.interests);
+
+    // Places are picked from interests, so at least one is needed
+    const canSave = name.trim() !== '' && interests.length > 0;
+
+    return (
+        <form
+            className="bg-card-bg rounded-lg shadow-md p-6 border border-border space-y-4 transition-colors duration-200"
+            onSubmit={(e) => {
+                e.preventDefault();
+                if (canSave) onSave({ ...persona, name: name.trim(), bio: bio.trim(), traits, interests });
+            }}
+        >
+            <label className="block text-sm font-medium text-primary transition-colors duration-200">
+                Name
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="mt-1 w-full px-3 py-2 border border-border rounded-md bg-background text-primary font-normal transition-colors duration-200"
+                />
+            </label>
+            <label className="block text-sm font-medium text-primary transition-colors duration-200">
+                Bio
+                <textarea
+                    value={bio}
+                    onChange={(e) => setBio(e.target.value)}
+                    rows={3}
+                    className="mt-1 w-full px-3 py-2 border border-border rounded-md bg-background text-primary font-normal transition-colors duration-200"
+                />
+            </label>
+
+            <ChipEditor
+                title="Key Traits"
+                items={traits}
+                onChange={setTraits}
+                chipClassName="bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200"
+            />
+            <ChipEditor
+                title="Interests"
+                items={interests}
+                onChange={setInterests}
+                chipClassName="bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200"
+            />
+
+            <div className="flex gap-2">
+                <button
+                    type="submit"
+                    disabled={!canSave}
+                    className="px-4 py-2 rounded-md bg-blue-500 dark:bg-blue-600 text-white text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                    Save and update places
+                </button>
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    className="px-4 py-2 rounded-md border border-border text-primary text-sm transition-colors duration-200"
+                >
+                    Cancel
+                </button>
+            </div>
+        </form>
+    );
+};
+
+const PersonaCard: React.FC<PersonaCardProps> = ({
+    persona,
+    isLoading,
+    error,
+    onRetry,
+    onEdit,
+    edits,
+    onResetEdits,
+    isUpdating = false,
+}) => {
+    const [isEditing, setIsEditing] = useState(false);
+
     if (isLoading) {
         return (
             <div className="bg-card-bg rounded-lg shadow-md p-6 animate-pulse border border-border transition-colors duration-200">
@@ -39,60 +249,173 @@ const PersonaCard: React.FC<PersonaCardProps> = ({ persona, isLoading, error })
     }
 
     if (error) {
-        return (
-            <div className="bg-red-50 dark:bg-red-900 dark:bg-opacity-20 border border-red-200 dark:border-red-800 rounded-lg p-6 transition-colors duration-200">
-                <h3 className="text-lg font-medium text-red-800 dark:text-red-300 transition-colors duration-200">Error</h3>
-                <p className="mt-2 text-sm text-red-700 dark:text-red-300 transition-colors duration-200">{error}</p>
-                <p className="mt-4 text-sm text-red-700 dark:text-red-300 transition-colors duration-200">
-                    Please check the X handle and try again. Make sure the account is public and exists.
-                </p>
-            </div>
-        );
+        return <ErrorNotice error={error} onRetry={onRetry} />;
     }
 
     if (!persona) {
         return null;
     }
 
+    if (isEditing && onEdit) {
+        return (
+            <PersonaEditor
+                persona={persona}
+                onSave={(edited) => {
+                    setIsEditing(false);
+                    onEdit(edited);
+                }}
+                onCancel={() => setIsEditing(false)}
+            />
+        );
+    }
+
+    const editSummary = edits ? describePersonaEdits(edits) : [];
+
     return (
         <div className="bg-card-bg rounded-lg shadow-md p-6 border border-border transition-colors duration-200">
             <div className="flex items-start space-x-4">
                 <div className="flex-1">
-                    <h2 className="text-xl text-primary transition-colors duration-200">{persona.name}</h2>
-                    <p className="text-primary transition-colors duration-200">@{persona.handle}</p>
+                    <div className="flex items-start justify-between gap-2">
+                        <h2 className="text-xl text-primary transition-colors duration-200">{persona.name}</h2>
+                        {onEdit && (
+                            <button
+                                type="button"
+                                onClick={() => setIsEditing(true)}
+                                disabled={isUpdating}
+                                className="px-3 py-1 text-sm rounded-md border border-border text-primary hover:bg-blue-50 dark:hover:bg-blue-900 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                            >
+                                ✏️ Edit
+                            </button>
+                        )}
+                    </div>
+                    {/* Personas from pasted text or the questionnaire have no handle */}
+                    {persona.handle && (
+                        <p className="text-primary transition-colors duration-200">
+                            @{persona.handle}
+                            {persona.source && (
+                                <span className="ml-2 text-xs opacity-70">on {PROFILE_SOURCE_LABELS[persona.source]}</span>
+                            )}
+                        </p>
+                    )}
                     <p className="mt-2 text-primary transition-colors duration-200">{persona.bio}</p>
+                    {persona.confidence !== undefined && <ConfidenceIndicator confidence={persona.confidence} />}
                 </div>
             </div>
 
+            {editSummary.length > 0 && (
+                <div className="mt-4 flex flex-wrap items-center justify-between gap-2 p-2 rounded-md bg-amber-500 bg-opacity-10 text-sm text-primary transition-colors duration-200">
+                    <span>Edited: {editSummary.join(', ')}</span>
+                    {onResetEdits && (
+                        <button
+                            type="button"
+                            onClick={onResetEdits}
+                            disabled={isUpdating}
+                            className="text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                        >
+                            Reset to generated persona
+                        </button>
+                    )}
+                </div>
+            )}
+            {isUpdating && (
+                <p className="mt-2 text-sm text-primary opacity-70 transition-colors duration-200">Updating your places...</p>
+            )}
+
             <div className="mt-6 space-y-4">
-                <div>
-                    <h3 className="font-medium text-primary transition-colors duration-200">Key Traits</h3>
+                <GroupedChips
+                    title="Key Traits"
+                    groups={groupTraits(persona)}
+                    chipClassName="bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200"
+                />
+
+                <GroupedChips
+                    title="Interests"
+                    groups={groupInterests(persona)}
+                    chipClassName="bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200"
+                />
+            </div>
+        </div>
+    );
+};
+
+interface GroupPersonaCardProps {
+    members: Persona[];
+    failures?: GroupMemberFailure[]; // Handles that were left out of the group
+}
+
+// Number of interests shown for each member
+const MEMBER_INTEREST_COUNT = 3;
+
+/**
+ * Multi-persona variant for group outings: every member at a glance, and what they have in common
+ */
+export const GroupPersonaCard: React.FC<GroupPersonaCardProps> = ({ members, failures = [] }) => {
+    // Interests held by more than one member
+    const interestCounts = new Map<string, number>();
+    for (const member of members) {
+        for (const interest of new Set(member.interests.map(item => item.toLowerCase()))) {
+            interestCounts.set(interest, (interestCounts.get(interest) ?? 0) + 1);
+        }
+    }
+    const sharedInterests = [...interestCounts].filter(([, count]) => count > 1).map(([interest]) => interest);
+
+    return (
+        <div className="bg-card-bg rounded-lg shadow-md p-6 border border-border transition-colors duration-200">
+            <h2 className="text-xl text-primary transition-colors duration-200">Your Group ({members.length})</h2>
+
+            <ul className="mt-4 space-y-4">
+                {members.map(member => (
+                    <li key={`${member.source ?? 'x'}:${member.handle}`} className="flex items-start space-x-3">
+                        {member.profileImageUrl ? (
+                            <div className="w-10 h-10 rounded-full overflow-hidden relative flex-shrink-0">
+                                <Image src={member.profileImageUrl} alt={member.name} width={40} height={40} className="object-cover" />
+                            </div>
+                        ) : (
+                            <div className="w-10 h-10 rounded-full bg-blue-100 dark:bg-blue-900 flex items-center justify-center flex-shrink-0 text-primary font-medium transition-colors duration-200">
+                                {member.name.charAt(0).toUpperCase()}
+                            </div>
+                        )}
+                        <div className="flex-1 min-w-0">
+                            <p className="font-medium text-primary transition-colors duration-200">{member.name}</p>
+                            <p className="text-xs text-primary opacity-70 transition-colors duration-200">
+                                @{member.handle}
+                                {member.source && ` on ${PROFILE_SOURCE_LABELS[member.source]}`}
+                            </p>
+                            <div className="mt-1 flex flex-wrap gap-1">
+                                {member.interests.slice(0, MEMBER_INTEREST_COUNT).map(interest => (
+                                    <span key={interest} className="bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200 px-2 py-0.5 rounded-full text-xs transition-colors duration-200">
+                                        {interest}
+                                    </span>
+                                ))}
+                            </div>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+
+            {sharedInterests.length > 0 && (
+                <div className="mt-6">
+                    <h3 className="font-medium text-primary transition-colors duration-200">Shared Interests</h3>
                     <div className="mt-2 flex flex-wrap gap-2">
-                        {persona.traits.map((trait, index) => (
-                            <span
-                                key={index}
-                                className="bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 px-3 py-1 rounded-full text-sm transition-colors duration-200"
-                            >
-                                {trait}
+                        {sharedInterests.map(interest => (
+                            <span key={interest} className="bg-purple-100 dark:bg-purple-900 text-purple-800 dark:text-purple-200 px-3 py-1 rounded-full text-sm transition-colors duration-200">
+                                {interest}
                             </span>
                         ))}
                     </div>
                 </div>
+            )}
 
-                <div>
-                    <h3 className="font-medium text-primary transition-colors duration-200">Interests</h3>
-                    <div className="mt-2 flex flex-wrap gap-2">
-                        {persona.interests.map((interest, index) => (
-                            <span
-                                key={index}
-                                className="bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200 px-3 py-1 rounded-full text-sm transition-colors duration-200"
-                            >
-                                {interest}
-                            </span>
+            {failures.length > 0 && (
+                <div className="mt-6 text-sm text-amber-700 dark:text-amber-300 transition-colors duration-200">
+                    <p className="font-medium">Left out of the group</p>
+                    <ul className="mt-1 space-y-1">
+                        {failures.map(failure => (
+                            <li key={failure.identifier}>@{failure.identifier}: {failure.error}</li>
                         ))}
-                    </div>
+                    </ul>
                 </div>
-            </div>
+            )}
         </div>
     );
 };
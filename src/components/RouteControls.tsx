@@ -0,0 +1,68 @@
+'use client';
+
+import React from 'react';
+import { RouteOptions, TRAVEL_MODE_LABELS, TravelMode } from '@/app/types/itinerary';
+
+interface RouteControlsProps {
+    travelMode: TravelMode;
+    onTravelModeChange: (mode: TravelMode) => void;
+    routeOptions: RouteOptions;
+    onRouteOptionsChange: (options: RouteOptions) => void;
+}
+
+/**
+ * Travel mode selector and directions preferences for the route on the map
+ */
+const RouteControls: React.FC<RouteControlsProps> = ({
+    travelMode,
+    onTravelModeChange,
+    routeOptions,
+    onRouteOptionsChange,
+}) => {
+    // Highways and tolls only matter on road routes
+    const roadRoute = travelMode === 'driving' || travelMode === 'bicycling';
+
+    return (
+        <div className="flex flex-wrap items-center gap-4">
+            <div className="grid grid-cols-4 gap-1 p-1 border border-border rounded-md bg-background" role="radiogroup" aria-label="Travel mode">
+                {(Object.keys(TRAVEL_MODE_LABELS) as TravelMode[]).map(mode => (
+                    <button
+                        key={mode}
+                        type="button"
+                        role="radio"
+                        aria-checked={travelMode === mode}
+                        onClick={() => onTravelModeChange(mode)}
+                        className={`px-3 py-1 text-sm rounded transition-colors duration-200 ${
+                            travelMode === mode
+                                ? 'bg-blue-500 dark:bg-blue-600 text-white'
+                                : 'text-primary hover:bg-card-bg'
+                        }`}
+                    >
+                        {TRAVEL_MODE_LABELS[mode]}
+                    </button>
+                ))}
+            </div>
+
+            <label className={`flex items-center gap-1 text-sm text-primary transition-colors duration-200 ${roadRoute ? '' : 'opacity-50'}`}>
+                <input
+                    type="checkbox"
+                    checked={routeOptions.avoidHighways}
+                    disabled={!roadRoute}
+                    onChange={(e) => onRouteOptionsChange({ ...routeOptions, avoidHighways: e.target.checked })}
+                />
+                Avoid highways
+            </label>
+            <label className={`flex items-center gap-1 text-sm text-primary transition-colors duration-200 ${roadRoute ? '' : 'opacity-50'}`}>
+                <input
+                    type="checkbox"
+                    checked={routeOptions.avoidTolls}
+                    disabled={!roadRoute}
+                    onChange={(e) => onRouteOptionsChange({ ...routeOptions, avoidTolls: e.target.checked })}
+                />
+                Avoid tolls
+            </label>
+        </div>
+    );
+};
+
+export default RouteControls;
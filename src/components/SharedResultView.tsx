@@ -0,0 +1,94 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import Link from 'next/link';
+import PersonaCard, { GroupPersonaCard } from './PersonaCard';
+import LocationList from './LocationList';
+import LocationMap from './LocationMap';
+import { SharedResult } from '@/app/types/share';
+import { RouteSummary } from '@/app/types/itinerary';
+import { sortByRelevance } from '@/app/lib/relevance';
+
+interface SharedResultViewProps {
+    result: SharedResult;
+}
+
+/**
+ * Read-only view of shared results: the same persona, list and map as the home page
+ */
+const SharedResultView: React.FC<SharedResultViewProps> = ({ result }) => {
+    const [selectedLocationId, setSelectedLocationId] = useState<string | null>(null);
+    const [route, setRoute] = useState<RouteSummary | null>(null);
+
+    const cityLabel = result.city.split(',')[0].trim() || 'Their City';
+    // Same order as the list, so map numbers match
+    const rankedLocations = useMemo(() => sortByRelevance(result.locations), [result.locations]);
+    // Group members' profile images, for markers and list avatars
+    const memberImages = useMemo(() => (result.group
+        ? Object.fromEntries(result.group.flatMap(member => (member.profileImageUrl ? [[member.handle, member.profileImageUrl]] : [])))
+        : undefined), [result.group]);
+
+    const handleLocationSelect = (locationId: string) => {
+        setSelectedLocationId(locationId === selectedLocationId ? null : locationId);
+    };
+
+    return (
+        <div className="container mx-auto px-4 py-4">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-6">
+                <p className="text-sm text-primary opacity-80 transition-colors duration-200">
+                    Shared {new Date(result.createdAt).toLocaleDateString()} · read-only
+                </p>
+                <Link
+                    href="/"
+                    className="px-4 py-2 rounded-md border border-border bg-card-bg text-primary text-sm font-medium hover:bg-blue-50 dark:hover:bg-blue-900 transition-colors duration-200"
+                >
+                    Find places for your own persona
+                </Link>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+                <div className="lg:col-span-1">
+                    {result.group ? (
+                        <GroupPersonaCard members={result.group} />
+                    ) : (
+                        <PersonaCard persona={result.persona} isLoading={false} />
+                    )}
+                </div>
+
+                <div className="lg:col-span-2">
+                    <h2 className="text-2xl font-bold text-primary transition-colors duration-200">
+                        {result.persona.name}&apos;s {cityLabel} Recommendations
+                    </h2>
+                    <LocationList
+                        locations={rankedLocations}
+                        selectedLocationId={selectedLocationId}
+                        onLocationSelect={handleLocationSelect}
+                        profileImage={result.persona.profileImageUrl}
+                        route={route}
+                        exportName={`${cityLabel} recommendations`}
+                        memberImages={memberImages}
+                    />
+                </div>
+            </div>
+
+            <div className="rounded-lg overflow-hidden shadow-lg mb-6 border border-border">
+                <h2 className="p-4 text-2xl font-bold text-primary transition-colors duration-200">{cityLabel} Map</h2>
+                <div style={{ height: '600px' }}>
+                    <LocationMap
+                        locations={rankedLocations}
+                        selectedLocationId={selectedLocationId}
+                        onLocationSelect={handleLocationSelect}
+                        profileImage={result.persona.profileImageUrl}
+                        memberImages={memberImages}
+                        centerCoordinates={result.centerCoordinates}
+                        radiusKm={result.radiusKm}
+                        cityName={result.city}
+                        onRouteChange={setRoute}
+                    />
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SharedResultView;
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/calendar/route';
+import { ErrorCode } from '@/app/types/errors';
+
+const locations = [
+    { id: 'rom', name: 'Royal Ontario Museum', address: '100 Queen\'s Park', description: 'Natural history', category: 'museum', coordinates: { lat: 43.6677, lng: -79.3948 } },
+    { id: 'market', name: 'St. Lawrence Market', address: '93 Front St E', description: 'Food hall', category: 'shop', coordinates: { lat: 43.6487, lng: -79.3716 } },
+];
+
+async function postCalendar(body: unknown) {
+    const request = new NextRequest('http://localhost/api/calendar', {
+        method: 'POST',
+        body: JSON.stringify(body),
+    });
+    return POST(request);
+}
+
+describe('POST /api/calendar', () => {
+    it('downloads an event per itinerary stop', async () => {
+        const itinerary = {
+            stops: [
+                { locationId: 'rom', name: 'Royal Ontario Museum', category: 'museum', arrival: '2026-10-19T10:00', departure: '2026-10-19T11:30', dwellMinutes: 90, waitMinutes: 0 },
+                { locationId: 'market', name: 'St. Lawrence Market', category: 'shop', arrival: '2026-10-19T11:50', departure: '2026-10-19T12:50', dwellMinutes: 60, waitMinutes: 0 },
+            ],
+        };
+        const response = await postCalendar({ locations, itinerary, name: 'Toronto day out' });
+        const ics = await response.text();
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Content-Type')).toBe('text/calendar; charset=utf-8');
+        expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="toronto-day-out.ics"');
+        expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+        expect(ics).toContain('DTSTART:20261019T115000');
+    });
+
+    it('prefers user-supplied slots', async () => {
+        const response = await postCalendar({
+            locations,
+            slots: [{ locationId: 'market', start: '2026-10-20T09:00', end: '2026-10-20T10:00' }],
+        });
+        const ics = await response.text();
+
+        expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+        expect(ics).toContain('SUMMARY:St. Lawrence Market');
+    });
+
+    it('rejects a slot for an unknown location', async () => {
+        const response = await postCalendar({
+            locations,
+            slots: [{ locationId: 'cn-tower', start: '2026-10-20T09:00', end: '2026-10-20T10:00' }],
+        });
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).code).toBe(ErrorCode.VALIDATION);
+    });
+
+    it.each([
+        ['address', { address: 42 }],
+        ['description', { description: ['Natural history'] }],
+        ['UTC offset', { utcOffsetMinutes: 'EST' }],
+    ])('rejects a place with a malformed %s', async (_field, overrides) => {
+        const response = await postCalendar({
+            locations: [{ ...locations[0], ...overrides }],
+            slots: [{ locationId: 'rom', start: '2026-10-20T09:00', end: '2026-10-20T10:00' }],
+        });
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).code).toBe(ErrorCode.VALIDATION);
+    });
+});
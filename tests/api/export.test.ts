@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/export/route';
+import { ErrorCode } from '@/app/types/errors';
+
+const locations = [
+    { id: 'rom', name: 'Royal Ontario Museum', address: '100 Queen\'s Park', description: '', category: 'museum', coordinates: { lat: 43.6677, lng: -79.3948 } },
+    { id: 'market', name: 'St. Lawrence Market', address: '93 Front St E', description: '', category: 'shop', coordinates: { lat: 43.6487, lng: -79.3716 } },
+    { id: 'park', name: 'Queen\'s Park', address: '', description: '', category: 'park', coordinates: { lat: 43.6641, lng: -79.3920 } },
+];
+
+async function postExport(body: unknown) {
+    const request = new NextRequest('http://localhost/api/export', {
+        method: 'POST',
+        body: JSON.stringify(body),
+    });
+    return POST(request);
+}
+
+describe('POST /api/export', () => {
+    it('downloads a GPX file in the given route order', async () => {
+        const response = await postExport({ format: 'gpx', locations, name: 'Toronto recommendations', order: ['park', 'rom', 'market'] });
+        const gpx = await response.text();
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Content-Type')).toBe('application/gpx+xml; charset=utf-8');
+        expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="toronto-recommendations.gpx"');
+        const names = [...gpx.matchAll(/<wpt[^>]*>\s*<name>([^<]+)</g)].map(match => match[1]);
+        expect(names).toEqual(['Queen&apos;s Park', 'Royal Ontario Museum', 'St. Lawrence Market']);
+    });
+
+    it('optimizes the route when no order is given', async () => {
+        const response = await postExport({ format: 'geojson', locations });
+        const geoJson = await response.json();
+
+        expect(response.headers.get('Content-Type')).toBe('application/geo+json; charset=utf-8');
+        // The park sits between the museum and the market
+        expect(geoJson.features[1].properties.name).toBe('Queen\'s Park');
+        expect(geoJson.features[3].geometry.coordinates).toHaveLength(3);
+    });
+
+    it('rejects an unknown format', async () => {
+        const response = await postExport({ format: 'csv', locations });
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).code).toBe(ErrorCode.VALIDATION);
+    });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/itinerary/route';
+import { ErrorCode } from '@/app/types/errors';
+
+const locations = [
+    { id: 'market', name: 'St. Lawrence Market', category: 'shop', coordinates: { lat: 43.6487, lng: -79.3716 } },
+    { id: 'rom', name: 'Royal Ontario Museum', category: 'museum', coordinates: { lat: 43.6677, lng: -79.3948 } },
+];
+
+async function postItinerary(body: unknown) {
+    const request = new NextRequest('http://localhost/api/itinerary', {
+        method: 'POST',
+        body: JSON.stringify(body),
+    });
+    return POST(request);
+}
+
+describe('POST /api/itinerary', () => {
+    it('orders the places into a schedule with travel between them', async () => {
+        const response = await postItinerary({ locations, start: '2026-10-19T10:00', end: '2026-10-19T18:00' });
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data.itinerary.stops).toHaveLength(2);
+        expect(data.itinerary.stops[0].travel).toBeUndefined();
+        expect(data.itinerary.stops[1].travel).toMatchObject({ mode: 'transit' });
+        expect(data.itinerary.totalDistanceKm).toBeGreaterThan(2);
+    });
+
+    it('rejects a missing or malformed window', async () => {
+        const response = await postItinerary({ locations, start: '10am' });
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).code).toBe(ErrorCode.VALIDATION);
+    });
+
+    it('reports when nothing fits in the window', async () => {
+        const response = await postItinerary({ locations, start: '2026-10-19T10:00', end: '2026-10-19T10:15' });
+
+        expect(response.status).toBe(404);
+        expect((await response.json()).code).toBe(ErrorCode.NO_RESULTS);
+    });
+});
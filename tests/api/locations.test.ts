@@ -0,0 +1,150 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { ErrorCode } from '@/app/types/errors';
+import { useReplayEnvironment } from '../helpers';
+
+const persona = {
+    name: 'Jane Doe',
+    bio: 'An urban cyclist who builds open data tools.',
+    traits: ['curious', 'outdoorsy'],
+    interests: ['cycling', 'maps'],
+};
+
+// Import the route fresh so the shared clients read the fixture configuration
+async function postLocations(body: unknown) {
+    const { POST } = await import('@/app/api/locations/route');
+    const request = new NextRequest('http://localhost/api/locations', {
+        method: 'POST',
+        body: JSON.stringify(body),
+    });
+    return POST(request);
+}
+
+describe('POST /api/locations', () => {
+    beforeEach(() => {
+        vi.resetModules();
+    });
+
+    it('recommends locations verified against Google Places', async () => {
+        useReplayEnvironment('locations-toronto');
+
+        const response = await postLocations({ persona, location: 'Toronto', count: 3 });
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data.city).toMatchObject({ name: 'Toronto, ON, Canada', radiusKm: 10 });
+        expect(data.locations).toHaveLength(3);
+        expect(data.locations.map((location: { placeId: string }) => location.placeId)).toEqual([
+            'place-market',
+            'place-park',
+            'place-rom',
+        ]);
+        expect(data.locations.every((location: { verified: boolean }) => location.verified)).toBe(true);
+        expect(data.locations.every((location: { relevanceScore: number }) => location.relevanceScore > 0)).toBe(true);
+        expect(data.locations[0]).toMatchObject({
+            name: 'St. Lawrence Market',
+            phone: '+1 416-555-0100',
+            priceLevel: 2,
+        });
+        // Google has no price for the park, so it is estimated from the category
+        expect(data.locations[1]).toMatchObject({ placeId: 'place-park', priceLevel: 0 });
+    });
+
+    it('drops places priced above the budget', async () => {
+        useReplayEnvironment('locations-toronto');
+
+        const response = await postLocations({ persona, location: 'Toronto', count: 3, budget: 'cheap' });
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data.locations.map((location: { placeId: string }) => location.placeId)).toEqual(['place-park']);
+    });
+
+    it('rejects an unknown budget', async () => {
+        useReplayEnvironment('locations-toronto');
+
+        const response = await postLocations({ persona, location: 'Toronto', budget: 'free' });
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).code).toBe(ErrorCode.VALIDATION);
+    });
+
+    it('flags or drops places that are closed during the visit', async () => {
+        // The fixture places are closed on Sundays; 2026-10-25 is a Sunday
+        useReplayEnvironment('locations-toronto');
+        const flagged = await postLocations({ persona, location: 'Toronto', count: 3, visit: { start: '2026-10-25T12:00' } });
+        const flaggedData = await flagged.json();
+
+        expect(flagged.status).toBe(200);
+        expect(flaggedData.locations.map((location: { openDuringVisit: boolean }) => location.openDuringVisit))
+            .toEqual([false, false, false]);
+        expect(flaggedData.locations[0].schedule[1]).toEqual([{ open: 540, close: 1080 }]);
+
+        vi.resetModules();
+        useReplayEnvironment('locations-toronto');
+        const hidden = await postLocations({
+            persona,
+            location: 'Toronto',
+            count: 3,
+            visit: { start: '2026-10-25T12:00' },
+            hideClosed: true,
+        });
+
+        expect(hidden.status).toBe(404);
+        expect((await hidden.json()).code).toBe(ErrorCode.NO_RESULTS);
+    });
+
+    it('rejects a malformed visit window', async () => {
+        useReplayEnvironment('locations-toronto');
+
+        const response = await postLocations({ persona, location: 'Toronto', visit: { start: 'next saturday' } });
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).code).toBe(ErrorCode.VALIDATION);
+    });
+
+    it.each([
+        ['without traits or interests', { name: 'x' }],
+        ['with non-string interests', { ...persona, interests: [42] }],
+    ])('rejects a persona %s', async (_case, malformed) => {
+        useReplayEnvironment('locations-toronto');
+
+        const response = await postLocations({ persona: malformed, location: 'Toronto' });
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).code).toBe(ErrorCode.VALIDATION);
+    });
+
+    it('rejects a count outside the allowed range', async () => {
+        useReplayEnvironment('locations-toronto');
+
+        const response = await postLocations({ persona, location: 'Toronto', count: 50 });
+        const data = await response.json();
+
+        expect(response.status).toBe(400);
+        expect(data.code).toBe(ErrorCode.VALIDATION);
+    });
+
+    it('scores places against every member of a group', async () => {
+        useReplayEnvironment('locations-toronto');
+
+        const foodie = { name: 'Sam', handle: 'sam', bio: 'Eats everywhere.', traits: ['social'], interests: ['markets'] };
+        const response = await postLocations({ group: [{ ...persona, handle: 'janedoe' }, foodie], location: 'Toronto', count: 3 });
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data.locations).toHaveLength(3);
+        const market = data.locations.find((location: { placeId: string }) => location.placeId === 'place-market');
+        expect(market.recommendationContext.members.map((member: { handle: string }) => member.handle)).toContain('sam');
+        expect(market.recommendationContext.relevance).toMatch(/Sam/);
+    });
+
+    it('rejects a group with a single member', async () => {
+        useReplayEnvironment('locations-toronto');
+
+        const response = await postLocations({ group: [persona], location: 'Toronto' });
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).code).toBe(ErrorCode.VALIDATION);
+    });
+});
@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { ErrorCode } from '@/app/types/errors';
+import { useReplayEnvironment } from '../helpers';
+
+// Fixture instances resolve to a public address without a real DNS lookup
+vi.mock('dns/promises', () => ({ lookup: async () => [{ address: '151.101.1.1', family: 4 }] }));
+
+// Import the route fresh so the shared clients read the fixture configuration
+async function postPersona(body: unknown) {
+    const { POST } = await import('@/app/api/persona/route');
+    const request = new NextRequest('http://localhost/api/persona', {
+        method: 'POST',
+        body: JSON.stringify(body),
+    });
+    return POST(request);
+}
+
+describe('POST /api/persona', () => {
+    beforeEach(() => {
+        vi.resetModules();
+    });
+
+    it('builds a persona from an X profile', async () => {
+        useReplayEnvironment('persona-x');
+
+        const response = await postPersona({ source: 'x', identifier: '@janedoe' });
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data.success).toBe(true);
+        expect(data.persona).toMatchObject({
+            name: 'Jane Doe',
+            traits: ['curious', 'outdoorsy', 'analytical'],
+            interests: ['cycling', 'maps', 'baking'],
+            confidence: 72,
+            traitCategories: { curious: 'personality', outdoorsy: 'lifestyle', analytical: 'communication' },
+            interestCategories: { cycling: 'sports', maps: 'technology', baking: 'food' },
+            timePreferences: ['early mornings'],
+        });
+    });
+
+    it('returns a retryable error when Exa is rate limited', async () => {
+        useReplayEnvironment('exa-rate-limited');
+
+        const response = await postPersona({ source: 'x', identifier: 'janedoe' });
+        const data = await response.json();
+
+        expect(response.status).toBe(429);
+        expect(response.headers.get('Retry-After')).toBe('12');
+        expect(data).toMatchObject({
+            success: false,
+            code: ErrorCode.UPSTREAM_RATE_LIMITED,
+            retryable: true,
+            upstream: 'exa',
+            retryAfterSeconds: 12,
+        });
+    });
+
+    it.each([
+        ['bluesky', 'bluesky-profile', 'ghost.bsky.social'],
+        ['mastodon', 'mastodon-profile', 'ghost@mastodon.social'],
+        ['github', 'github-profile', 'ghost-user'],
+    ])('reports a %s profile that does not exist as not found', async (source, cassette, identifier) => {
+        useReplayEnvironment(cassette);
+
+        const response = await postPersona({ source, identifier });
+        const data = await response.json();
+
+        expect(response.status).toBe(404);
+        expect(data).toMatchObject({ success: false, code: ErrorCode.PROFILE_NOT_FOUND, retryable: false });
+    });
+
+    it('returns a retryable error when GitHub is rate limited', async () => {
+        useReplayEnvironment('github-profile');
+
+        const response = await postPersona({ source: 'github', identifier: 'busy' });
+        const data = await response.json();
+
+        expect(response.status).toBe(429);
+        expect(data).toMatchObject({ code: ErrorCode.UPSTREAM_RATE_LIMITED, retryable: true, upstream: 'github' });
+    });
+
+    it('builds personas for a group, leaving out members that fail', async () => {
+        useReplayEnvironment('persona-x');
+
+        const response = await postPersona({ members: [{ source: 'x', identifier: 'janedoe' }, { source: 'x', identifier: 'not a handle!' }] });
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data.personas.map((persona: { name: string }) => persona.name)).toEqual(['Jane Doe']);
+        expect(data.failed).toEqual([{ identifier: 'not a handle!', error: expect.stringMatching(/Invalid X handle/) }]);
+    });
+
+    it('rejects a group of one', async () => {
+        useReplayEnvironment('persona-x');
+
+        const response = await postPersona({ members: [{ identifier: 'janedoe' }] });
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).code).toBe(ErrorCode.VALIDATION);
+    });
+
+    it('builds a persona from pasted text without looking up a profile', async () => {
+        useReplayEnvironment('persona-x');
+
+        const response = await postPersona({ manual: { name: 'Sam', bio: 'Weekend cyclist', posts: ['New bread recipe today'] } });
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data.persona).toMatchObject({ name: 'Sam', handle: '', interests: ['cycling', 'maps', 'baking'] });
+        expect(data.persona.source).toBeUndefined();
+    });
+
+    it('rejects manual input with nothing to go on', async () => {
+        useReplayEnvironment('persona-x');
+
+        const response = await postPersona({ manual: { name: 'Sam', answers: { food: ' ' } } });
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).code).toBe(ErrorCode.VALIDATION);
+    });
+
+    it('rejects an invalid handle without calling upstream services', async () => {
+        useReplayEnvironment('exa-rate-limited');
+
+        const response = await postPersona({ source: 'x', identifier: 'not a handle!' });
+        const data = await response.json();
+
+        expect(response.status).toBe(400);
+        expect(data.code).toBe(ErrorCode.VALIDATION);
+    });
+});
@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { ErrorCode } from '@/app/types/errors';
+import { useReplayEnvironment } from '../helpers';
+
+const persona = {
+    name: 'Jane Doe',
+    bio: 'An urban cyclist who builds open data tools.',
+    traits: ['curious', 'outdoorsy'],
+    interests: ['cycling', 'maps'],
+};
+
+const feedback = [
+    { name: 'CN Tower', category: 'attraction', description: 'Observation deck', verdict: 'dislike' },
+    { name: 'Kensington Market', category: 'shop', description: 'Vintage shops and cafes', verdict: 'like' },
+];
+
+// Import the route fresh so the shared clients read the fixture configuration
+async function postRefine(body: unknown) {
+    const { POST } = await import('@/app/api/locations/refine/route');
+    const request = new NextRequest('http://localhost/api/locations/refine', {
+        method: 'POST',
+        body: JSON.stringify(body),
+    });
+    return POST(request);
+}
+
+describe('POST /api/locations/refine', () => {
+    beforeEach(() => {
+        vi.resetModules();
+    });
+
+    it('recommends a replacement set for the feedback', async () => {
+        useReplayEnvironment('locations-toronto');
+
+        const response = await postRefine({ persona, location: 'Toronto', count: 3, feedback, exclude: ['CN Tower'] });
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data.locations.map((location: { name: string }) => location.name)).not.toContain('CN Tower');
+        expect(data.locations.every((location: { verified: boolean }) => location.verified)).toBe(true);
+    });
+
+    it('flags places that are closed during the visit', async () => {
+        // The fixture places are closed on Sundays; 2026-10-25 is a Sunday
+        useReplayEnvironment('locations-toronto');
+
+        const response = await postRefine({ persona, location: 'Toronto', count: 3, feedback, visit: { start: '2026-10-25T12:00' } });
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data.locations.every((location: { openDuringVisit: boolean }) => location.openDuringVisit === false)).toBe(true);
+    });
+
+    it('rejects a request without feedback', async () => {
+        useReplayEnvironment('locations-toronto');
+
+        const response = await postRefine({ persona, location: 'Toronto', feedback: [] });
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).code).toBe(ErrorCode.VALIDATION);
+    });
+
+    it('rejects malformed feedback', async () => {
+        useReplayEnvironment('locations-toronto');
+
+        const response = await postRefine({ persona, location: 'Toronto', feedback: [{ name: 'CN Tower', verdict: 'meh' }] });
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).code).toBe(ErrorCode.VALIDATION);
+    });
+
+    it('rejects a persona without traits or interests', async () => {
+        useReplayEnvironment('locations-toronto');
+
+        const response = await postRefine({ persona: { name: 'x' }, location: 'Toronto', feedback });
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).code).toBe(ErrorCode.VALIDATION);
+    });
+});
@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { ErrorCode } from '@/app/types/errors';
+import { useReplayEnvironment } from '../helpers';
+
+const persona = {
+    name: 'Jane Doe',
+    bio: 'An urban cyclist who builds open data tools.',
+    traits: ['curious', 'outdoorsy'],
+    interests: ['cycling', 'maps'],
+};
+
+const market = { name: 'St. Lawrence Market', address: '93 Front St E, Toronto, ON M5E 1C3', category: 'shop' };
+
+// Import the route fresh so the shared clients read the fixture configuration
+async function postReplace(body: unknown) {
+    const { POST } = await import('@/app/api/locations/replace/route');
+    const request = new NextRequest('http://localhost/api/locations/replace', {
+        method: 'POST',
+        body: JSON.stringify(body),
+    });
+    return POST(request);
+}
+
+describe('POST /api/locations/replace', () => {
+    beforeEach(() => {
+        vi.resetModules();
+    });
+
+    it('recommends one verified alternative that is not already shown', async () => {
+        useReplayEnvironment('locations-toronto');
+
+        const response = await postReplace({ persona, location: 'Toronto', replace: market, current: [market] });
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data.location).toMatchObject({ name: 'High Park', placeId: 'place-park', verified: true });
+        expect(data.location.relevanceScore).toBeGreaterThan(0);
+    });
+
+    it('skips candidates at the address of a place already shown', async () => {
+        useReplayEnvironment('locations-toronto');
+
+        const current = [market, { name: 'The park by the lake', address: '1873 Bloor St W, Toronto, ON M6R 2Z3' }];
+        const response = await postReplace({ persona, location: 'Toronto', replace: market, current });
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data.location).toMatchObject({ name: 'Royal Ontario Museum', placeId: 'place-rom' });
+    });
+
+    it('rejects a request without the place to replace', async () => {
+        useReplayEnvironment('locations-toronto');
+
+        const response = await postReplace({ persona, location: 'Toronto', current: [market] });
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).code).toBe(ErrorCode.VALIDATION);
+    });
+
+    it('rejects a persona without traits or interests', async () => {
+        useReplayEnvironment('locations-toronto');
+
+        const response = await postReplace({ persona: { name: 'x' }, location: 'Toronto', replace: market, current: [market] });
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).code).toBe(ErrorCode.VALIDATION);
+    });
+});
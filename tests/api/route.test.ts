@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/route/route';
+import { ErrorCode } from '@/app/types/errors';
+
+const locations = [
+    { id: 'rom', name: 'Royal Ontario Museum', category: 'museum', coordinates: { lat: 43.6677, lng: -79.3948 } },
+    { id: 'market', name: 'St. Lawrence Market', category: 'shop', coordinates: { lat: 43.6487, lng: -79.3716 } },
+    { id: 'park', name: 'Queen\'s Park', category: 'park', coordinates: { lat: 43.6641, lng: -79.3920 } },
+];
+
+async function postRoute(body: unknown) {
+    const request = new NextRequest('http://localhost/api/route', {
+        method: 'POST',
+        body: JSON.stringify(body),
+    });
+    return POST(request);
+}
+
+describe('POST /api/route', () => {
+    it('returns the visiting order and total distance', async () => {
+        const response = await postRoute({ locations, start: { lat: 43.6426, lng: -79.3871 } });
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data.route.order).toEqual(['market', 'park', 'rom']);
+        expect(data.route.totalDistanceKm).toBeGreaterThan(0);
+    });
+
+    it('rejects an end point on a round trip', async () => {
+        const response = await postRoute({ locations, roundTrip: true, end: { lat: 43.65, lng: -79.38 } });
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).code).toBe(ErrorCode.VALIDATION);
+    });
+});
@@ -0,0 +1,41 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/share/route';
+import { loadSharedResult, MemoryShareStore, setShareStore } from '@/app/lib/share';
+import { ErrorCode } from '@/app/types/errors';
+
+const persona = { name: 'Ada', handle: 'ada', bio: 'Painter', traits: ['curious'], interests: ['art'] };
+const locations = [
+    { id: 'ago', name: 'Art Gallery of Ontario', address: '317 Dundas St W', description: 'Art', category: 'museum', coordinates: { lat: 43.6536, lng: -79.3925 } },
+];
+
+async function postShare(body: unknown) {
+    const request = new NextRequest('http://localhost/api/share', {
+        method: 'POST',
+        body: JSON.stringify(body),
+    });
+    return POST(request);
+}
+
+describe('POST /api/share', () => {
+    beforeEach(() => {
+        setShareStore(new MemoryShareStore());
+    });
+
+    it('stores the results and returns a permalink', async () => {
+        const response = await postShare({ persona, locations, city: 'Toronto, ON, Canada', radiusKm: 10 });
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data.path).toBe(`/r/${data.id}`);
+        const stored = await loadSharedResult(data.id);
+        expect(stored).toMatchObject({ persona, locations, city: 'Toronto, ON, Canada', radiusKm: 10 });
+    });
+
+    it('rejects a share without a persona', async () => {
+        const response = await postShare({ locations, city: 'Toronto' });
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).code).toBe(ErrorCode.VALIDATION);
+    });
+});
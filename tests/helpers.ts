@@ -0,0 +1,51 @@
+import path from 'path';
+import { Cassette } from '@/app/lib/http/cassette';
+import { createCassetteFetch, createHttpClient } from '@/app/lib/http';
+
+/**
+ * Absolute path of a fixture cassette in tests/fixtures/http (recorded, or hand-written when
+ * marked synthetic)
+ */
+export const fixturePath = (name: string) => path.join(__dirname, 'fixtures', 'http', `${name}.json`);
+
+/**
+ * Load a fixture cassette for replay
+ */
+export const loadCassette = (name: string) => Cassette.load(fixturePath(name));
+
+/**
+ * An axios instance replaying the given cassette
+ */
+export const replayHttp = (cassette: Cassette) => createHttpClient({ mode: 'replay', cassette });
+
+/**
+ * A fetch replaying the given cassette, which also collects the JSON request bodies it was sent
+ * @typeParam T Shape of the request bodies, e.g. chat completion params
+ */
+export function replayFetch<T = unknown>(cassette: Cassette) {
+    const replay = createCassetteFetch({ mode: 'replay', cassette });
+    const requests: T[] = [];
+
+    const fetchImpl = (input: RequestInfo | URL, init?: RequestInit) => {
+        requests.push((typeof init?.body === 'string' ? JSON.parse(init.body) : init?.body) as T);
+        return replay(input, init);
+    };
+
+    return { fetch: fetchImpl, requests };
+}
+
+/**
+ * Point the app's shared clients at a fixture cassette. Call before importing app modules
+ * (after vi.resetModules) so lazily created singletons pick up the configuration.
+ */
+export function useReplayEnvironment(name: string) {
+    process.env.HTTP_MODE = 'replay';
+    process.env.HTTP_CASSETTE = fixturePath(name);
+    process.env.EXA_API_KEY = 'test-exa-key';
+    process.env.OPENAI_API_KEY = 'test-openai-key';
+    process.env.GOOGLE_MAPS_API_KEY = 'test-maps-key';
+    process.env.CACHE_BACKEND = 'none';
+    process.env.LLM_PROVIDER = 'openai';
+    delete process.env.USE_MOCK_DATA;
+    delete process.env.LLM_BASE_URL;
+}
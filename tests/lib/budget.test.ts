@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { budgetPenalty, estimateSpend, fitsBudget, formatPriceLevel, withPriceLevel } from '@/app/lib/budget';
+import { scoreLocation } from '@/app/lib/relevance';
+import { validateLocations } from '@/app/lib/schemas';
+import { CityContext, Location } from '@/app/types/location';
+
+const location = (overrides: Partial<Location>): Location => ({
+    id: 'id',
+    name: 'Somewhere',
+    address: '1 Main St',
+    description: '',
+    category: 'restaurant',
+    coordinates: { lat: 0, lng: 0 },
+    ...overrides,
+});
+
+const city: CityContext = { name: 'Toronto, ON, Canada', center: { lat: 43.6532, lng: -79.3832 }, radiusKm: 10 };
+
+describe('price levels', () => {
+    it('estimates a missing price level from the category', () => {
+        expect(withPriceLevel(location({ category: 'park' })).priceLevel).toBe(0);
+        expect(withPriceLevel(location({ category: 'bar' })).priceLevel).toBe(2);
+        expect(withPriceLevel(location({ category: 'park', priceLevel: 3 })).priceLevel).toBe(3);
+    });
+
+    it('accepts price levels from the model as numbers or dollar signs', () => {
+        const candidate = { name: 'Bistro', address: '1 King St', category: 'restaurant', coordinates: city.center };
+        const result = validateLocations({
+            locations: [
+                { ...candidate, priceLevel: '$$$' },
+                { ...candidate, name: 'Diner', priceLevel: 1 },
+                { ...candidate, name: 'Palace', priceLevel: 9 },
+            ],
+        }, city);
+
+        expect(result.success && result.data.map(item => item.priceLevel)).toEqual([3, 1, undefined]);
+    });
+
+    it('formats price levels for display', () => {
+        expect(formatPriceLevel(0)).toBe('Free');
+        expect(formatPriceLevel(3)).toBe('$$$');
+    });
+});
+
+describe('budgets', () => {
+    it('drops only places priced above the budget', () => {
+        expect(fitsBudget({ priceLevel: 1 }, 'cheap')).toBe(true);
+        expect(fitsBudget({ priceLevel: 2 }, 'cheap')).toBe(false);
+        expect(fitsBudget({ priceLevel: 0 }, 'splurge')).toBe(true);
+        expect(fitsBudget({}, 'cheap')).toBe(true);
+    });
+
+    it('ranks places outside the budget lower', () => {
+        expect(budgetPenalty(4, 'splurge')).toBe(0);
+        expect(budgetPenalty(2, 'splurge')).toBe(-15);
+        expect(budgetPenalty(0, 'splurge')).toBe(-30);
+
+        const persona = { name: 'Jane', handle: 'jane', bio: '', traits: [], interests: [] };
+        const fancy = scoreLocation(location({ priceLevel: 4, rating: 5 }), persona, 'splurge');
+        const park = scoreLocation(location({ category: 'park', priceLevel: 0, rating: 5 }), persona, 'splurge');
+
+        expect(park.recommendationContext?.breakdown.budget).toBe(-30);
+        expect(fancy.relevanceScore).toBeGreaterThan(park.relevanceScore!);
+        expect(park.relevanceScore).toBe(0);
+    });
+
+    it('totals the estimated spend per person', () => {
+        expect(estimateSpend([
+            { category: 'park', priceLevel: 0 },
+            { category: 'restaurant', priceLevel: 2 },
+            { category: 'museum' },
+        ])).toEqual({ min: 25, max: 65 });
+    });
+});
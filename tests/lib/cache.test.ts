@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Cache, CacheEntry, FileBackend, MemoryLRUBackend } from '@/app/lib/cache';
+
+const entry = (value: unknown, expiresAt = Number.MAX_SAFE_INTEGER): CacheEntry => ({ value, storedAt: 0, expiresAt });
+
+describe('MemoryLRUBackend', () => {
+    it('evicts the least recently used entry when full', async () => {
+        const backend = new MemoryLRUBackend(2);
+        await backend.set('a', entry(1));
+        await backend.set('b', entry(2));
+
+        // Reading "a" makes "b" the least recently used
+        await backend.get('a');
+        await backend.set('c', entry(3));
+
+        expect(await backend.get('a')).toBeDefined();
+        expect(await backend.get('b')).toBeUndefined();
+        expect(await backend.get('c')).toBeDefined();
+    });
+});
+
+describe('FileBackend', () => {
+    let directory: string | undefined;
+
+    afterEach(() => {
+        if (directory) rmSync(directory, { recursive: true, force: true });
+        directory = undefined;
+    });
+
+    it('reads back what it wrote, and nothing after a delete', async () => {
+        directory = mkdtempSync(path.join(os.tmpdir(), 'bespoke-cache-'));
+        const backend = new FileBackend(path.join(directory, 'nested'));
+        const stored = entry({ name: 'Jane', tags: ['maps'] }, 1000);
+
+        await backend.set('persona:x:jane', stored);
+        expect(await backend.get('persona:x:jane')).toEqual(stored);
+        expect(await backend.get('persona:x:someone-else')).toBeUndefined();
+
+        await backend.delete('persona:x:jane');
+        expect(await backend.get('persona:x:jane')).toBeUndefined();
+    });
+});
+
+describe('Cache.getOrSet', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('serves a stored value until it expires', async () => {
+        const now = vi.spyOn(Date, 'now').mockReturnValue(1000);
+        const cache = new Cache(new MemoryLRUBackend());
+        const loader = vi.fn(async () => 'fresh');
+
+        expect((await cache.getOrSet('key', 500, loader)).info.hit).toBe(false);
+
+        now.mockReturnValue(1499);
+        const cached = await cache.getOrSet('key', 500, loader);
+        expect(cached).toMatchObject({ value: 'fresh', info: { hit: true } });
+        expect(loader).toHaveBeenCalledTimes(1);
+
+        now.mockReturnValue(1500);
+        expect((await cache.getOrSet('key', 500, loader)).info.hit).toBe(false);
+        expect(loader).toHaveBeenCalledTimes(2);
+    });
+
+    it('recomputes and stores a new value on refresh', async () => {
+        const cache = new Cache(new MemoryLRUBackend());
+        await cache.getOrSet('key', 60000, async () => 'old');
+
+        const refreshed = await cache.getOrSet('key', 60000, async () => 'new', { refresh: true });
+        expect(refreshed).toMatchObject({ value: 'new', info: { hit: false } });
+
+        expect((await cache.getOrSet('key', 60000, async () => 'unused')).value).toBe('new');
+    });
+
+    it.each([null, undefined])('does not cache a %s result', async empty => {
+        const cache = new Cache(new MemoryLRUBackend());
+        await cache.getOrSet('key', 60000, async () => empty);
+
+        const retried = await cache.getOrSet('key', 60000, async () => 'found');
+        expect(retried).toMatchObject({ value: 'found', info: { hit: false } });
+    });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { escapeIcsText, foldLine, isValidSlot, itinerarySlots, toIcs } from '@/app/lib/calendar';
+
+const locations = [
+    {
+        id: 'ago',
+        name: 'Art Gallery of Ontario',
+        address: '317 Dundas St W, Toronto, ON',
+        description: 'Canadian and European art',
+        coordinates: { lat: 43.6536, lng: -79.3925 },
+        website: 'https://ago.ca',
+        utcOffsetMinutes: -240,
+        recommendationContext: { relevance: 'High', interest: 'art', breakdown: { interest: 40, trait: 20, rating: 18 } },
+    },
+    { id: 'park', name: 'Trinity Bellwoods Park', address: '', description: '', coordinates: { lat: 43.6476, lng: -79.4138 } },
+];
+
+const slots = [
+    { locationId: 'ago', start: '2026-10-19T10:00', end: '2026-10-19T11:30' },
+    { locationId: 'park', start: '2026-10-19T12:00', end: '2026-10-19T13:00' },
+];
+
+describe('toIcs', () => {
+    const ics = toIcs({ name: 'Toronto day out', locations, slots, stamp: new Date('2026-10-18T12:00:00Z') });
+    const unfolded = ics.replace(/\r\n /g, '');
+
+    it('writes one event per slot with CRLF line endings', () => {
+        expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+        expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+        expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+        expect(ics.split('\r\n').every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    });
+
+    it('fills in location, geo, description and times', () => {
+        expect(unfolded).toContain('LOCATION:317 Dundas St W\\, Toronto\\, ON');
+        expect(unfolded).toContain('GEO:43.6536;-79.3925');
+        expect(unfolded).toContain('DESCRIPTION:Canadian and European art\\nBecause you like art\\nhttps://ago.ca');
+        expect(unfolded).toContain('DTSTAMP:20261018T120000Z');
+        // Converted to UTC with the place's offset
+        expect(unfolded).toContain('DTSTART:20261019T140000Z');
+        expect(unfolded).toContain('DTEND:20261019T153000Z');
+    });
+
+    it('uses floating local times when the offset is unknown', () => {
+        expect(unfolded).toContain('DTSTART:20261019T120000\r\n');
+        expect(unfolded).not.toContain('LOCATION:\r\n');
+    });
+});
+
+describe('escapeIcsText', () => {
+    it('escapes separators and newlines', () => {
+        expect(escapeIcsText('a;b,c\\d\ne')).toBe('a\\;b\\,c\\\\d\\ne');
+        expect(escapeIcsText('a\r\nb\rc\nd')).toBe('a\\nb\\nc\\nd');
+    });
+});
+
+describe('foldLine', () => {
+    it('never splits a multi-byte character', () => {
+        const folded = foldLine(`SUMMARY:${'é'.repeat(60)}`);
+
+        expect(folded.split('\r\n ').join('')).toBe(`SUMMARY:${'é'.repeat(60)}`);
+        expect(folded.split('\r\n').every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    });
+});
+
+describe('slots', () => {
+    it('takes arrival and departure from an itinerary', () => {
+        const stops = [{ locationId: 'ago', name: 'AGO', category: 'museum', arrival: '2026-10-19T10:00', departure: '2026-10-19T11:30', dwellMinutes: 90, waitMinutes: 0 }];
+
+        expect(itinerarySlots({ stops })).toEqual([slots[0]]);
+    });
+
+    it('rejects slots that end before they start', () => {
+        expect(isValidSlot(slots[0])).toBe(true);
+        expect(isValidSlot({ locationId: 'ago', start: '2026-10-19T12:00', end: '2026-10-19T11:00' })).toBe(false);
+        expect(isValidSlot({ locationId: 'ago', start: 'noon', end: '2026-10-19T11:00' })).toBe(false);
+    });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { ExaClient } from '@/app/lib/exa';
+import { AppError } from '@/app/lib/errors';
+import { ErrorCode } from '@/app/types/errors';
+import { PipelineEvent } from '@/app/types/api';
+import { loadCassette, replayHttp } from '../helpers';
+
+describe('ExaClient.searchXProfile', () => {
+    it('falls back through search strategies and enriches results lacking content', async () => {
+        const cassette = loadCassette('exa-strategy-fallback');
+        const client = new ExaClient('test-key', replayHttp(cassette));
+        const events: PipelineEvent[] = [];
+
+        const result = await client.searchXProfile('@janedoe', event => events.push(event));
+
+        // Strategy 1 is irrelevant, strategy 2 fails with a 500, strategy 3 matches without text
+        expect(events).toEqual([
+            { type: 'search', strategy: 1, totalStrategies: 4 },
+            { type: 'search', strategy: 2, totalStrategies: 4 },
+            { type: 'search', strategy: 3, totalStrategies: 4 },
+        ]);
+        expect(result.results).toHaveLength(1);
+        expect(result.results[0].url).toBe('https://x.com/janedoe');
+
+        // Text and highlights come from the contents API
+        expect(result.results[0].text).toContain('Urban cyclist and map nerd');
+        expect(result.results[0].highlights).toHaveLength(2);
+        expect(cassette.remaining).toBe(0);
+
+        const profile = client.extractProfileInfo(result, 'janedoe');
+        expect(profile.tweets.length).toBeGreaterThan(0);
+    });
+
+    it('stops at a rate limit and reports when to retry', async () => {
+        const cassette = loadCassette('exa-rate-limited');
+        const client = new ExaClient('test-key', replayHttp(cassette));
+
+        const error = await client.searchXProfile('janedoe').catch(err => err);
+
+        expect(error).toBeInstanceOf(AppError);
+        expect(error.code).toBe(ErrorCode.UPSTREAM_RATE_LIMITED);
+        expect(error.upstream).toBe('exa');
+        expect(error.retryAfterSeconds).toBe(12);
+        expect(cassette.remaining).toBe(0);
+    });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { escapeXml, exportFileName, orderLocations, toGeoJson, toGpx, toKml } from '@/app/lib/export';
+
+const document = {
+    name: 'Toronto recommendations',
+    locations: [
+        {
+            name: 'Bar <Raval> & Co',
+            address: '505 College St',
+            description: 'Tapas',
+            category: 'bar',
+            coordinates: { lat: 43.6556, lng: -79.4101 },
+            website: 'https://example.com/?a=1&b=2',
+        },
+        { name: 'Trinity Bellwoods Park', address: '', description: '', category: 'park', coordinates: { lat: 43.6476, lng: -79.4138 } },
+    ],
+    path: [{ lat: 43.6556, lng: -79.4101 }, { lat: 43.6476, lng: -79.4138 }],
+};
+
+describe('escapeXml', () => {
+    it('escapes markup and drops characters XML does not allow', () => {
+        expect(escapeXml('a < b & "c" \u0007')).toBe('a &lt; b &amp; &quot;c&quot; ');
+    });
+});
+
+describe('toGpx', () => {
+    it('writes waypoints then a track, with child elements in schema order', () => {
+        const gpx = toGpx(document);
+
+        expect(gpx).toContain('<wpt lat="43.6556" lon="-79.4101">');
+        expect(gpx).toContain('<name>Bar &lt;Raval&gt; &amp; Co</name>');
+        expect(gpx).toContain('<link href="https://example.com/?a=1&amp;b=2">');
+        expect(gpx.indexOf('<cmt>')).toBeLessThan(gpx.indexOf('<desc>'));
+        expect(gpx.indexOf('<desc>')).toBeLessThan(gpx.indexOf('<link'));
+        expect(gpx.lastIndexOf('</wpt>')).toBeLessThan(gpx.indexOf('<trk>'));
+        expect(gpx.match(/<trkpt /g)).toHaveLength(2);
+        // Empty optional fields are left out
+        expect(gpx).not.toContain('<cmt></cmt>');
+    });
+
+    it('leaves out the track without a route', () => {
+        expect(toGpx({ ...document, path: [] })).not.toContain('<trk>');
+    });
+});
+
+describe('toKml', () => {
+    it('writes placemarks with longitude-first coordinates and a route line', () => {
+        const kml = toKml(document);
+
+        expect(kml).toContain('<Point><coordinates>-79.4101,43.6556</coordinates></Point>');
+        expect(kml).toContain('<coordinates>-79.4101,43.6556 -79.4138,43.6476</coordinates>');
+        expect(kml).toContain('<Data name="category"><value>bar</value></Data>');
+    });
+});
+
+describe('toGeoJson', () => {
+    it('writes a FeatureCollection of numbered points and the route', () => {
+        const geoJson = JSON.parse(toGeoJson(document));
+
+        expect(geoJson.type).toBe('FeatureCollection');
+        expect(geoJson.features).toHaveLength(3);
+        expect(geoJson.features[0].geometry).toEqual({ type: 'Point', coordinates: [-79.4101, 43.6556] });
+        expect(geoJson.features[1].properties).toMatchObject({ stop: 2, website: null });
+        expect(geoJson.features[2].geometry.type).toBe('LineString');
+    });
+});
+
+describe('orderLocations', () => {
+    it('follows the given order and keeps other places last', () => {
+        const places = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+
+        expect(orderLocations(places, ['c', 'a']).map(place => place.id)).toEqual(['c', 'a', 'b']);
+    });
+});
+
+describe('exportFileName', () => {
+    it('slugs the document name', () => {
+        expect(exportFileName('Toronto recommendations', 'kml')).toBe('toronto-recommendations.kml');
+        expect(exportFileName('!!!', 'geojson')).toBe('recommendations.geojson');
+    });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { isPlaceFeedbackList, MAX_FEEDBACK_PLACES, recordFeedback, verdictFor } from '@/app/lib/feedback';
+
+const place = (name: string) => ({ name, category: 'park', description: `${name} is lovely` });
+
+describe('recordFeedback', () => {
+    it('adds, replaces and takes back ratings', () => {
+        const liked = recordFeedback([], place('High Park'), 'like');
+        expect(liked).toEqual([{ ...place('High Park'), verdict: 'like' }]);
+
+        const disliked = recordFeedback(liked, place('high park '), 'dislike');
+        expect(disliked).toHaveLength(1);
+        expect(verdictFor(disliked, 'High Park')).toBe('dislike');
+
+        expect(recordFeedback(disliked, place('High Park'), 'dislike')).toEqual([]);
+    });
+
+    it('keeps the most recent ratings', () => {
+        let feedback = recordFeedback([], place('Place 0'), 'like');
+        for (let i = 1; i <= MAX_FEEDBACK_PLACES; i++) {
+            feedback = recordFeedback(feedback, place(`Place ${i}`), 'like');
+        }
+
+        expect(feedback).toHaveLength(MAX_FEEDBACK_PLACES);
+        expect(verdictFor(feedback, 'Place 0')).toBeUndefined();
+        expect(verdictFor(feedback, `Place ${MAX_FEEDBACK_PLACES}`)).toBe('like');
+    });
+});
+
+describe('isPlaceFeedbackList', () => {
+    it('checks every rating', () => {
+        expect(isPlaceFeedbackList([{ ...place('High Park'), verdict: 'like' }])).toBe(true);
+        expect(isPlaceFeedbackList([{ ...place('High Park'), verdict: 'love' }])).toBe(false);
+        expect(isPlaceFeedbackList({ name: 'High Park' })).toBe(false);
+    });
+});
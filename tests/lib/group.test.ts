@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { groupName, memberImageFor, mergePersonas, scoreForGroup } from '@/app/lib/group';
+import { Location } from '@/app/types/location';
+import { InterestCategory } from '@/app/types/persona';
+
+const ada = {
+    name: 'Ada',
+    handle: 'ada',
+    bio: '',
+    traits: ['analytical', 'curious'],
+    interests: ['art', 'coffee'],
+    interestCategories: { art: InterestCategory.ARTS },
+};
+const grace = {
+    name: 'Grace',
+    handle: 'grace',
+    bio: '',
+    traits: ['curious', 'social'],
+    interests: ['sailing', 'Coffee'],
+};
+
+const place = (category: string, description: string): Location => ({
+    id: category,
+    name: `Some ${category}`,
+    address: '',
+    description,
+    category,
+    coordinates: { lat: 43.65, lng: -79.38 },
+    rating: 4.5,
+});
+
+describe('mergePersonas', () => {
+    it('lists what members share first', () => {
+        const merged = mergePersonas([ada, grace]);
+
+        expect(merged.name).toBe('Ada and Grace');
+        expect(merged.traits).toEqual(['curious', 'analytical', 'social']);
+        expect(merged.interests).toEqual(['coffee', 'art', 'sailing']);
+        expect(merged.interestCategories).toEqual({ art: InterestCategory.ARTS });
+    });
+});
+
+describe('groupName', () => {
+    it('joins names in prose', () => {
+        expect(groupName([{ name: 'Ada' }, { name: 'Grace' }, { name: 'Linus' }])).toBe('Ada, Grace and Linus');
+    });
+});
+
+describe('scoreForGroup', () => {
+    it('explains which members a place suits', () => {
+        const scored = scoreForGroup(place('museum', 'Modern art galleries'), [ada, grace]);
+        const members = scored.recommendationContext?.members;
+
+        expect(members?.map(member => member.handle)).toEqual(['ada', 'grace']);
+        expect(members?.[0]).toMatchObject({ interest: 'art', satisfied: true });
+        expect(scored.recommendationContext?.relevance).toMatch(/^Great for Ada \(art\)/);
+    });
+
+    it('ranks places the whole group enjoys above one member\'s favourite', () => {
+        const shared = scoreForGroup(place('cafe', 'Great coffee'), [ada, grace]);
+        const niche = scoreForGroup(place('museum', 'Modern art galleries'), [ada, grace]);
+
+        expect(shared.relevanceScore).toBeGreaterThan(niche.relevanceScore!);
+        expect(shared.recommendationContext?.members?.every(member => member.satisfied)).toBe(true);
+    });
+});
+
+describe('memberImageFor', () => {
+    it('picks the image of a member the place suits', () => {
+        const scored = scoreForGroup(place('marina', 'Sailing lessons'), [ada, grace]);
+
+        expect(memberImageFor(scored, { ada: 'ada.png', grace: 'grace.png' })).toBe('grace.png');
+        expect(memberImageFor(scored, { ada: 'ada.png' })).toBe('ada.png');
+    });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { estimateLeg, planItinerary, preferredPeriods, resolveItineraryWindow } from '@/app/lib/itinerary';
+import { parseWeekdayText } from '@/app/lib/opening-hours';
+import { Location } from '@/app/types/location';
+
+const NINE_TO_FIVE = parseWeekdayText([
+    'Monday: 9:00 AM – 5:00 PM',
+    'Tuesday: 9:00 AM – 5:00 PM',
+    'Wednesday: 9:00 AM – 5:00 PM',
+    'Thursday: 9:00 AM – 5:00 PM',
+    'Friday: 9:00 AM – 5:00 PM',
+    'Saturday: Closed',
+    'Sunday: Closed',
+]);
+
+const location = (id: string, category: string, overrides: Partial<Location> = {}): Location => ({
+    id,
+    name: id,
+    address: '',
+    description: '',
+    category,
+    coordinates: { lat: 43.65, lng: -79.38 },
+    ...overrides,
+});
+
+const window = (start: string, end: string) => {
+    const resolved = resolveItineraryWindow(start, end);
+    if ('error' in resolved) throw new Error(resolved.error);
+    return resolved;
+};
+
+describe('estimateLeg', () => {
+    it('walks short hops and takes transit for longer ones', () => {
+        const short = estimateLeg({ lat: 43.65, lng: -79.38 }, { lat: 43.655, lng: -79.38 });
+        const long = estimateLeg({ lat: 43.65, lng: -79.38 }, { lat: 43.7, lng: -79.38 });
+
+        expect(short).toMatchObject({ mode: 'walking', distanceKm: 0.7, durationMinutes: 10 });
+        expect(long.mode).toBe('transit');
+        expect(long.durationMinutes).toBeGreaterThan(20);
+    });
+});
+
+describe('preferredPeriods', () => {
+    it('reads parts of the day from free-text preferences', () => {
+        expect(preferredPeriods(['night owl', 'weekend afternoons'])).toEqual(['afternoon', 'night']);
+        expect(preferredPeriods(undefined)).toEqual([]);
+    });
+});
+
+describe('planItinerary', () => {
+    it('schedules places for the time of day they suit', () => {
+        // 2026-10-19 is a Monday
+        const itinerary = planItinerary(
+            [location('bar', 'bar'), location('cafe', 'cafe'), location('restaurant', 'restaurant')],
+            window('2026-10-19T09:00', '2026-10-19T23:00')
+        );
+
+        expect(itinerary.stops.map(stop => stop.locationId)).toEqual(['cafe', 'restaurant', 'bar']);
+        expect(itinerary.stops[0]).toMatchObject({ arrival: '2026-10-19T09:00', departure: '2026-10-19T09:45', dwellMinutes: 45 });
+        expect(itinerary.skipped).toEqual([]);
+    });
+
+    it('waits for places to open and skips ones that are closed', () => {
+        const itinerary = planItinerary(
+            [location('museum', 'museum', { schedule: NINE_TO_FIVE })],
+            window('2026-10-19T08:00', '2026-10-19T12:00')
+        );
+        expect(itinerary.stops[0]).toMatchObject({ arrival: '2026-10-19T09:00', waitMinutes: 60 });
+
+        const saturday = planItinerary(
+            [location('museum', 'museum', { schedule: NINE_TO_FIVE }), location('park', 'park')],
+            window('2026-10-24T10:00', '2026-10-24T18:00')
+        );
+        expect(saturday.stops.map(stop => stop.locationId)).toEqual(['park']);
+        expect(saturday.skipped).toEqual([{ locationId: 'museum', name: 'museum', reason: 'Closed for the rest of the day' }]);
+    });
+
+    it('adds travel time between stops and leaves out what does not fit', () => {
+        const itinerary = planItinerary(
+            [
+                location('park', 'park'),
+                location('far', 'entertainment', { coordinates: { lat: 43.75, lng: -79.38 } }),
+            ],
+            window('2026-10-19T10:00', '2026-10-19T12:00')
+        );
+
+        expect(itinerary.stops.map(stop => stop.locationId)).toEqual(['park']);
+        expect(itinerary.skipped[0]).toMatchObject({ locationId: 'far', reason: 'Not enough time left in the day' });
+        expect(itinerary.totalTravelMinutes).toBe(0);
+    });
+});
+
+describe('resolveItineraryWindow', () => {
+    it('rejects inverted or overlong windows', () => {
+        expect(resolveItineraryWindow('2026-10-19T10:00', '2026-10-19T09:00')).toHaveProperty('error');
+        expect(resolveItineraryWindow('2026-10-19T10:00', '2026-10-20T11:00')).toHaveProperty('error');
+        expect(resolveItineraryWindow('tomorrow', '2026-10-20T11:00')).toHaveProperty('error');
+    });
+});
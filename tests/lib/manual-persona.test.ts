@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { manualPersonaContext, MAX_MANUAL_POSTS, validateManualPersonaInput } from '@/app/lib/manual-persona';
+
+describe('validateManualPersonaInput', () => {
+    it('accepts a bio, posts or a single answer', () => {
+        expect(validateManualPersonaInput({ bio: 'Runner and reader' })).toBeUndefined();
+        expect(validateManualPersonaInput({ posts: ['', 'Best ramen in town'] })).toBeUndefined();
+        expect(validateManualPersonaInput({ answers: { time: 'Late nights' } })).toBeUndefined();
+    });
+
+    it('rejects input with nothing to build a persona from', () => {
+        expect(validateManualPersonaInput({ name: 'Sam', bio: '  ', posts: [' '], answers: { food: '' } }))
+            .toMatch(/paste a bio or some posts/);
+        expect(validateManualPersonaInput(null)).toMatch(/Invalid request/);
+    });
+
+    it('rejects unknown questions and too many posts', () => {
+        expect(validateManualPersonaInput({ answers: { favouriteColour: 'blue' } })).toMatch(/questionnaire answers/);
+        expect(validateManualPersonaInput({ posts: Array(MAX_MANUAL_POSTS + 1).fill('post') })).toMatch(/Too many posts/);
+    });
+});
+
+describe('manualPersonaContext', () => {
+    it('builds self-described context with answers in questionnaire order', () => {
+        expect(manualPersonaContext({
+            name: ' Sam ',
+            bio: 'Runner ',
+            posts: ['Hill repeats again', ' '],
+            answers: { time: 'Early mornings', interests: 'running, coffee', food: '' },
+        })).toEqual({
+            recentTweets: ['Hill repeats again'],
+            bio: 'Runner',
+            handle: '',
+            selfDescribed: true,
+            name: 'Sam',
+            questionnaire: ['What are you into? running, coffee', 'When are you usually out? Early mornings'],
+        });
+    });
+});
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import type OpenAI from 'openai';
+import { createOpenAIClient } from '@/app/lib/openai';
+import { OpenAIProvider, loadLLMConfig } from '@/app/lib/llm';
+import { lookupCity } from '@/app/lib/gazetteer';
+import { Cassette } from '@/app/lib/http/cassette';
+import { loadCassette, replayFetch } from '../helpers';
+
+type ChatRequest = OpenAI.Chat.ChatCompletionCreateParams;
+
+const persona = {
+    name: 'Jane Doe',
+    handle: 'janedoe',
+    bio: 'An urban cyclist who builds open data tools.',
+    traits: ['curious', 'outdoorsy'],
+    interests: ['cycling', 'maps'],
+};
+
+// A chat completion interaction answering with the given message content
+const completion = (content: string) => ({
+    request: { method: 'POST', url: 'https://api.openai.com/v1/chat/completions' },
+    response: {
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+        body: { id: 'chatcmpl-test', object: 'chat.completion', created: 0, model: 'gpt-4o', choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }] },
+    },
+});
+
+const place = (name: string, address: string) => ({
+    name,
+    address,
+    description: `${name} is worth a visit.`,
+    category: 'attraction',
+    coordinates: { lat: 43.65, lng: -79.38 },
+    rating: 4.5,
+});
+
+describe('OpenAIClient.generateLocationRecommendations', () => {
+    it('tops up short answers and drops duplicates until the requested count is reached', async () => {
+        const cassette = loadCassette('openai-location-topup');
+        const { fetch, requests } = replayFetch<ChatRequest>(cassette);
+        const provider = new OpenAIProvider(loadLLMConfig({ provider: 'openai', apiKey: 'test-key', baseUrl: undefined }), fetch);
+        const client = createOpenAIClient(provider);
+
+        const locations = await client.generateLocationRecommendations(persona, lookupCity('Toronto')!, { count: 3 });
+
+        expect(locations.map(location => location.name)).toEqual([
+            'St. Lawrence Market',
+            'High Park',
+            'Royal Ontario Museum',
+        ]);
+        expect(new Set(locations.map(location => location.id)).size).toBe(3);
+        expect(cassette.remaining).toBe(0);
+
+        // Initial request, a top-up for the item that failed validation, then a final request after dedup
+        expect(requests).toHaveLength(3);
+        const topUpPrompt = requests[1].messages[1].content as string;
+        expect(topUpPrompt).toContain('recommend 1 MORE');
+        expect(topUpPrompt).toContain('St. Lawrence Market, High Park');
+        expect(topUpPrompt).toContain('were rejected');
+
+        const finalPrompt = requests[2].messages[1].content as string;
+        expect(finalPrompt).toContain('EXACTLY 1 MORE');
+    });
+
+    it('keeps valid locations when the top-up cannot be repaired', async () => {
+        const cassette = new Cassette([
+            completion(JSON.stringify({ locations: [place('Casa Loma', '1 Austin Terrace, Toronto'), { name: 'No address' }] })),
+            // The top-up and both repair attempts are unusable
+            completion('not json'),
+            completion('still not json'),
+            completion('{"locations": "none"}'),
+            completion(JSON.stringify({ locations: [place('Evergreen Brick Works', '550 Bayview Ave, Toronto')] })),
+        ]);
+        const { fetch, requests } = replayFetch<ChatRequest>(cassette);
+        const provider = new OpenAIProvider(loadLLMConfig({ provider: 'openai', apiKey: 'test-key', baseUrl: undefined }), fetch);
+        const client = createOpenAIClient(provider);
+
+        const locations = await client.generateLocationRecommendations(persona, lookupCity('Toronto')!, { count: 2 });
+
+        expect(locations.map(location => location.name)).toEqual(['Casa Loma', 'Evergreen Brick Works']);
+        expect(requests).toHaveLength(5);
+        expect(requests[4].messages[1].content).toContain('EXACTLY 1 MORE');
+    });
+
+    it('only fills the gap with landmarks that fit the budget', async () => {
+        const cassette = new Cassette([
+            completion(JSON.stringify({ locations: [place('Casa Loma', '1 Austin Terrace, Toronto')] })),
+            // The top-up, the final request and their repair attempts are all unusable
+            ...Array.from({ length: 6 }, () => completion('not json')),
+        ]);
+        const { fetch } = replayFetch<ChatRequest>(cassette);
+        const provider = new OpenAIProvider(loadLLMConfig({ provider: 'openai', apiKey: 'test-key', baseUrl: undefined }), fetch);
+        const client = createOpenAIClient(provider);
+
+        const locations = await client.generateLocationRecommendations(persona, lookupCity('Toronto')!, { count: 5, budget: 'cheap' });
+
+        // St. Lawrence Market and the Distillery District are typically moderately priced
+        expect(locations.map(location => location.name)).toEqual(['Casa Loma', 'CN Tower', 'High Park', 'Royal Ontario Museum']);
+        expect(cassette.remaining).toBe(0);
+    });
+
+    it('feeds liked and disliked places back into every prompt', async () => {
+        const { fetch, requests } = replayFetch<ChatRequest>(loadCassette('openai-location-topup'));
+        const provider = new OpenAIProvider(loadLLMConfig({ provider: 'openai', apiKey: 'test-key', baseUrl: undefined }), fetch);
+        const client = createOpenAIClient(provider);
+
+        await client.generateLocationRecommendations(persona, lookupCity('Toronto')!, {
+            count: 3,
+            feedback: [
+                { name: 'Kensington Market', category: 'shop', description: 'Vintage shops and cafes', verdict: 'like' },
+                { name: 'CN Tower', category: 'attraction', description: 'Observation deck', verdict: 'dislike' },
+            ],
+        });
+
+        // The initial request, the top-up and the final request after dedup
+        expect(requests).toHaveLength(3);
+        for (const request of requests) {
+            const prompt = request.messages[1].content as string;
+            expect(prompt).toContain('Liked:\n  - Kensington Market (shop): Vintage shops and cafes');
+            expect(prompt).toContain('Disliked:\n  - CN Tower (attraction): Observation deck');
+            expect(prompt).toContain('Lean toward');
+        }
+    });
+
+    it('keeps replacements away from shown addresses and in the requested category', async () => {
+        const { fetch, requests } = replayFetch<ChatRequest>(loadCassette('openai-location-topup'));
+        const provider = new OpenAIProvider(loadLLMConfig({ provider: 'openai', apiKey: 'test-key', baseUrl: undefined }), fetch);
+        const client = createOpenAIClient(provider);
+
+        await client.generateLocationRecommendations(persona, lookupCity('Toronto')!, {
+            count: 3,
+            exclude: ['CN Tower'],
+            excludeAddresses: ['290 Bremner Blvd, Toronto'],
+            category: 'park',
+        });
+
+        const prompt = requests[0].messages[1].content as string;
+        expect(prompt).toContain('NOT be any of these places, which were already recommended: CN Tower');
+        expect(prompt).toContain('NOT be at any of these addresses: 290 Bremner Blvd, Toronto');
+        expect(prompt).toContain('All be in the "park" category');
+        expect(prompt).not.toContain('Be from different categories');
+    });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import {
+    describeOpenStatus,
+    isOpenDuring,
+    localTimeAt,
+    openStatusAt,
+    parseWeekdayText,
+    resolveVisitWindow,
+} from '@/app/lib/opening-hours';
+import { WeeklySchedule } from '@/app/types/location';
+
+const WEEKDAY_TEXT = [
+    'Monday: Closed',
+    'Tuesday: 11:30 AM – 2:30 PM, 5:00 – 10:00 PM',
+    'Wednesday: 11:30 AM – 2:30 PM, 5:00 – 10:00 PM',
+    'Thursday: 11:00 AM – 12:00 AM',
+    'Friday: 11:00 AM – 2:00 AM',
+    'Saturday: Open 24 hours',
+    'Sunday: 10:00–16:00',
+];
+
+const hours = (h: number, m = 0) => h * 60 + m;
+
+describe('parseWeekdayText', () => {
+    const schedule = parseWeekdayText(WEEKDAY_TEXT)!;
+
+    it('parses closed days, split shifts, 24-hour clocks and round-the-clock days', () => {
+        expect(schedule[1]).toEqual([]);
+        expect(schedule[2]).toEqual([
+            { open: hours(11, 30), close: hours(14, 30) },
+            { open: hours(17), close: hours(22) },
+        ]);
+        expect(schedule[3]).toEqual(schedule[2]);
+        expect(schedule[6]).toEqual([{ open: 0, close: hours(24) }]);
+        expect(schedule[0]).toEqual([{ open: hours(10), close: hours(16) }]);
+    });
+
+    it('carries ranges past midnight into the next day', () => {
+        expect(schedule[4]).toEqual([{ open: hours(11), close: hours(24) }]);
+        expect(schedule[5]).toEqual([{ open: hours(11), close: hours(26) }]);
+    });
+
+    it('rejects text it cannot understand', () => {
+        expect(parseWeekdayText(['Monday: by appointment'])).toBeUndefined();
+        expect(parseWeekdayText(WEEKDAY_TEXT.slice(1))).toBeUndefined();
+    });
+});
+
+describe('openStatusAt', () => {
+    const schedule = parseWeekdayText(WEEKDAY_TEXT)!;
+
+    it('reports closing time while open', () => {
+        expect(describeOpenStatus(openStatusAt(schedule, { day: 2, minutes: hours(12) }))).toBe('Open now · closes 14:30');
+    });
+
+    it('reports the next opening later today or on a later day', () => {
+        expect(describeOpenStatus(openStatusAt(schedule, { day: 2, minutes: hours(15) }))).toBe('Opens at 17:00');
+        expect(describeOpenStatus(openStatusAt(schedule, { day: 1, minutes: hours(12) }))).toBe('Opens Tue 11:30');
+    });
+
+    it('counts late-night hours from the previous day', () => {
+        expect(openStatusAt(schedule, { day: 6, minutes: hours(1) })).toEqual({ open: true, closesAt: '00:00' });
+    });
+
+    it('treats a schedule open every hour as open around the clock', () => {
+        const always: WeeklySchedule = Array.from({ length: 7 }, () => [{ open: 0, close: hours(24) }]);
+        expect(describeOpenStatus(openStatusAt(always, { day: 3, minutes: hours(3) }))).toBe('Open 24 hours');
+    });
+});
+
+describe('visit windows', () => {
+    const schedule = parseWeekdayText(WEEKDAY_TEXT)!;
+
+    it('resolves a local date-time to the right weekday', () => {
+        // 2026-10-19 is a Monday
+        expect(resolveVisitWindow({ start: '2026-10-19T12:00' })).toEqual({
+            start: 1 * hours(24) + hours(12),
+            end: 1 * hours(24) + hours(14),
+        });
+    });
+
+    it('rejects malformed or inverted windows', () => {
+        expect(resolveVisitWindow({ start: '2026-02-30T12:00' })).toHaveProperty('error');
+        expect(resolveVisitWindow({ start: '2026-10-19T12:00', end: '2026-10-19T11:00' })).toHaveProperty('error');
+    });
+
+    it('checks whether any part of the window overlaps opening hours', () => {
+        const monday = resolveVisitWindow({ start: '2026-10-19T12:00' });
+        const mondayNight = resolveVisitWindow({ start: '2026-10-19T22:00', end: '2026-10-20T12:00' });
+        if ('error' in monday || 'error' in mondayNight) throw new Error('invalid window');
+
+        expect(isOpenDuring(schedule, monday)).toBe(false);
+        expect(isOpenDuring(schedule, mondayNight)).toBe(true);
+    });
+});
+
+describe('localTimeAt', () => {
+    it('applies the place offset', () => {
+        // Monday 02:30 UTC is Sunday 22:30 in Toronto (UTC-4)
+        expect(localTimeAt(-240, new Date('2026-10-19T02:30:00Z'))).toEqual({ day: 0, minutes: hours(22, 30) });
+    });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { applyPersonaEdits, describePersonaEdits, diffPersona, hasPersonaEdits } from '@/app/lib/persona';
+import { InterestCategory } from '@/app/types/persona';
+
+const generated = {
+    name: 'Ada Lovelace',
+    handle: 'ada',
+    bio: 'Poet of science',
+    traits: ['analytical', 'curious'],
+    interests: ['mathematics', 'poetry'],
+    confidence: 80,
+    interestCategories: { mathematics: InterestCategory.SCIENCE },
+};
+
+describe('diffPersona', () => {
+    it('records only what changed', () => {
+        const edits = diffPersona(generated, {
+            ...generated,
+            bio: ' Mathematician ',
+            traits: ['Curious', 'witty'],
+            interests: ['mathematics', 'poetry', 'opera'],
+        });
+
+        expect(edits).toEqual({
+            bio: 'Mathematician',
+            addedTraits: ['witty'],
+            removedTraits: ['analytical'],
+            addedInterests: ['opera'],
+            removedInterests: [],
+        });
+        expect(hasPersonaEdits(edits)).toBe(true);
+        expect(describePersonaEdits(edits)).toEqual(['bio', '1 trait added', '1 trait removed', '1 interest added']);
+    });
+
+    it('finds no edits in an unchanged persona', () => {
+        expect(hasPersonaEdits(diffPersona(generated, { ...generated }))).toBe(false);
+    });
+});
+
+describe('applyPersonaEdits', () => {
+    it('rebuilds the edited persona from the generated one', () => {
+        const edited = { ...generated, name: 'Ada', traits: ['curious', 'witty'], interests: ['poetry', 'opera'] };
+        const result = applyPersonaEdits(generated, diffPersona(generated, edited));
+
+        expect(result).toEqual(edited);
+        // Fields that cannot be edited survive
+        expect(result.confidence).toBe(80);
+        expect(result.interestCategories).toEqual(generated.interestCategories);
+    });
+});
@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PipelineEvent } from '@/app/types/api';
+import { useReplayEnvironment } from '../helpers';
+
+const persona = {
+    name: 'Jane Doe',
+    handle: 'janedoe',
+    bio: 'An urban cyclist who builds open data tools.',
+    traits: ['curious', 'outdoorsy'],
+    interests: ['cycling', 'maps'],
+};
+
+describe('generateVerifiedLocations', () => {
+    beforeEach(() => {
+        vi.resetModules();
+    });
+
+    it('numbers streamed places by the ones kept, not the ones verified', async () => {
+        useReplayEnvironment('locations-toronto');
+        const { generateVerifiedLocations } = await import('@/app/lib/pipeline');
+        const { googleMapsClient } = await import('@/app/lib/google-maps');
+        const events: PipelineEvent[] = [];
+
+        const city = await googleMapsClient().resolveCity('Toronto');
+        const locations = await generateVerifiedLocations(
+            persona,
+            city,
+            { count: 3, budget: 'cheap' },
+            event => events.push(event)
+        );
+
+        // The market is verified first but is over budget, so the park is the first place shown
+        const streamed = events.flatMap(event => (event.type === 'location' ? [event] : []));
+        expect(streamed.map(event => [event.index, event.location.placeId])).toEqual([[0, 'place-park']]);
+        expect(locations).toEqual([streamed[0].location]);
+    });
+});
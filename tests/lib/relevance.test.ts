@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { scoreLocation, sortByRelevance } from '@/app/lib/relevance';
+import { InterestCategory, PartialEnhancedPersona } from '@/app/types/persona';
+import { Location } from '@/app/types/location';
+
+const persona: PartialEnhancedPersona = {
+    name: 'Jane Doe',
+    handle: 'janedoe',
+    bio: 'An urban cyclist.',
+    traits: ['curious', 'outdoorsy'],
+    interests: ['cycling', 'baking'],
+    interestCategories: { cycling: InterestCategory.SPORTS, baking: InterestCategory.FOOD },
+};
+
+const location = (overrides: Partial<Location>): Location => ({
+    id: 'id',
+    name: 'Somewhere',
+    address: '1 Main St',
+    description: '',
+    category: 'attraction',
+    coordinates: { lat: 0, lng: 0 },
+    ...overrides,
+});
+
+describe('scoreLocation', () => {
+    it('gives full credit to interests and traits the place mentions', () => {
+        const scored = scoreLocation(location({
+            name: 'Bakery Row',
+            category: 'shop',
+            description: 'Great baking for curious minds.',
+            rating: 5,
+        }), persona);
+
+        expect(scored.recommendationContext).toMatchObject({
+            interest: 'baking',
+            trait: 'curious',
+            breakdown: { interest: 50, trait: 30, rating: 20 },
+        });
+        expect(scored.relevanceScore).toBe(100);
+    });
+
+    it('gives partial credit when only the category suits the persona', () => {
+        const scored = scoreLocation(location({ name: 'High Park', category: 'park', rating: 3 }), persona);
+
+        expect(scored.recommendationContext).toMatchObject({
+            interest: 'cycling',
+            trait: 'outdoorsy',
+            relevance: 'Matches your interest in cycling and your outdoorsy side.',
+            breakdown: { interest: 30, trait: 18, rating: 10 },
+        });
+        expect(scored.relevanceScore).toBe(58);
+    });
+
+    it('leaves the match empty when nothing fits', () => {
+        const scored = scoreLocation(location({ name: 'Tax Office', category: 'work' }), persona);
+
+        expect(scored.recommendationContext?.interest).toBeUndefined();
+        expect(scored.recommendationContext?.trait).toBeUndefined();
+        expect(scored.relevanceScore).toBe(10);
+    });
+});
+
+describe('sortByRelevance', () => {
+    it('orders by score and keeps unscored places last', () => {
+        const sorted = sortByRelevance([
+            { id: 'a' },
+            { id: 'b', relevanceScore: 40 },
+            { id: 'c', relevanceScore: 90 },
+        ]);
+
+        expect(sorted.map(item => item.id)).toEqual(['c', 'b', 'a']);
+    });
+});
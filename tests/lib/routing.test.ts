@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { optimizeRoute, ROUTE_END_ID, ROUTE_START_ID } from '@/app/lib/routing';
+import { Location } from '@/app/types/location';
+
+// Stops along a line of longitude, listed out of order
+const stop = (id: string, lng: number): Location => ({
+    id,
+    name: id,
+    address: '',
+    description: '',
+    category: 'park',
+    coordinates: { lat: 43.65, lng },
+});
+
+const stops = [stop('c', -79.36), stop('a', -79.40), stop('d', -79.35), stop('b', -79.38)];
+
+describe('optimizeRoute', () => {
+    it('visits stops along the shortest open path', () => {
+        const route = optimizeRoute(stops);
+
+        expect(route.order.join('')).toMatch(/^(abcd|dcba)$/);
+        expect(route.legs).toHaveLength(3);
+        expect(route.path).toHaveLength(4);
+        expect(route.totalDistanceKm).toBeCloseTo(route.legs.reduce((total, leg) => total + leg.distanceKm, 0), 1);
+    });
+
+    it('respects fixed start and end points', () => {
+        const route = optimizeRoute(stops, { start: { lat: 43.65, lng: -79.34 }, end: { lat: 43.65, lng: -79.41 } });
+
+        expect(route.order).toEqual(['d', 'c', 'b', 'a']);
+        expect(route.legs[0].from).toBe(ROUTE_START_ID);
+        expect(route.legs[route.legs.length - 1].to).toBe(ROUTE_END_ID);
+    });
+
+    it('returns to the start on a round trip', () => {
+        const route = optimizeRoute(stops, { start: { lat: 43.65, lng: -79.37 }, roundTrip: true });
+
+        expect(route.order).toHaveLength(4);
+        expect(route.legs).toHaveLength(5);
+        expect(route.path[0]).toEqual(route.path[route.path.length - 1]);
+    });
+
+    it('untangles crossing paths with 2-opt', () => {
+        // Corners of a square: nearest neighbour from the start crosses over itself
+        const square = [
+            stop('nw', -79.40),
+            { ...stop('se', -79.38), coordinates: { lat: 43.63, lng: -79.38 } },
+            { ...stop('ne', -79.38), coordinates: { lat: 43.65, lng: -79.38 } },
+            { ...stop('sw', -79.40), coordinates: { lat: 43.63, lng: -79.40 } },
+        ];
+        const route = optimizeRoute(square, { roundTrip: true, metric: 'time' });
+        const position = (id: string) => route.order.indexOf(id);
+
+        // Diagonal corners are never adjacent on the best tour
+        expect(Math.abs(position('nw') - position('se'))).toBe(2);
+        expect(Math.abs(position('ne') - position('sw'))).toBe(2);
+    });
+});
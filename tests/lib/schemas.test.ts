@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { validateLocations, validatePersona } from '@/app/lib/schemas';
+import { CityContext } from '@/app/types/location';
+import { groupTraits } from '@/app/lib/persona';
+
+const basePersona = {
+    name: 'Jane Doe',
+    bio: 'An urban cyclist.',
+    traits: ['curious', 'direct'],
+    interests: ['cycling'],
+};
+
+describe('validatePersona', () => {
+    it('keeps known categories and drops unknown ones', () => {
+        const result = validatePersona({
+            ...basePersona,
+            confidence: 55,
+            traitCategories: { Curious: 'PERSONALITY', direct: 'bluntness', stranger: 'values' },
+            interestCategories: { cycling: 'sports' },
+        });
+
+        expect(result.success).toBe(true);
+        if (!result.success) return;
+
+        expect(result.data.traitCategories).toEqual({ curious: 'personality' });
+        expect(result.data.interestCategories).toEqual({ cycling: 'sports' });
+        expect(groupTraits(result.data)).toEqual([
+            { label: 'Personality', items: ['curious'] },
+            { label: 'Other', items: ['direct'] },
+        ]);
+    });
+
+    it('scales a fractional confidence to a percentage', () => {
+        const result = validatePersona({ ...basePersona, confidence: '0.85' });
+
+        expect(result.success && result.data.confidence).toBe(85);
+    });
+
+    it('requires a confidence score', () => {
+        const result = validatePersona({ ...basePersona, confidence: 250 });
+
+        expect(result.success).toBe(false);
+        expect(result.issues).toEqual([{ path: 'confidence', message: 'must be a number between 0 and 100' }]);
+    });
+});
+
+describe('validateLocations', () => {
+    const city: CityContext = { name: 'Toronto, ON, Canada', center: { lat: 43.6532, lng: -79.3832 }, radiusKm: 10 };
+    const candidate = { name: 'Bistro', address: '1 King St', coordinates: city.center };
+
+    it('lists every accepted category when repairing an unknown one', () => {
+        const result = validateLocations({ locations: [{ ...candidate, category: 'spaceport' }] }, city);
+
+        expect(result.success).toBe(false);
+        expect(result.issues[0].message).toMatch(/^must be one of: restaurant, cafe, bar, park, museum, .*attraction/);
+        expect(result.issues[0].message).toContain('(got "spaceport")');
+    });
+});
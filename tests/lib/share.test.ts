@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createShareId, FileShareStore, isShareId, loadSharedResult, MemoryShareStore, saveSharedResult, validateSharedResult } from '@/app/lib/share';
+
+const input = {
+    persona: { name: 'Ada', handle: 'ada', bio: '', traits: ['curious'], interests: ['art'] },
+    locations: [
+        { id: 'ago', name: 'Art Gallery of Ontario', address: '317 Dundas St W', description: 'Art', category: 'museum', coordinates: { lat: 43.6536, lng: -79.3925 } },
+    ],
+    city: 'Toronto, ON, Canada',
+};
+
+describe('share ids', () => {
+    it('are short, random and recognisable', () => {
+        const id = createShareId();
+
+        expect(isShareId(id)).toBe(true);
+        expect(createShareId()).not.toBe(id);
+        expect(isShareId('../secrets')).toBe(false);
+    });
+});
+
+describe('validateSharedResult', () => {
+    it('accepts a persona with places', () => {
+        expect(validateSharedResult(input)).toBeUndefined();
+    });
+
+    it('rejects personas that do not match the persona schema', () => {
+        const { traits: _traits, ...withoutTraits } = input.persona;
+
+        expect(validateSharedResult({ ...input, persona: withoutTraits as typeof input.persona })).toMatch(/persona/);
+        expect(validateSharedResult({ ...input, persona: { ...input.persona, interests: [] } })).toMatch(/persona/);
+        expect(validateSharedResult({ ...input, persona: { ...input.persona, confidence: 250 } })).toMatch(/persona/);
+        expect(validateSharedResult({ ...input, group: [input.persona, { ...input.persona, name: ' ' }] })).toMatch(/group/);
+    });
+
+    it('rejects places without an id, name, category or coordinates', () => {
+        const [place] = input.locations;
+        const malformed = [{ ...place, coordinates: { lat: 'north' } }, { ...place, id: undefined }] as unknown as typeof input.locations;
+
+        for (const location of malformed) {
+            expect(validateSharedResult({ ...input, locations: [location] })).toMatch(/locations/);
+        }
+    });
+
+    it('rejects missing places and bad map settings', () => {
+        expect(validateSharedResult({ ...input, locations: [] })).toMatch(/locations/);
+        expect(validateSharedResult({ ...input, radiusKm: -1 })).toMatch(/radius/);
+    });
+});
+
+describe('FileShareStore', () => {
+    let directory: string;
+
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it('stores snapshots as JSON files and reads them back', async () => {
+        directory = await mkdtemp(path.join(tmpdir(), 'shares-'));
+        const store = new FileShareStore(directory);
+
+        const saved = await saveSharedResult(input, store);
+
+        expect(await readdir(directory)).toEqual([`${saved.id}.json`]);
+        expect(await loadSharedResult(saved.id, store)).toEqual(saved);
+        expect(await loadSharedResult('unknownid1', store)).toBeUndefined();
+    });
+});
+
+describe('saveSharedResult', () => {
+    it('never overwrites an existing snapshot', async () => {
+        const store = new MemoryShareStore();
+        const first = await saveSharedResult(input, store);
+        const second = await saveSharedResult(input, store);
+
+        expect(second.id).not.toBe(first.id);
+        expect((await store.get(first.id))?.createdAt).toBe(first.createdAt);
+    });
+});
@@ -0,0 +1,16 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    resolve: {
+        alias: {
+            '@': path.resolve(__dirname, 'src'),
+        },
+    },
+    test: {
+        environment: 'node',
+        include: ['tests/**/*.test.ts'],
+        // The clients log every request and fallback; keep test output readable
+        silent: true,
+    },
+});